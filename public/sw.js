@@ -50,3 +50,157 @@ self.addEventListener("fetch", (event) => {
     })
   );
 });
+
+// ===== offline fronta porovnaní (Background Sync) =====
+// Zrkadlí src/lib/compareQueue.ts – tvar záznamov a názvy musia sedieť.
+const DB_NAME = "scancontroll";
+const QUEUE_STORE = "compareQueue";
+const QUEUE_SYNC_TAG = "compare-queue";
+const QUEUE_CHANNEL = "scancontroll-queue";
+const SENDING_STALE_MS = 2 * 60 * 1000;
+
+function openDb() {
+  return new Promise((resolve) => {
+    // bez verzie – DB vytvára a migruje stránka
+    const req = indexedDB.open(DB_NAME);
+    req.onupgradeneeded = () => req.transaction.abort();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => resolve(null);
+  });
+}
+
+function tx(db, mode, fn) {
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(QUEUE_STORE, mode);
+    const req = fn(t.objectStore(QUEUE_STORE));
+    t.oncomplete = () => resolve(req.result);
+    t.onerror = () => reject(t.error);
+  });
+}
+
+const isClaimable = (e) =>
+  e.status === "pending" ||
+  (e.status === "sending" && (!e.sendingAt || Date.now() - e.sendingAt >= SENDING_STALE_MS));
+
+/** prečítanie, kontrola a zámok v jednej transakcii; null = záznam už spracúva iný kontext */
+function claim(db, id) {
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(QUEUE_STORE, "readwrite");
+    const s = t.objectStore(QUEUE_STORE);
+    let claimed = null;
+    const get = s.get(id);
+    get.onsuccess = () => {
+      const e = get.result;
+      if (!e || !isClaimable(e)) return;
+      claimed = { ...e, status: "sending", sendingAt: Date.now() };
+      s.put(claimed);
+    };
+    t.oncomplete = () => resolve(claimed);
+    t.onerror = () => reject(t.error);
+    t.onabort = () => reject(t.error);
+  });
+}
+
+function notifyQueueChanged() {
+  const ch = new BroadcastChannel(QUEUE_CHANNEL);
+  ch.postMessage({ type: "changed" });
+  ch.close();
+}
+
+async function postWithTimeout(url, body, timeoutMs, token) {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    return await fetch(url, {
+      method: "POST",
+      body,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal: ctrl.signal
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function replayQueue() {
+  const db = await openDb();
+  if (!db) return;
+  if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+    db.close();
+    return;
+  }
+
+  let unreachable = false;
+  try {
+    const entries = (await tx(db, "readonly", (s) => s.getAll())).sort(
+      (a, b) => a.createdAt - b.createdAt
+    );
+
+    for (const candidate of entries) {
+      if (!isClaimable(candidate)) continue;
+      const entry = await claim(db, candidate.id);
+      if (!entry) continue;
+      notifyQueueChanged();
+
+      const fd = new FormData();
+      Object.entries(entry.fields).forEach(([k, v]) => fd.append(k, v));
+      entry.files.forEach((f) => fd.append(f.name, f.blob, f.filename));
+
+      let result = null;
+      let lastError = null;
+      let kind = null;
+      for (const ep of entry.endpoints) {
+        try {
+          const r = await postWithTimeout(ep.url, fd, ep.timeoutMs, entry.token);
+          const text = await r.text();
+          if (r.status === 401) {
+            lastError = "Relácia vypršala – prihlás sa znova";
+            kind = "unauthorized";
+            break;
+          }
+          if (!r.ok) {
+            lastError = `HTTP ${r.status}`;
+            kind = "http";
+            continue;
+          }
+          result = {
+            data: JSON.parse(text),
+            backend: ep.backend,
+            path: ep.path,
+            finishedAt: Date.now()
+          };
+          break;
+        } catch (err) {
+          const parse = err instanceof SyntaxError;
+          lastError = parse ? "Odpoveď nie je JSON" : String((err && err.message) || err);
+          kind = parse ? "parse" : "network";
+        }
+      }
+
+      const next = { ...entry, attempts: entry.attempts + 1, sendingAt: undefined };
+      if (result) {
+        Object.assign(next, { status: "done", lastError: undefined, result });
+      } else {
+        Object.assign(next, { status: kind === "network" ? "pending" : "failed", lastError });
+      }
+      await tx(db, "readwrite", (s) => s.put(next));
+      notifyQueueChanged();
+
+      if (!result && kind === "network") {
+        unreachable = true;
+        break;
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  // odmietnutý promise → prehliadač sync zopakuje neskôr
+  if (unreachable) throw new Error("Backend nedostupný");
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === QUEUE_SYNC_TAG) {
+    event.waitUntil(replayQueue());
+  }
+});
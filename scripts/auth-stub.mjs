@@ -0,0 +1,97 @@
+// scripts/auth-stub.mjs
+// Lokálny stub auth servera pre vývoj: `npm run auth-stub`, potom VITE_AUTH_BASE_URL=http://localhost:8090
+//   POST /api/auth/login   { username, password } → { accessToken, expiresIn, user }
+//   POST /api/auth/logout  (Bearer) → 204
+//   GET  /api/auth/me      (Bearer) → { user }
+import { createServer } from "node:http";
+import { randomBytes } from "node:crypto";
+
+const PORT = Number(process.env.AUTH_STUB_PORT) || 8090;
+// krátka platnosť, aby sa dala otestovať expirácia relácie
+const TTL_S = Number(process.env.AUTH_STUB_TTL_S) || 30 * 60;
+
+const USERS = {
+  operator: { password: "operator", displayName: "Operátor linky", role: "operator" },
+  kontrola: { password: "gpcs14", displayName: "Kontrola", role: "supervisor" },
+  admin: { password: "admin", displayName: "Administrátor", role: "admin" }
+};
+
+/** token → { username, expiresAt } */
+const tokens = new Map();
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS"
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (c) => (data += c));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data || "{}"));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function auth(req) {
+  const m = /^Bearer (.+)$/.exec(req.headers.authorization || "");
+  const t = m && tokens.get(m[1]);
+  if (!t) return null;
+  if (t.expiresAt <= Date.now()) {
+    tokens.delete(m[1]);
+    return null;
+  }
+  return { token: m[1], ...t };
+}
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  const url = new URL(req.url || "/", "http://localhost");
+
+  if (req.method === "GET" && url.pathname === "/api/health") {
+    return send(res, 200, { status: "UP" });
+  }
+
+  if (req.method === "POST" && url.pathname === "/api/auth/login") {
+    const { username = "", password = "" } = await readJson(req);
+    const key = String(username).trim().toLowerCase();
+    const u = USERS[key];
+    if (!u || u.password !== password) return send(res, 401, { error: "invalid_credentials" });
+    const token = randomBytes(24).toString("hex");
+    tokens.set(token, { username: key, expiresAt: Date.now() + TTL_S * 1000 });
+    return send(res, 200, {
+      accessToken: token,
+      expiresIn: TTL_S,
+      user: { username: key, displayName: u.displayName, role: u.role }
+    });
+  }
+
+  if (req.method === "POST" && url.pathname === "/api/auth/logout") {
+    const a = auth(req);
+    if (a) tokens.delete(a.token);
+    return send(res, 204);
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/auth/me") {
+    const a = auth(req);
+    if (!a) return send(res, 401, { error: "unauthorized" });
+    const u = USERS[a.username];
+    return send(res, 200, {
+      user: { username: a.username, displayName: u.displayName, role: u.role }
+    });
+  }
+
+  send(res, 404, { error: "not_found" });
+}).listen(PORT, () => {
+  console.log(`auth stub on http://localhost:${PORT} (TTL ${TTL_S} s)`);
+});
@@ -9,19 +9,42 @@ import {
 } from "react-router-dom";
 import Login from "./pages/Login";
 import Compare from "./pages/Compare";
+import History from "./pages/History";
+import InspectionDetail from "./pages/InspectionDetail";
+import Review from "./pages/Review";
+import Masters from "./pages/Masters";
+import Settings from "./pages/Settings";
+import AppNav from "./components/AppNav";
+import { useSession } from "./hooks/useSession";
+import { getLastEndReason } from "./lib/session";
+import { can, type Permission } from "./lib/roles";
 
-// Strážca routy – ak nie si prihlásený, presmeruje na /login a uloží "from" pre návrat
+// Strážca routy – bez platného tokenu (alebo po jeho expirácii) presmeruje na /login
+// a uloží "from" pre návrat
 function RequireAuth() {
   const location = useLocation();
-  const ok = typeof window !== "undefined" && localStorage.getItem("etis_auth") === "1";
+  const session = useSession();
 
-  return ok ? (
-    <Outlet />
+  return session ? (
+    <>
+      <AppNav />
+      <Outlet />
+    </>
   ) : (
-    <Navigate to="/login" replace state={{ from: location }} />
+    <Navigate
+      to="/login"
+      replace
+      state={{ from: location, expired: getLastEndReason() === "expired" }}
+    />
   );
 }
 
+// Strážca podľa roly – bez oprávnenia vráti používateľa na porovnanie
+function RequirePermission({ perm }: { perm: Permission }) {
+  const session = useSession();
+  return can(session?.role, perm) ? <Outlet /> : <Navigate to="/compare" replace />;
+}
+
 export default function App() {
   return (
     <BrowserRouter>
@@ -34,7 +57,20 @@ export default function App() {
 
         {/* chránená sekcia */}
         <Route element={<RequireAuth />}>
-          <Route path="/compare" element={<Compare />} />
+          <Route element={<RequirePermission perm="compare" />}>
+            <Route path="/compare" element={<Compare />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/history/:id" element={<InspectionDetail />} />
+          </Route>
+          <Route element={<RequirePermission perm="review" />}>
+            <Route path="/review" element={<Review />} />
+          </Route>
+          <Route element={<RequirePermission perm="masters.manage" />}>
+            <Route path="/admin/masters" element={<Masters />} />
+          </Route>
+          <Route element={<RequirePermission perm="settings" />}>
+            <Route path="/admin/settings" element={<Settings />} />
+          </Route>
         </Route>
 
         {/* fallback – hocijaká zlá URL → login */}
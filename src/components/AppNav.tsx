@@ -0,0 +1,51 @@
+// src/components/AppNav.tsx
+import { NavLink } from "react-router-dom";
+import { useSession } from "../hooks/useSession";
+import { logout } from "../lib/auth";
+import { ROLE_LABELS, can, type Permission } from "../lib/roles";
+
+const ITEMS: { to: string; label: string; perm: Permission }[] = [
+  { to: "/compare", label: "Porovnanie", perm: "compare" },
+  { to: "/history", label: "História", perm: "compare" },
+  { to: "/review", label: "Schvaľovanie", perm: "review" },
+  { to: "/admin/masters", label: "Mastre", perm: "masters.manage" },
+  { to: "/admin/settings", label: "Nastavenia", perm: "settings" }
+];
+
+/** Horná lišta – položky menu podľa roly prihláseného používateľa. */
+export default function AppNav() {
+  const session = useSession();
+  if (!session) return null;
+
+  const items = ITEMS.filter((i) => can(session.role, i.perm));
+
+  return (
+    <nav className="bg-slate-950 border-b border-slate-800 text-sm text-slate-300 print:hidden">
+      <div className="max-w-6xl mx-auto px-4 py-2 flex flex-wrap items-center gap-x-4 gap-y-2">
+        {items.map((i) => (
+          <NavLink
+            key={i.to}
+            to={i.to}
+            className={({ isActive }) =>
+              isActive ? "text-white font-semibold" : "hover:text-white"
+            }
+          >
+            {i.label}
+          </NavLink>
+        ))}
+
+        <div className="ml-auto flex items-center gap-3">
+          <span>
+            {session.displayName || session.user}
+            <span className="ml-2 px-2 py-0.5 rounded bg-slate-800 text-xs text-slate-400">
+              {ROLE_LABELS[session.role]}
+            </span>
+          </span>
+          <button onClick={() => logout()} className="hover:text-white">
+            Odhlásiť
+          </button>
+        </div>
+      </div>
+    </nav>
+  );
+}
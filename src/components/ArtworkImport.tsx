@@ -0,0 +1,237 @@
+// src/components/ArtworkImport.tsx
+import { useEffect, useState } from "react";
+import CropEditor from "./CropEditor";
+import {
+  ARTWORK_DPIS,
+  PT_PER_MM,
+  defaultArea,
+  openArtwork,
+  rasterSize,
+  type Artwork
+} from "../lib/artwork";
+import type { CropRect } from "../lib/crop";
+
+type ArtworkImportProps = {
+  widthMm: number;
+  heightMm: number;
+  /** text = textová vrstva PDF ako referenčný text mastra; null = ostáva OCR */
+  onImport: (file: File, previewUrl: string, text: string | null) => void;
+};
+
+/** dlhšia strana náhľadu strany pri výbere oblasti */
+const PREVIEW_SIDE = 1000;
+
+type Preview = { url: string; scale: number; initialRect: CropRect };
+
+type Imported = { file: File; previewUrl: string; text: string | null; scalePct: number };
+
+/** Master z tlačových podkladov: výber strany a oblasti etikety, raster v zvolenom DPI, text z PDF. */
+export default function ArtworkImport({ widthMm, heightMm, onImport }: ArtworkImportProps) {
+  const [artwork, setArtwork] = useState<Artwork | null>(null);
+  const [page, setPage] = useState(1);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [dpi, setDpi] = useState(600);
+  const [useText, setUseText] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<Imported | null>(null);
+
+  const ready = widthMm > 0 && heightMm > 0;
+
+  // náhľad celej strany na výber oblasti
+  useEffect(() => {
+    if (!artwork || !ready) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const size = await artwork.pageSize(page);
+        const scale = PREVIEW_SIDE / Math.max(size.w, size.h);
+        const canvas = await artwork.render(
+          page,
+          { x: 0, y: 0, ...size },
+          Math.round(size.w * scale),
+          Math.round(size.h * scale)
+        );
+        if (cancelled) return;
+        const a = defaultArea(size.w, size.h, widthMm, heightMm);
+        setPreview({
+          url: canvas.toDataURL("image/png"),
+          scale,
+          initialRect: { x: a.x * scale, y: a.y * scale, w: a.w * scale, h: a.h * scale }
+        });
+      } catch (e) {
+        if (!cancelled) setError("Stranu sa nepodarilo vykresliť: " + (e instanceof Error ? e.message : String(e)));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork, page, ready, widthMm, heightMm]);
+
+  useEffect(() => () => artwork?.destroy(), [artwork]);
+
+  async function pickFile(file: File | undefined) {
+    if (!file) return;
+    setError(null);
+    setPreview(null);
+    setImported(null);
+    setBusy(true);
+    try {
+      setArtwork(await openArtwork(file));
+      setPage(1);
+    } catch (e) {
+      setArtwork(null);
+      setError("Podklad sa nepodarilo otvoriť: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function apply(_preview: HTMLCanvasElement, rect: CropRect) {
+    if (!artwork || !preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const s = preview.scale;
+      const area = { x: rect.x / s, y: rect.y / s, w: rect.w / s, h: rect.h / s };
+      const size = rasterSize(widthMm, heightMm, dpi);
+      const canvas = await artwork.render(page, area, size.w, size.h);
+      const blob = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob((b) => resolve(b), "image/jpeg", 0.92)
+      );
+      if (!blob) throw new Error("Raster sa nepodarilo uložiť.");
+      const text = await artwork.text(page, area);
+      const next: Imported = {
+        file: new File([blob], artwork.name.replace(/\.\w+$/, "") + ".jpg", { type: "image/jpeg" }),
+        previewUrl: canvas.toDataURL("image/jpeg", 0.8),
+        text: text || null,
+        scalePct: Math.round(((widthMm * PT_PER_MM) / area.w) * 100)
+      };
+      setImported(next);
+      onImport(next.file, next.previewUrl, useText ? next.text : null);
+    } catch (e) {
+      setError("Import podkladu zlyhal: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggleText(on: boolean) {
+    setUseText(on);
+    if (imported) onImport(imported.file, imported.previewUrl, on ? imported.text : null);
+  }
+
+  return (
+    <details className="mt-3 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm">
+      <summary className="cursor-pointer select-none font-semibold">
+        Master z tlačových podkladov (PDF / SVG)
+      </summary>
+
+      {!ready ? (
+        <p className="mt-3 text-slate-400">Najprv zadaj rozmer etikety v mm.</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap items-end gap-3 text-xs text-slate-300">
+            <label>
+              Súbor
+              <input
+                type="file"
+                accept=".pdf,.svg,application/pdf,image/svg+xml"
+                onChange={(e) => pickFile(e.target.files?.[0])}
+                className="block mt-1"
+              />
+            </label>
+            {artwork && artwork.pageCount > 1 && (
+              <label>
+                Strana
+                <select
+                  value={page}
+                  onChange={(e) => {
+                    setPreview(null);
+                    setPage(Number(e.target.value));
+                  }}
+                  className="block mt-1 px-2 py-1 rounded bg-slate-800 border border-slate-700"
+                >
+                  {Array.from({ length: artwork.pageCount }, (_, i) => (
+                    <option key={i} value={i + 1}>
+                      {i + 1} / {artwork.pageCount}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label>
+              Rozlíšenie
+              <select
+                value={dpi}
+                onChange={(e) => setDpi(Number(e.target.value))}
+                className="block mt-1 px-2 py-1 rounded bg-slate-800 border border-slate-700"
+              >
+                {ARTWORK_DPIS.map((d) => (
+                  <option key={d} value={d}>
+                    {d} DPI
+                  </option>
+                ))}
+              </select>
+            </label>
+            {artwork?.kind === "pdf" && (
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={useText} onChange={(e) => toggleText(e.target.checked)} />
+                Text z PDF ako referenčný text mastra (namiesto OCR)
+              </label>
+            )}
+          </div>
+
+          {busy && <p className="text-xs text-slate-400">Spracovávam podklad…</p>}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          {artwork && preview && (
+            <>
+              <p className="text-xs text-slate-400">
+                Rámik má rozmer etikety {widthMm} × {heightMm} mm – nastav ho na orezovú
+                (výsekovú) čiaru etikety.
+              </p>
+              <CropEditor
+                key={`${artwork.name}-${page}`}
+                imageUrl={preview.url}
+                aspectRatio={widthMm / heightMm}
+                initialRect={preview.initialRect}
+                allowRotate={false}
+                onApply={apply}
+              />
+            </>
+          )}
+
+          {imported && (
+            <div className="rounded-xl border border-slate-700 p-3 text-xs text-slate-300 space-y-1">
+              <div>
+                Master nastavený z podkladu · {rasterSize(widthMm, heightMm, dpi).w} ×{" "}
+                {rasterSize(widthMm, heightMm, dpi).h} px
+              </div>
+              <div className={Math.abs(imported.scalePct - 100) > 2 ? "text-amber-300" : "text-slate-400"}>
+                Mierka oblasti voči rozmeru etikety: {imported.scalePct} %
+                {Math.abs(imported.scalePct - 100) > 2 && " – skontroluj oblasť alebo rozmer etikety"}
+              </div>
+              {artwork?.kind === "pdf" &&
+                (imported.text ? (
+                  <details>
+                    <summary className="cursor-pointer select-none text-slate-400">
+                      Text z PDF ({imported.text.split("\n").length} riadkov)
+                      {!useText && " – nepoužitý"}
+                    </summary>
+                    <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap text-slate-200">
+                      {imported.text}
+                    </pre>
+                  </details>
+                ) : (
+                  <div className="text-amber-300">
+                    PDF nemá v oblasti textovú vrstvu (text v krivkách) – použije sa OCR.
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
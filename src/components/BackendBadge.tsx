@@ -0,0 +1,52 @@
+// src/components/BackendBadge.tsx
+import { BACKENDS, type BackendId, type CompareAttempt } from "../lib/apiClient";
+import type { HealthMap } from "../hooks/useBackendHealth";
+
+type BackendBadgeProps = {
+  health: HealthMap;
+  /** backend, ktorý vrátil aktuálny výsledok */
+  source?: { backend: BackendId; path: string; attempts: CompareAttempt[] } | null;
+};
+
+const dot = (status: string) =>
+  status === "up" ? "bg-green-500" : status === "down" ? "bg-red-500" : "bg-slate-500";
+
+export default function BackendBadge({ health, source }: BackendBadgeProps) {
+  const failed = source?.attempts.filter((a) => !a.ok) ?? [];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {(Object.keys(BACKENDS) as BackendId[]).map((id) => {
+        const h = health[id];
+        return (
+          <span
+            key={id}
+            title={
+              h.status === "down"
+                ? `${BACKENDS[id].base}: ${h.error || "nedostupný"}`
+                : `${BACKENDS[id].base}${h.latencyMs ? ` · ${Math.round(h.latencyMs)} ms` : ""}`
+            }
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-slate-800 border border-slate-700"
+          >
+            <span className={`w-2 h-2 rounded-full ${dot(h.status)}`} />
+            {BACKENDS[id].label}
+          </span>
+        );
+      })}
+
+      {source && (
+        <span
+          title={failed
+            .map((a) => `${BACKENDS[a.backend].label} ${a.path}: ${a.skipped ? "preskočený (dole)" : a.error}`)
+            .join("\n")}
+          className={`px-2 py-1 rounded-full font-semibold ${
+            failed.length ? "bg-amber-600 text-white" : "bg-sky-700 text-white"
+          }`}
+        >
+          Výsledok: {BACKENDS[source.backend].label} {source.path}
+          {failed.length ? ` (failover ×${failed.length})` : ""}
+        </span>
+      )}
+    </div>
+  );
+}
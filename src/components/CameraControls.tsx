@@ -0,0 +1,131 @@
+// src/components/CameraControls.tsx
+import {
+  RESOLUTION_LABELS,
+  type CameraPrefs,
+  type CameraResolution,
+  type TrackControls
+} from "../lib/camera";
+
+type CameraControlsProps = {
+  prefs: CameraPrefs;
+  onChange: (patch: Partial<CameraPrefs>) => void;
+  cameras: MediaDeviceInfo[];
+  /** null = kamera ešte nebeží */
+  controls: TrackControls | null;
+  /** skutočné rozlíšenie videa */
+  actualSize: { w: number; h: number } | null;
+};
+
+const RESOLUTIONS = Object.keys(RESOLUTION_LABELS) as CameraResolution[];
+
+const SELECT = "block mt-1 w-full px-2 py-1 rounded bg-slate-800 border border-slate-700";
+
+/** Výber kamery, rozlíšenie, zoom, ostrenie a prisvetlenie – podľa schopností kamery. */
+export default function CameraControls({
+  prefs,
+  onChange,
+  cameras,
+  controls,
+  actualSize
+}: CameraControlsProps) {
+  const zoom = controls?.zoom;
+  const focus = controls?.manualFocus ? controls.focusDistance : undefined;
+
+  return (
+    <details className="mt-3 text-xs text-slate-300">
+      <summary className="cursor-pointer select-none text-slate-400">
+        Nastavenia kamery
+        {actualSize && ` · ${actualSize.w} × ${actualSize.h}`}
+      </summary>
+
+      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+        <label>
+          Kamera
+          <select
+            value={prefs.deviceId}
+            onChange={(e) => onChange({ deviceId: e.target.value, zoom: null, focusDistance: null })}
+            className={SELECT}
+          >
+            <option value="">Zadná (predvolená)</option>
+            {cameras.map((c, i) => (
+              <option key={c.deviceId || i} value={c.deviceId}>
+                {c.label || `Kamera ${i + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Rozlíšenie
+          <select
+            value={prefs.resolution}
+            onChange={(e) => onChange({ resolution: e.target.value as CameraResolution })}
+            className={SELECT}
+          >
+            {RESOLUTIONS.map((r) => (
+              <option key={r} value={r}>
+                {RESOLUTION_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {zoom && (
+          <label>
+            Zoom {(prefs.zoom ?? zoom.min).toFixed(1)}×
+            <input
+              type="range"
+              min={zoom.min}
+              max={zoom.max}
+              step={zoom.step || 0.1}
+              value={prefs.zoom ?? zoom.min}
+              onChange={(e) => onChange({ zoom: Number(e.target.value) })}
+              className="block mt-1 w-full"
+            />
+          </label>
+        )}
+
+        {focus && (
+          <label>
+            <span className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={prefs.focusDistance === null}
+                onChange={(e) =>
+                  onChange({ focusDistance: e.target.checked ? null : (focus.min + focus.max) / 2 })
+                }
+              />
+              Automatické ostrenie
+            </span>
+            {prefs.focusDistance !== null && (
+              <input
+                type="range"
+                min={focus.min}
+                max={focus.max}
+                step={focus.step || (focus.max - focus.min) / 100}
+                value={prefs.focusDistance}
+                onChange={(e) => onChange({ focusDistance: Number(e.target.value) })}
+                className="block mt-1 w-full"
+              />
+            )}
+          </label>
+        )}
+
+        {controls?.torch && (
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={prefs.torch}
+              onChange={(e) => onChange({ torch: e.target.checked })}
+            />
+            Prisvetlenie
+          </label>
+        )}
+      </div>
+
+      {controls && !zoom && !focus && !controls.torch && (
+        <p className="mt-2 text-slate-500">Kamera nepodporuje zoom, ostrenie ani prisvetlenie.</p>
+      )}
+    </details>
+  );
+}
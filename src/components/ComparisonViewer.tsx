@@ -0,0 +1,283 @@
+// src/components/ComparisonViewer.tsx
+import { useEffect, useState } from "react";
+import DefectList from "./DefectList";
+import Overlay from "./Overlay";
+import { usePanZoom } from "../hooks/usePanZoom";
+import type { DefectDecisions } from "../lib/defects";
+import { BOX_TYPE_LABELS, loadImage } from "../lib/labelHelpers";
+import type { Box, LabelView } from "../lib/types";
+import { fitRect, toImage, toScreen, type Viewport } from "../lib/viewport";
+
+type Mode = "single" | "side" | "swipe" | "blink";
+
+const MODES: { id: Mode; label: string }[] = [
+  { id: "single", label: "Scan" },
+  { id: "side", label: "Vedľa seba" },
+  { id: "swipe", label: "Posuvník" },
+  { id: "blink", label: "Blikanie" }
+];
+
+const BLINK_MS = 600;
+const TOOL_BTN = "px-2.5 py-1.5 rounded-lg bg-slate-200 hover:bg-slate-300";
+
+type ComparisonViewerProps = {
+  view: LabelView;
+  /** náhľad mastra – bez neho je k dispozícii len samotný scan */
+  masterUrl?: string;
+  decisions?: DefectDecisions;
+};
+
+/** okolie boxu (podiel plátna), v ktorom ešte trafí ťuknutie */
+const HIT_SLOP = 0.015;
+
+/** najmenší box pod bodom plátna (px, py v 0..1) */
+function hitBox(
+  boxes: Box[],
+  frame: { w: number; h: number },
+  v: Viewport,
+  px: number,
+  py: number
+): number | null {
+  if (!frame.w || !frame.h) return null;
+  const p = toImage(v, px, py);
+  const x = p.x * frame.w;
+  const y = p.y * frame.h;
+  const sx = (HIT_SLOP / v.zoom) * frame.w;
+  const sy = (HIT_SLOP / v.zoom) * frame.h;
+  let best: number | null = null;
+  boxes.forEach((b, i) => {
+    const inside =
+      x >= b.x - sx && x <= b.x + b.w + sx && y >= b.y - sy && y <= b.y + b.h + sy;
+    if (inside && (best === null || b.w * b.h < boxes[best].w * boxes[best].h)) best = i;
+  });
+  return best;
+}
+
+const Tag = ({ master }: { master: boolean }) => (
+  <span
+    className={`absolute top-2 left-2 px-2 py-0.5 rounded text-xs font-semibold text-white pointer-events-none ${
+      master ? "bg-slate-700" : "bg-emerald-700"
+    }`}
+  >
+    {master ? "Master" : "Scan"}
+  </span>
+);
+
+/**
+ * Porovnanie mastra a scanu: vedľa seba so spoločným zoomom, posuvník
+ * a blikanie. Boxy rozdielov sa kreslia na oba obrázky; master sa
+ * roztiahne na rozmer scanu, v ktorom BE vracia súradnice.
+ */
+export default function ComparisonViewer({
+  view,
+  masterUrl,
+  decisions
+}: ComparisonViewerProps) {
+  const [mode, setMode] = useState<Mode>("single");
+  const [swipe, setSwipe] = useState(50);
+  const [blinkMaster, setBlinkMaster] = useState(false);
+  const [blinking, setBlinking] = useState(true);
+  const [frame, setFrame] = useState({ w: view.w, h: view.h });
+  const [selected, setSelected] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const boxes = view.boxes || [];
+  const { viewport, setViewport, reset, zoomBy, paneRef } = usePanZoom({
+    onTap: (px, py) => setSelected(hitBox(boxes, frame, viewport, px, py)),
+    onHover: (p) => setHovered(p ? hitBox(boxes, frame, viewport, p.x, p.y) : null)
+  });
+
+  // nový výsledok – zrušiť výber
+  useEffect(() => {
+    setSelected(null);
+    setHovered(null);
+  }, [view]);
+
+  // bez w/h z BE použijeme prirodzený rozmer scanu, aby master sedel na boxy
+  useEffect(() => {
+    let active = true;
+    if (view.w && view.h) {
+      setFrame({ w: view.w, h: view.h });
+    } else {
+      loadImage(view.url)
+        .then((img) => {
+          if (active) setFrame({ w: img.width, h: img.height });
+        })
+        .catch(() => {});
+    }
+    return () => {
+      active = false;
+    };
+  }, [view.url, view.w, view.h]);
+
+  useEffect(() => {
+    if (mode !== "blink" || !blinking) return;
+    const t = window.setInterval(() => setBlinkMaster((b) => !b), BLINK_MS);
+    return () => window.clearInterval(t);
+  }, [mode, blinking]);
+
+  const active: Mode = masterUrl ? mode : "single";
+
+  function focusBox(i: number) {
+    setSelected(i);
+    const b = boxes[i];
+    if (!b || !frame.w || !frame.h) return;
+    setViewport(fitRect(b.x / frame.w, b.y / frame.h, b.w / frame.w, b.h / frame.h));
+  }
+
+  const layer = (src: string) => (
+    <Overlay
+      src={src}
+      w={frame.w}
+      h={frame.h}
+      boxes={boxes}
+      viewport={viewport}
+      selected={selected}
+    />
+  );
+
+  // popis boxu pod kurzorom, inak vybraného – ukotvený pod boxom
+  const tipIndex = hovered ?? selected;
+  const tipBox = tipIndex !== null ? boxes[tipIndex] : undefined;
+  const tipPos =
+    tipBox && frame.w && frame.h
+      ? toScreen(viewport, (tipBox.x + tipBox.w / 2) / frame.w, (tipBox.y + tipBox.h) / frame.h)
+      : null;
+  const tooltip =
+    tipBox && tipPos && tipPos.x >= 0 && tipPos.x <= 1 && tipPos.y >= 0 && tipPos.y <= 1 ? (
+      <div
+        className="absolute z-10 max-w-60 -translate-x-1/2 translate-y-1 rounded-lg bg-slate-900/90 px-2 py-1 text-xs text-white pointer-events-none print:hidden"
+        style={{ left: `${tipPos.x * 100}%`, top: `${tipPos.y * 100}%` }}
+      >
+        <b>#{tipIndex! + 1} {BOX_TYPE_LABELS[tipBox.type || "diff"]}</b>
+        {tipBox.subType ? ` · ${tipBox.subType}` : ""}
+        {tipBox.desc ? <div>{tipBox.desc}</div> : null}
+      </div>
+    ) : null;
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm print:hidden">
+        {masterUrl &&
+          MODES.map((m) => (
+            <button
+              key={m.id}
+              onClick={() => setMode(m.id)}
+              className={`px-3 py-1.5 rounded-lg font-semibold ${
+                active === m.id ? "bg-emerald-600 text-white" : "bg-slate-200 hover:bg-slate-300"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={() => zoomBy(1 / 1.5)} className={TOOL_BTN} title="Oddialiť">
+            −
+          </button>
+          <span className="w-12 text-center tabular-nums">{Math.round(viewport.zoom * 100)} %</span>
+          <button onClick={() => zoomBy(1.5)} className={TOOL_BTN} title="Priblížiť">
+            +
+          </button>
+          <button onClick={reset} className={TOOL_BTN}>
+            Celé
+          </button>
+        </div>
+      </div>
+
+      <div className={boxes.length ? "grid gap-3 lg:grid-cols-[1fr_13rem] items-start" : ""}>
+        <div>
+          {active === "single" && (
+            <div ref={paneRef} className="relative touch-none cursor-grab">
+              {layer(view.url)}
+              {tooltip}
+            </div>
+          )}
+
+          {active === "side" && masterUrl && (
+            <div className="grid grid-cols-2 gap-2">
+              <div ref={paneRef} className="relative touch-none cursor-grab">
+                {layer(masterUrl)}
+                <Tag master />
+                {tooltip}
+              </div>
+              <div ref={paneRef} className="relative touch-none cursor-grab">
+                {layer(view.url)}
+                <Tag master={false} />
+                {tooltip}
+              </div>
+            </div>
+          )}
+
+          {active === "swipe" && masterUrl && (
+            <>
+              <div ref={paneRef} className="relative touch-none cursor-grab">
+                {layer(view.url)}
+                {/* master vľavo od posuvníka, scan vpravo */}
+                <div
+                  className="absolute inset-0"
+                  style={{ clipPath: `inset(0 ${100 - swipe}% 0 0)` }}
+                >
+                  {layer(masterUrl)}
+                </div>
+                <div
+                  className="absolute inset-y-0 w-0.5 bg-emerald-500 pointer-events-none"
+                  style={{ left: `${swipe}%` }}
+                />
+                {tooltip}
+              </div>
+              <div className="mt-2 flex items-center gap-2 text-xs text-slate-500 print:hidden">
+                <span>Master</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={swipe}
+                  onChange={(e) => setSwipe(Number(e.target.value))}
+                  className="flex-1 accent-emerald-600"
+                />
+                <span>Scan</span>
+              </div>
+            </>
+          )}
+
+          {active === "blink" && masterUrl && (
+            <>
+              <div ref={paneRef} className="relative touch-none cursor-grab">
+                {layer(view.url)}
+                <div className={`absolute inset-0 ${blinkMaster ? "" : "invisible"}`}>
+                  {layer(masterUrl)}
+                </div>
+                <Tag master={blinkMaster} />
+                {tooltip}
+              </div>
+              <div className="mt-2 flex gap-2 text-sm print:hidden">
+                <button
+                  onClick={() => setBlinking((b) => !b)}
+                  className="px-3 py-1.5 rounded-lg bg-slate-200 hover:bg-slate-300"
+                >
+                  {blinking ? "Zastaviť" : "Spustiť"}
+                </button>
+                <button
+                  onClick={() => {
+                    setBlinking(false);
+                    setBlinkMaster((b) => !b);
+                  }}
+                  className="px-3 py-1.5 rounded-lg bg-slate-200 hover:bg-slate-300"
+                >
+                  Prepnúť
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+        {boxes.length > 0 && (
+          <DefectList
+            boxes={boxes}
+            selected={selected}
+            onSelect={focusBox}
+            decisions={decisions}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+// src/components/CropEditor.tsx
+import { useEffect, useRef, useState } from "react";
+import {
+  CROP_CORNERS,
+  cropCanvas,
+  fitCrop,
+  moveCrop,
+  resizeCrop,
+  rotateRight,
+  type CropCorner,
+  type CropRect
+} from "../lib/crop";
+import { loadImage } from "../lib/labelHelpers";
+
+type CropEditorProps = {
+  imageUrl: string;
+  /** šírka / výška etikety */
+  aspectRatio: number;
+  /** počiatočný orez v pixeloch obrázka; inak najväčší v strede */
+  initialRect?: CropRect;
+  /** false = obrázok sa nedá otočiť (orez sa prepočítava na iný zdroj) */
+  allowRotate?: boolean;
+  /** orezaný snímok aj obdĺžnik v pixeloch (prípadne otočeného) obrázka */
+  onApply: (canvas: HTMLCanvasElement, rect: CropRect) => void;
+  onCancel?: () => void;
+};
+
+type Source = { el: HTMLImageElement | HTMLCanvasElement; url: string; w: number; h: number };
+
+type Drag = { mode: "move" | CropCorner; x: number; y: number; start: CropRect };
+
+const HANDLE_POS: Record<CropCorner, string> = {
+  nw: "-left-1.5 -top-1.5 cursor-nwse-resize",
+  ne: "-right-1.5 -top-1.5 cursor-nesw-resize",
+  sw: "-left-1.5 -bottom-1.5 cursor-nesw-resize",
+  se: "-right-1.5 -bottom-1.5 cursor-nwse-resize"
+};
+
+/** Ručný orez nahraného obrázka na pomer strán etikety (posun, zmena veľkosti, otočenie). */
+export default function CropEditor({
+  imageUrl,
+  aspectRatio,
+  initialRect,
+  allowRotate = true,
+  onApply,
+  onCancel
+}: CropEditorProps) {
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [src, setSrc] = useState<Source | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // orez platí len pre obrázok a pomer strán, pre ktoré vznikol
+  const [crop, setCrop] = useState<{ rect: CropRect; for: Source; ar: number } | null>(null);
+
+  const ar = aspectRatio > 0 ? aspectRatio : 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then((img) => {
+        if (cancelled) return;
+        setSrc({ el: img, url: imageUrl, w: img.naturalWidth, h: img.naturalHeight });
+        setError(null);
+      })
+      .catch(() => !cancelled && setError("Obrázok sa nepodarilo načítať."));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  const rect =
+    src &&
+    (crop && crop.for === src && crop.ar === ar
+      ? crop.rect
+      : src.url === imageUrl && initialRect
+        ? initialRect
+        : fitCrop(src.w, src.h, ar));
+
+  // bod v pixeloch obrázka z polohy ukazovateľa
+  function toPx(e: React.PointerEvent) {
+    const r = frameRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - r.left) / r.width) * src!.w,
+      y: ((e.clientY - r.top) / r.height) * src!.h
+    };
+  }
+
+  function onDown(mode: Drag["mode"]) {
+    return (e: React.PointerEvent) => {
+      if (!rect || e.button !== 0) return;
+      e.stopPropagation();
+      frameRef.current!.setPointerCapture(e.pointerId);
+      dragRef.current = { mode, ...toPx(e), start: rect };
+    };
+  }
+
+  function onMove(e: React.PointerEvent) {
+    const d = dragRef.current;
+    if (!d || !src) return;
+    const p = toPx(e);
+    const next =
+      d.mode === "move"
+        ? moveCrop(d.start, p.x - d.x, p.y - d.y, src.w, src.h)
+        : resizeCrop(d.start, d.mode, p.x, p.y, ar, src.w, src.h);
+    setCrop({ rect: next, for: src, ar });
+  }
+
+  function rotate() {
+    if (!src) return;
+    const c = rotateRight(src.el);
+    if (c) setSrc({ el: c, url: c.toDataURL("image/png"), w: c.width, h: c.height });
+  }
+
+  function apply() {
+    if (!src || !rect) return;
+    const c = cropCanvas(src.el, rect);
+    if (c) onApply(c, rect);
+  }
+
+  if (error) return <p className="text-xs text-red-400">{error}</p>;
+  if (!src || !rect) return <p className="text-xs text-slate-400">Načítavam obrázok…</p>;
+
+  const pct = (v: number, of: number) => `${(v / of) * 100}%`;
+
+  return (
+    <div>
+      <div className="flex justify-center rounded-xl bg-black p-2">
+        <div
+          ref={frameRef}
+          onPointerMove={onMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+          className="relative w-full max-h-[28rem] select-none touch-none overflow-hidden"
+          style={{ aspectRatio: `${src.w} / ${src.h}`, maxWidth: `calc(28rem * ${src.w / src.h})` }}
+        >
+          <img
+            src={src.url}
+            alt="Nahraný obrázok"
+            draggable={false}
+            className="absolute inset-0 w-full h-full object-fill pointer-events-none"
+          />
+          <div
+            onPointerDown={onDown("move")}
+            className="absolute border-2 border-emerald-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+            style={{
+              left: pct(rect.x, src.w),
+              top: pct(rect.y, src.h),
+              width: pct(rect.w, src.w),
+              height: pct(rect.h, src.h)
+            }}
+          >
+            {CROP_CORNERS.map((c) => (
+              <div
+                key={c}
+                onPointerDown={onDown(c)}
+                className={`absolute w-3 h-3 rounded-sm bg-emerald-400 ${HANDLE_POS[c]}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <p className="mt-2 text-xs text-slate-400">
+        Posuň a zmeň veľkosť rámika tak, aby presne ohraničil etiketu · {Math.round(rect.w)} ×{" "}
+        {Math.round(rect.h)} px
+      </p>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={apply}
+          className="flex-1 px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-semibold text-white"
+        >
+          Použiť orez
+        </button>
+        {allowRotate && (
+          <button
+            type="button"
+            onClick={rotate}
+            className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-white"
+          >
+            Otočiť o 90°
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setCrop(null)}
+          className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-white"
+        >
+          Obnoviť orez
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-white"
+          >
+            Zrušiť
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
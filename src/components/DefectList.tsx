@@ -0,0 +1,71 @@
+// src/components/DefectList.tsx
+import { useEffect, useRef } from "react";
+import { DEFECT_STATUS_LABELS, type DefectDecisions } from "../lib/defects";
+import { BOX_COLORS, BOX_TYPE_LABELS } from "../lib/labelHelpers";
+import type { Box } from "../lib/types";
+
+type DefectListProps = {
+  boxes: Box[];
+  selected: number | null;
+  onSelect: (index: number) => void;
+  /** rozhodnutia majstra – kľúč `gfx:<index>` */
+  decisions?: DefectDecisions;
+};
+
+/** Očíslovaný zoznam boxov z overlaya; výber priblíži box v náhľade. */
+export default function DefectList({ boxes, selected, onSelect, decisions }: DefectListProps) {
+  const itemsRef = useRef<(HTMLLIElement | null)[]>([]);
+
+  // výber z obrázka → posunúť zoznam na položku
+  useEffect(() => {
+    if (selected !== null) itemsRef.current[selected]?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const statusOf = (i: number) => decisions?.[`gfx:${i}`]?.status;
+
+  return (
+    <div className="text-sm">
+      <div className="font-semibold mb-1">Rozdiely ({boxes.length})</div>
+      <ol className="space-y-1 max-h-80 overflow-auto pr-1">
+        {boxes.map((b, i) => (
+          <li
+            key={i}
+            ref={(el) => {
+              itemsRef.current[i] = el;
+            }}
+          >
+            <button
+              onClick={() => onSelect(i)}
+              className={`w-full text-left rounded-lg px-2 py-1.5 flex gap-2 items-start ${
+                selected === i ? "bg-emerald-100 ring-1 ring-emerald-500" : "bg-slate-100 hover:bg-slate-200"
+              }`}
+            >
+              <span
+                className="shrink-0 min-w-6 text-center rounded text-white text-xs font-bold py-0.5"
+                style={{ background: BOX_COLORS[b.type || "diff"] }}
+              >
+                {i + 1}
+              </span>
+              <span className="min-w-0">
+                <span className="block font-medium">
+                  {BOX_TYPE_LABELS[b.type || "diff"]}
+                  {b.subType ? <span className="text-slate-500"> · {b.subType}</span> : null}
+                </span>
+                {b.desc && <span className="block text-slate-600 break-words">{b.desc}</span>}
+                {statusOf(i) && (
+                  <span
+                    className={`block text-xs font-semibold ${
+                      statusOf(i) === "waived" ? "text-sky-700" : "text-red-700"
+                    }`}
+                  >
+                    {DEFECT_STATUS_LABELS[statusOf(i)!]}
+                  </span>
+                )}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+// src/components/DefectReview.tsx
+import { useMemo, useState } from "react";
+import { useSession } from "../hooks/useSession";
+import {
+  DEFECT_AREA_LABELS,
+  DEFECT_STATUS_LABELS,
+  listDefects,
+  makeDecision,
+  type DefectDecision,
+  type DefectDecisions,
+  type DefectStatus
+} from "../lib/defects";
+import { can } from "../lib/roles";
+import type { LabelView } from "../lib/types";
+
+type DefectReviewProps = {
+  view: LabelView;
+  decisions?: DefectDecisions;
+  /** bez callbacku je zoznam len na čítanie */
+  onDecide?: (key: string, decision: DefectDecision | null) => void;
+};
+
+const STATUS_CLASS: Record<DefectStatus, string> = {
+  confirmed: "bg-red-700/60 text-red-100",
+  waived: "bg-sky-700/60 text-sky-100"
+};
+
+/** Rozhodnutie majstra ku každému nálezu – potvrdená chyba alebo výnimka s dôvodom. */
+export default function DefectReview({ view, decisions = {}, onDecide }: DefectReviewProps) {
+  const session = useSession();
+  const items = useMemo(() => listDefects(view), [view]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const editable = !!onDecide && !!session && can(session.role, "results.override");
+
+  if (!items.length) return null;
+  const pending = items.filter((d) => !decisions[d.key]).length;
+
+  function decide(key: string, status: DefectStatus) {
+    if (!onDecide || !session) return;
+    const reason = (reasons[key] || "").trim();
+    if (status === "waived" && !reason) return;
+    onDecide(key, makeDecision(status, reason, session));
+    setReasons((r) => ({ ...r, [key]: "" }));
+  }
+
+  return (
+    <details className="rounded-xl bg-slate-900/40 border border-slate-700 p-3 text-sm" open={editable && pending > 0}>
+      <summary className="cursor-pointer select-none font-semibold">
+        Posúdenie nálezov ({items.length - pending}/{items.length})
+      </summary>
+      <ul className="mt-3 space-y-2 max-h-96 overflow-auto pr-1">
+        {items.map((d) => {
+          const dec = decisions[d.key];
+          const reason = reasons[d.key] || "";
+          return (
+            <li key={d.key} className="rounded-lg bg-slate-900/60 p-2 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="px-1.5 py-0.5 rounded bg-slate-700 text-xs">
+                  {DEFECT_AREA_LABELS[d.area]}
+                </span>
+                <span className="font-medium break-all">{d.title}</span>
+                {dec ? (
+                  <span className={`ml-auto px-1.5 py-0.5 rounded text-xs ${STATUS_CLASS[dec.status]}`}>
+                    {DEFECT_STATUS_LABELS[dec.status]}
+                  </span>
+                ) : (
+                  <span className="ml-auto text-xs text-amber-300">Neposúdené</span>
+                )}
+              </div>
+              {d.detail && <div className="text-slate-400 break-all">{d.detail}</div>}
+              {dec && (
+                <div className="text-xs text-slate-400">
+                  {dec.byName || dec.by} · {new Date(dec.at).toLocaleString()}
+                  {dec.reason ? ` · ${dec.reason}` : ""}
+                </div>
+              )}
+              {editable && (
+                <div className="flex flex-wrap items-center gap-2 pt-1 print:hidden">
+                  {dec ? (
+                    <button
+                      onClick={() => onDecide(d.key, null)}
+                      className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs"
+                    >
+                      Zrušiť rozhodnutie
+                    </button>
+                  ) : (
+                    <>
+                      <input
+                        value={reason}
+                        onChange={(e) => setReasons((r) => ({ ...r, [d.key]: e.target.value }))}
+                        placeholder="Dôvod (povinný pri výnimke)"
+                        className="flex-1 min-w-40 px-2 py-1 rounded bg-slate-800 border border-slate-700 text-xs"
+                      />
+                      <button
+                        onClick={() => decide(d.key, "confirmed")}
+                        className="px-2 py-1 rounded bg-red-700 hover:bg-red-800 text-white text-xs"
+                      >
+                        Potvrdiť chybu
+                      </button>
+                      <button
+                        onClick={() => decide(d.key, "waived")}
+                        disabled={!reason.trim()}
+                        className="px-2 py-1 rounded bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white text-xs"
+                      >
+                        Výnimka
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
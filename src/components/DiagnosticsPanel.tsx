@@ -0,0 +1,66 @@
+// src/components/DiagnosticsPanel.tsx
+import { useMemo } from "react";
+import { FORMAT_LABELS, type DecodeResult } from "../lib/compareDecoder";
+
+type DiagnosticsPanelProps = {
+  result: DecodeResult;
+};
+
+/** Dlhé reťazce (base64 obrázky) v surovej odpovedi skrátime, inak zamrzne <pre>. */
+function shortenLongStrings(_key: string, value: unknown) {
+  if (typeof value === "string" && value.length > 300) {
+    return `${value.slice(0, 80)}… (${value.length} znakov)`;
+  }
+  return value;
+}
+
+export default function DiagnosticsPanel({ result }: DiagnosticsPanelProps) {
+  const rawText = useMemo(() => {
+    try {
+      return JSON.stringify(result.raw, shortenLongStrings, 2) ?? String(result.raw);
+    } catch {
+      return String(result.raw);
+    }
+  }, [result.raw]);
+
+  return (
+    <details className="mt-6 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm print:hidden">
+      <summary className="cursor-pointer select-none font-semibold">
+        Diagnostika odpovede
+        <span className="ml-2 font-normal text-slate-400">
+          {FORMAT_LABELS[result.format]}
+          {result.warnings.length ? ` · upozornenia: ${result.warnings.length}` : ""}
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div>
+          <span className="text-slate-400">Formát:</span>{" "}
+          <span className="font-mono">{result.format}</span>
+        </div>
+
+        {result.warnings.length ? (
+          <ul className="space-y-1">
+            {result.warnings.map((w, i) => (
+              <li key={i} className="bg-slate-900/50 rounded px-2 py-1">
+                {w.path && (
+                  <span className="font-mono text-amber-300 mr-2">{w.path}</span>
+                )}
+                <span className="text-slate-300">{w.message}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-green-400">Bez upozornení.</div>
+        )}
+
+        <div>
+          <div className="text-slate-400 mb-1">Surová odpoveď:</div>
+          <pre className="max-h-80 overflow-auto rounded bg-slate-950 p-3 text-xs text-slate-300 whitespace-pre-wrap break-all">
+            {rawText}
+          </pre>
+        </div>
+      </div>
+    </details>
+  );
+}
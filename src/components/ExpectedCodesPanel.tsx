@@ -0,0 +1,138 @@
+// src/components/ExpectedCodesPanel.tsx
+import { useState } from "react";
+import { EXPECTED_SYMBOLOGIES, saveExpectedCodes, type ExpectedCode } from "../lib/expectedCodes";
+import { checkDigitError } from "../lib/gs1";
+
+type ExpectedCodesPanelProps = {
+  productNumber: string;
+  codes: ExpectedCode[];
+  onSaved: () => void;
+  updatedBy: string;
+  readOnly?: boolean;
+};
+
+const newCode = (): ExpectedCode => ({ id: crypto.randomUUID(), symbology: "EAN-13", value: "" });
+
+const GTIN_LENGTH: Record<string, number> = { "EAN-13": 13, "EAN-8": 8, "UPC-A": 12 };
+
+/** upozornenie pri zadávaní – preklep v GTIN by zhodil každú inšpekciu */
+function valueWarning(c: ExpectedCode): string | null {
+  const len = GTIN_LENGTH[c.symbology];
+  if (!len || !c.value.trim()) return null;
+  return checkDigitError(c.value.trim(), len);
+}
+
+/** Očakávané čiarové kódy produktu – master aj scan sa s nimi porovnávajú. */
+export default function ExpectedCodesPanel({
+  productNumber,
+  codes,
+  onSaved,
+  updatedBy,
+  readOnly
+}: ExpectedCodesPanelProps) {
+  const [draft, setDraft] = useState<ExpectedCode[]>(codes);
+  const [source, setSource] = useState(codes);
+  const [busy, setBusy] = useState(false);
+
+  // iný produkt / uložené kódy → nový koncept
+  if (codes !== source) {
+    setSource(codes);
+    setDraft(codes);
+  }
+
+  const dirty = draft !== codes;
+  const invalid = draft.some((c) => !!valueWarning(c));
+
+  const update = (id: string, patch: Partial<ExpectedCode>) =>
+    setDraft((d) => d.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  async function handleSave() {
+    setBusy(true);
+    try {
+      await saveExpectedCodes(productNumber, draft, updatedBy);
+      onSaved();
+    } catch (e) {
+      alert("Uloženie očakávaných kódov zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="mt-3 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm">
+      <summary className="cursor-pointer select-none font-semibold">
+        Očakávané kódy ({codes.length})
+      </summary>
+
+      {!productNumber.trim() ? (
+        <p className="mt-3 text-slate-400">Kódy sa ukladajú k číslu produktu – najprv ho zadaj.</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-slate-400">
+            Master aj scan musia obsahovať každý kód zo zoznamu. GTIN sa porovnáva aj v rámci
+            GS1 kódu (AI 01).
+          </p>
+
+          {draft.map((c) => {
+            const warning = valueWarning(c);
+            return (
+              <div key={c.id} className="rounded-lg bg-slate-900/50 p-2 space-y-1">
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value={c.symbology}
+                    onChange={(e) => update(c.id, { symbology: e.target.value })}
+                    disabled={readOnly}
+                    className="px-2 py-1 rounded bg-slate-800 border border-slate-700"
+                  >
+                    <option value="">ľubovoľná symbológia</option>
+                    {EXPECTED_SYMBOLOGIES.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={c.value}
+                    onChange={(e) => update(c.id, { value: e.target.value })}
+                    placeholder="Hodnota, napr. 5901234123457"
+                    disabled={readOnly}
+                    className={`flex-1 min-w-40 px-2 py-1 rounded bg-slate-800 border font-mono ${
+                      warning ? "border-red-500" : "border-slate-700"
+                    }`}
+                  />
+                  {!readOnly && (
+                    <button
+                      onClick={() => setDraft((d) => d.filter((x) => x.id !== c.id))}
+                      className="text-red-300 hover:text-red-200"
+                    >
+                      Odstrániť
+                    </button>
+                  )}
+                </div>
+                {warning && <div className="text-xs text-red-300">{warning}</div>}
+              </div>
+            );
+          })}
+
+          {!readOnly && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setDraft((d) => [...d, newCode()])}
+                className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg"
+              >
+                Pridať kód
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={busy || !dirty || invalid}
+                className="bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-lg"
+              >
+                {busy ? "Ukladám…" : "Uložiť kódy"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
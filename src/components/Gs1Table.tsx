@@ -0,0 +1,36 @@
+// src/components/Gs1Table.tsx
+import { useMemo } from "react";
+import { compareGs1 } from "../lib/gs1";
+import type { BcItem } from "../lib/types";
+
+/** Polia GS1 (AI) z kódov mastra a scanu vedľa seba; nezhodné riadky zvýraznené. */
+export default function Gs1Table({ items }: { items: BcItem[] }) {
+  const rows = useMemo(() => compareGs1(items), [items]);
+  if (!rows) return null;
+  const hasMaster = rows.some((r) => r.master !== undefined);
+  const hasScan = rows.some((r) => r.scan !== undefined);
+  const both = hasMaster && hasScan;
+
+  return (
+    <table className="mt-2 w-full text-sm">
+      <thead className="text-xs text-slate-400 text-left">
+        <tr>
+          <th className="pr-2 font-normal">AI</th>
+          <th className="pr-2 font-normal">Pole</th>
+          {hasMaster && <th className="pr-2 font-normal">Master</th>}
+          {hasScan && <th className="font-normal">Scan</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.ai} className={both && !r.equal ? "text-red-300" : "text-slate-300"}>
+            <td className="pr-2 font-mono">({r.ai})</td>
+            <td className="pr-2">{r.title}</td>
+            {hasMaster && <td className="pr-2 font-mono break-all">{r.master ?? "–"}</td>}
+            {hasScan && <td className="font-mono break-all">{r.scan ?? "–"}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
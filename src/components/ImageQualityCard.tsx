@@ -0,0 +1,47 @@
+// src/components/ImageQualityCard.tsx
+import { qualityGuidance, type ImageQuality } from "../lib/imageQuality";
+
+type ImageQualityCardProps = {
+  quality: ImageQuality;
+};
+
+/** Skóre kvality odfoteného snímku a rady, čo zlepšiť pred porovnaním. */
+export default function ImageQualityCard({ quality }: ImageQualityCardProps) {
+  return (
+    <div
+      className={`mt-3 rounded-xl border p-3 text-xs ${
+        quality.ok ? "border-emerald-700 bg-emerald-950/30" : "border-amber-600 bg-amber-950/30"
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-slate-200">Kvalita snímku</span>
+        <span className={quality.ok ? "text-emerald-300" : "text-amber-300"}>
+          {quality.ok ? "v poriadku" : "odfoť znova"}
+        </span>
+      </div>
+
+      <div className="grid gap-1.5">
+        {quality.checks.map((c) => (
+          <div key={c.id} className="grid grid-cols-[7rem_1fr_auto] items-center gap-2">
+            <span className="text-slate-300">{c.label}</span>
+            <div className="h-1.5 rounded bg-slate-700 overflow-hidden">
+              <div
+                className={`h-full ${c.ok ? "bg-emerald-400" : "bg-amber-400"}`}
+                style={{ width: `${Math.round(c.score * 100)}%` }}
+              />
+            </div>
+            <span className={c.ok ? "text-slate-400" : "text-amber-300"}>{c.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {!quality.ok && (
+        <ul className="mt-2 list-disc list-inside text-amber-200">
+          {qualityGuidance(quality).map((g) => (
+            <li key={g}>{g}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,58 @@
 // src/components/LabelCamera.tsx
 import { useEffect, useRef, useState } from "react";
+import CameraControls from "./CameraControls";
+import ImageQualityCard from "./ImageQualityCard";
+import { useFrameQuality } from "../hooks/useFrameQuality";
+import { useLabelOutline } from "../hooks/useLabelOutline";
+import {
+  DEFAULT_CAMERA_PREFS,
+  applyTrackPrefs,
+  listCameras,
+  loadCameraPrefs,
+  saveCameraPrefs,
+  trackControls,
+  videoConstraints,
+  type CameraPrefs,
+  type TrackControls
+} from "../lib/camera";
+import {
+  DEFAULT_THRESHOLDS,
+  QUALITY_ISSUE_LABELS,
+  centralCrop,
+  sharpnessLevel,
+  type QualityThresholds
+} from "../lib/frameQuality";
+import { captureCanvas } from "../lib/capture";
+import type { ImageQuality } from "../lib/imageQuality";
+import { straightenFrame } from "../lib/labelDetect";
+import { loadSettings } from "../lib/settings";
+import type { SheetCell } from "../lib/sheet";
+
+/** orez priamo z plného rozlíšenia videa – výstup má toľko pixelov, koľko ich je v rámiku */
+function centerCropCanvas(video: HTMLVideoElement, targetAR: number): HTMLCanvasElement | null {
+  const { sx, sy, sw, sh } = centralCrop(video.videoWidth, video.videoHeight, targetAR);
+  const outW = Math.round(sw);
+  const outH = Math.round(outW / targetAR);
+  const outCanvas = document.createElement("canvas");
+  outCanvas.width = outW;
+  outCanvas.height = outH;
+  const octx = outCanvas.getContext("2d");
+  if (!octx) return null;
+  octx.drawImage(video, sx, sy, sw, sh, 0, 0, outW, outH);
+  return outCanvas;
+}
 
 type LabelCameraProps = {
   title?: string;
   /** šírka / výška, napr. 80/80 = 1, 100/50 = 2 */
   aspectRatio: number;
-  onCapture: (file: File, previewUrl: string) => void;
+  /** etikety na hárku – rámik je celý hárok s vyznačenou mriežkou */
+  grid?: SheetCell[];
+  /** quality = skóre snímku pre kontrolu pred porovnaním */
+  onCapture: (file: File, previewUrl: string, quality: ImageQuality) => void;
 };
 
-export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCameraProps) {
+export default function LabelCamera({ title, aspectRatio, grid, onCapture }: LabelCameraProps) {
   const videoRef = useRef<HTMLVideoElement | null>(null);
 
   const [hasPermission, setHasPermission] = useState(false);
@@ -19,10 +63,40 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
   const [flash, setFlash] = useState(false);
   const [isFrozen, setIsFrozen] = useState(false);
   const [lastPreviewUrl, setLastPreviewUrl] = useState<string | null>(null);
+  const [shotQuality, setShotQuality] = useState<ImageQuality | null>(null);
 
   const shotRecently = lastShotAt !== null && Date.now() - lastShotAt < 2500;
 
-  // kamera
+  // automatické odfotenie a hľadanie okrajov – predvolené hodnoty z nastavení stanice
+  const [autoCapture, setAutoCapture] = useState(() => loadSettings().autoCapture);
+  const [edgesSetting] = useState(() => loadSettings().detectEdges);
+  // na hárku je etikiet viac – obrys jednej by orezal zvyšok
+  const detectEdges = edgesSetting && !grid;
+  const [cropMode, setCropMode] = useState<"edges" | "center" | null>(null);
+  const [{ holdMs, thresholds }] = useState(() => {
+    const s = loadSettings();
+    const thresholds: QualityThresholds = {
+      ...DEFAULT_THRESHOLDS,
+      minSharpness: Number(s.minSharpness) || DEFAULT_THRESHOLDS.minSharpness
+    };
+    return { holdMs: Number(s.autoCaptureHoldMs) || 800, thresholds };
+  });
+
+  // kamera – zariadenie, rozlíšenie a ovládanie sa pamätajú pre stanicu
+  const [prefs, setPrefs] = useState<CameraPrefs>(loadCameraPrefs);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [controls, setControls] = useState<TrackControls | null>(null);
+  const [actualSize, setActualSize] = useState<{ w: number; h: number } | null>(null);
+  const trackRef = useRef<MediaStreamTrack | null>(null);
+
+  const updatePrefs = (patch: Partial<CameraPrefs>) =>
+    setPrefs((p) => {
+      const next = { ...p, ...patch };
+      saveCameraPrefs(next);
+      return next;
+    });
+
+  const { deviceId, resolution } = prefs;
   useEffect(() => {
     let active = true;
     let stream: MediaStream | null = null;
@@ -34,22 +108,40 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
           return;
         }
 
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: "environment" },
-          audio: false,
-        });
+        const base: CameraPrefs = { ...DEFAULT_CAMERA_PREFS, deviceId, resolution };
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: videoConstraints(base),
+            audio: false,
+          });
+        } catch (e) {
+          // uložená kamera už nie je pripojená – skúsime predvolenú
+          if (!deviceId) throw e;
+          console.warn("Vybraná kamera nie je dostupná:", e);
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: videoConstraints({ ...base, deviceId: "" }),
+            audio: false,
+          });
+        }
 
         if (!active) {
           stream.getTracks().forEach((t) => t.stop());
           return;
         }
 
+        const track = stream.getVideoTracks()[0] ?? null;
+        trackRef.current = track;
+        setControls(track ? trackControls(track) : null);
+
         const v = videoRef.current;
         if (v) {
           v.srcObject = stream;
           await v.play().catch(() => {});
           setHasPermission(true);
+          setErrorMsg(null);
+          setActualSize({ w: v.videoWidth, h: v.videoHeight });
         }
+        setCameras(await listCameras().catch(() => []));
       } catch (e) {
         console.error(e);
         setErrorMsg("Nepodarilo sa spustiť kameru (povolenia / zariadenie).");
@@ -58,30 +150,21 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
 
     return () => {
       active = false;
+      trackRef.current = null;
       if (stream) {
         stream.getTracks().forEach((t) => t.stop());
       }
     };
-  }, []);
-
-  /** Centrálne orezanie podľa cieľového pomeru strán */
-  function centralCrop(
-    W: number,
-    H: number,
-    targetAR: number
-  ): { sx: number; sy: number; sw: number; sh: number } {
-    let sw = W * 0.7;
-    let sh = sw / targetAR;
-
-    if (sh > H * 0.7) {
-      sh = H * 0.7;
-      sw = sh * targetAR;
-    }
+  }, [deviceId, resolution]);
 
-    const sx = (W - sw) / 2;
-    const sy = (H - sh) / 2;
-    return { sx, sy, sw, sh };
-  }
+  // zoom / ostrenie / prisvetlenie na bežiacej stope
+  useEffect(() => {
+    const track = trackRef.current;
+    if (!track || !controls) return;
+    applyTrackPrefs(track, prefs, controls).catch((e) =>
+      console.warn("Nastavenie kamery sa nepodarilo použiť:", e)
+    );
+  }, [prefs, controls]);
 
   const handleCapture = async () => {
     const video = videoRef.current;
@@ -90,44 +173,23 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
 
     setIsProcessing(true);
     try {
-      const vw = video.videoWidth;
-      const vh = video.videoHeight;
-
-      const CAP_W = 1280;
-      const CAP_H = Math.round((vh / vw) * CAP_W);
-
-      const canvas = document.createElement("canvas");
-      canvas.width = CAP_W;
-      canvas.height = CAP_H;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
-
-      ctx.drawImage(video, 0, 0, CAP_W, CAP_H);
-
       const targetAR = aspectRatio > 0 ? aspectRatio : 1;
-      const { sx, sy, sw, sh } = centralCrop(CAP_W, CAP_H, targetAR);
-
-      const outW = 1000;
-      const outH = Math.round(outW / targetAR);
-      const outCanvas = document.createElement("canvas");
-      outCanvas.width = outW;
-      outCanvas.height = outH;
-      const octx = outCanvas.getContext("2d");
-      if (!octx) return;
-
-      octx.drawImage(canvas, sx, sy, sw, sh, 0, 0, outW, outH);
-
-      const blob = await new Promise<Blob | null>((resolve) =>
-        outCanvas.toBlob((b2) => resolve(b2), "image/jpeg", 0.92)
-      );
-      if (!blob) return;
-
-      const file = new File([blob], "label.jpg", { type: "image/jpeg" });
-      const previewUrl = outCanvas.toDataURL("image/jpeg", 0.8);
-
-      onCapture(file, previewUrl);
-
-      setLastPreviewUrl(previewUrl);
+      // nájdená etiketa → vyrovnaná perspektíva, inak orez podľa rámika
+      const straightened = detectEdges ? straightenFrame(video, targetAR) : null;
+      const outCanvas = straightened ?? centerCropCanvas(video, targetAR);
+      if (!outCanvas) return;
+      setCropMode(straightened ? "edges" : "center");
+
+      const shot = await captureCanvas(outCanvas, {
+        straightened: !!straightened,
+        minSharpness: thresholds.minSharpness
+      });
+      if (!shot) return;
+
+      onCapture(shot.file, shot.previewUrl, shot.quality);
+
+      setLastPreviewUrl(shot.previewUrl);
+      setShotQuality(shot.quality);
       setIsFrozen(true);
       setLastShotAt(Date.now());
       setFlash(true);
@@ -137,9 +199,24 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
     }
   };
 
+  const quality = useFrameQuality(videoRef, {
+    enabled: autoCapture && hasPermission && !isFrozen && !isProcessing,
+    aspectRatio,
+    holdMs,
+    thresholds,
+    onStable: handleCapture
+  });
+  const qualityOk = !!quality.metrics && !quality.issues.length;
+
+  const outline = useLabelOutline(videoRef, {
+    enabled: detectEdges && hasPermission && !isFrozen,
+    aspectRatio
+  });
+
   const handleRetake = () => {
     setIsFrozen(false);
     setLastPreviewUrl(null);
+    setShotQuality(null);
     setLastShotAt(null);
   };
 
@@ -168,15 +245,77 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
         {/* rámik – tvar podľa aspectRatio, vždy červený */}
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <div
-            className="border-2 border-red-400/90 rounded-sm"
+            className={`relative border-2 rounded-sm ${
+              !quality.metrics ? "border-red-400/90" : qualityOk ? "border-emerald-400" : "border-amber-400"
+            }`}
             style={{
               width: "70%",
               maxHeight: "70%",
               aspectRatio: `${aspectRatio > 0 ? aspectRatio : 1} / 1`,
             }}
-          />
+          >
+            {/* mriežka etikiet na hárku */}
+            {grid?.map((c) => (
+              <div
+                key={c.index}
+                className="absolute border border-dashed border-white/70"
+                style={{
+                  left: `${c.x * 100}%`,
+                  top: `${c.y * 100}%`,
+                  width: `${c.w * 100}%`,
+                  height: `${c.h * 100}%`
+                }}
+              />
+            ))}
+
+            {/* čas v pokoji do automatického odfotenia */}
+            {quality.progress > 0 && (
+              <div
+                className="absolute left-0 bottom-0 h-1 bg-emerald-400"
+                style={{ width: `${quality.progress * 100}%` }}
+              />
+            )}
+          </div>
         </div>
 
+        {/* nájdený obrys etikety – viewBox v pixeloch videa, meet = object-contain */}
+        {outline && (
+          <svg
+            viewBox={`0 0 ${outline.videoW} ${outline.videoH}`}
+            preserveAspectRatio="xMidYMid meet"
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          >
+            <polygon
+              points={outline.quad.map((p) => `${p.x},${p.y}`).join(" ")}
+              fill="rgba(52, 211, 153, 0.12)"
+              stroke="#34d399"
+              strokeWidth={Math.max(2, outline.videoW / 300)}
+            />
+          </svg>
+        )}
+
+        {/* ukazovateľ kvality obrazu */}
+        {quality.metrics && (
+          <div className="absolute top-2 left-2 z-10 rounded-lg bg-black/60 px-2 py-1 text-xs text-white pointer-events-none">
+            <div className="flex items-center gap-2">
+              <span>Ostrosť</span>
+              <div className="w-20 h-1.5 rounded bg-slate-600 overflow-hidden">
+                <div
+                  className={`h-full ${
+                    quality.issues.includes("blur") ? "bg-amber-400" : "bg-emerald-400"
+                  }`}
+                  style={{ width: `${sharpnessLevel(quality.metrics, thresholds) * 100}%` }}
+                />
+              </div>
+            </div>
+            <div className={qualityOk ? "text-emerald-300" : "text-amber-300"}>
+              {qualityOk
+                ? "stabilné – držím…"
+                : quality.issues.map((i) => QUALITY_ISSUE_LABELS[i]).join(", ")}
+            </div>
+          </div>
+        )}
+
         {/* náhľad po odfotení */}
         {isFrozen && lastPreviewUrl && (
           <img
@@ -208,18 +347,48 @@ export default function LabelCamera({ title, aspectRatio, onCapture }: LabelCame
         >
           {buttonLabel}
         </button>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={autoCapture}
+            onChange={(e) => setAutoCapture(e.target.checked)}
+          />
+          Automaticky
+        </label>
       </div>
 
+      <CameraControls
+        prefs={prefs}
+        onChange={updatePrefs}
+        cameras={cameras}
+        controls={controls}
+        actualSize={actualSize}
+      />
+
       <p className="mt-2 text-xs text-slate-400">
-        Zarovnaj etiketu do červeného rámika a keď je obraz ostrý, stlač „Odfotiť“.
-        My urobíme orez podľa rámika a pošleme snímok na porovnanie.
+        {grid
+          ? "Zarovnaj hárok tak, aby etikety sedeli v mriežke rámika, a keď je obraz ostrý, stlač „Odfotiť“."
+          : "Zarovnaj etiketu do červeného rámika a keď je obraz ostrý, stlač „Odfotiť“."}{" "}
+        {detectEdges
+          ? "Okraje etikety (zelený obrys) nájdeme a vyrovnáme, inak orežeme podľa rámika."
+          : "My urobíme orez podľa rámika a pošleme snímok na porovnanie."}
+        {autoCapture && " V automatickom režime sa odfotí sám, keď je etiketa ostrá a v pokoji."}
       </p>
 
+      {isFrozen && shotQuality && <ImageQualityCard quality={shotQuality} />}
+
       {shotRecently && (
         <p className="mt-1 text-xs text-emerald-300">
           Snímok uložený – môžeš pokračovať na porovnanie.
         </p>
       )}
+      {isFrozen && cropMode && detectEdges && (
+        <p className="mt-1 text-xs text-slate-400">
+          {cropMode === "edges"
+            ? "Etiketa nájdená – perspektíva vyrovnaná podľa jej okrajov."
+            : "Okraje etikety sa nenašli – použitý orez podľa rámika."}
+        </p>
+      )}
     </div>
   );
 }
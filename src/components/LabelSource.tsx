@@ -0,0 +1,92 @@
+// src/components/LabelSource.tsx
+import { useState } from "react";
+import LabelCamera from "./LabelCamera";
+import UploadBox from "./UploadBox";
+import { imageFromTransfer, readAsDataUrl } from "../lib/crop";
+import type { ImageQuality } from "../lib/imageQuality";
+import type { SheetCell } from "../lib/sheet";
+
+type LabelSourceProps = {
+  title?: string;
+  /** šírka / výška etikety */
+  aspectRatio: number;
+  /** mriežka etikiet na hárku (len kamera) */
+  grid?: SheetCell[];
+  onCapture: (file: File, previewUrl: string, quality: ImageQuality) => void;
+};
+
+type SourceMode = "camera" | "file";
+
+const hasCamera = () => !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Snímok etikety z kamery alebo zo súboru (výber, drag & drop, Ctrl+V).
+ * Pretiahnutý / vložený obrázok prepne na súbor aj z režimu kamery.
+ */
+export default function LabelSource({ title, aspectRatio, grid, onCapture }: LabelSourceProps) {
+  const [mode, setMode] = useState<SourceMode>(() => (hasCamera() ? "camera" : "file"));
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  async function takeFile(file: File | null) {
+    if (!file) return;
+    try {
+      setSourceUrl(await readAsDataUrl(file));
+      setMode("file");
+    } catch (e) {
+      alert("Súbor sa nepodarilo načítať: " + (e instanceof Error ? e.message : String(e)));
+    }
+  }
+
+  const tab = (m: SourceMode, label: string) => (
+    <button
+      type="button"
+      onClick={() => setMode(m)}
+      className={`px-3 py-1 rounded-md ${
+        mode === m ? "bg-emerald-600 text-white" : "text-slate-300 hover:bg-slate-700"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragOver(false);
+        takeFile(imageFromTransfer(e.dataTransfer));
+      }}
+      onPaste={(e) => {
+        const f = imageFromTransfer(e.clipboardData);
+        if (!f) return;
+        e.preventDefault();
+        takeFile(f);
+      }}
+      className={`rounded-2xl ${dragOver ? "ring-2 ring-emerald-400" : ""}`}
+    >
+      <div className="mb-2 inline-flex gap-1 rounded-lg bg-slate-800 border border-slate-700 p-1 text-xs">
+        {tab("camera", "Kamera")}
+        {tab("file", "Súbor")}
+      </div>
+
+      {mode === "camera" ? (
+        <LabelCamera title={title} aspectRatio={aspectRatio} grid={grid} onCapture={onCapture} />
+      ) : (
+        <UploadBox
+          title={title}
+          aspectRatio={aspectRatio}
+          sourceUrl={sourceUrl}
+          onFile={takeFile}
+          onCapture={onCapture}
+        />
+      )}
+    </div>
+  );
+}
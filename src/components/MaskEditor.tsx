@@ -0,0 +1,159 @@
+// src/components/MaskEditor.tsx
+import { useRef, useState } from "react";
+import { MIN_ZONE_MM, zoneFromCorners, type LabelSizeMm, type MaskZone } from "../lib/masks";
+
+type MaskEditorProps = {
+  imageUrl: string;
+  size: LabelSizeMm;
+  masks: MaskZone[];
+  onChange: (masks: MaskZone[]) => void;
+  /** bez oprávnenia len zobrazí zóny */
+  readOnly?: boolean;
+  /** uloženie k mastru v knižnici – chýba, ak master nie je z knižnice */
+  onSave?: () => void;
+  saving?: boolean;
+  dirty?: boolean;
+};
+
+type Pt = { x: number; y: number };
+
+/** Kreslenie obdĺžnikových zón na mastri, ktoré sa pri porovnaní ignorujú. */
+export default function MaskEditor({
+  imageUrl,
+  size,
+  masks,
+  onChange,
+  readOnly,
+  onSave,
+  saving,
+  dirty
+}: MaskEditorProps) {
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const [drag, setDrag] = useState<{ a: Pt; b: Pt } | null>(null);
+  const ready = size.widthMm > 0 && size.heightMm > 0;
+
+  // bod v mm z polohy ukazovateľa
+  function toMm(e: React.PointerEvent): Pt {
+    const r = frameRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - r.left) / r.width) * size.widthMm,
+      y: ((e.clientY - r.top) / r.height) * size.heightMm
+    };
+  }
+
+  function onDown(e: React.PointerEvent) {
+    if (readOnly || !ready || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const p = toMm(e);
+    setDrag({ a: p, b: p });
+  }
+
+  function onUp() {
+    if (!drag) return;
+    const z = zoneFromCorners(drag.a, drag.b, size);
+    setDrag(null);
+    if (z.w < MIN_ZONE_MM || z.h < MIN_ZONE_MM) return;
+    onChange([...masks, { id: crypto.randomUUID(), ...z }]);
+  }
+
+  const pct = (z: Omit<MaskZone, "id">) => ({
+    left: `${(z.x / size.widthMm) * 100}%`,
+    top: `${(z.y / size.heightMm) * 100}%`,
+    width: `${(z.w / size.widthMm) * 100}%`,
+    height: `${(z.h / size.heightMm) * 100}%`
+  });
+
+  const preview = drag ? zoneFromCorners(drag.a, drag.b, size) : null;
+
+  return (
+    <details className="mt-3 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm">
+      <summary className="cursor-pointer select-none font-semibold">
+        Maskované zóny ({masks.length})
+      </summary>
+
+      {!ready ? (
+        <p className="mt-3 text-slate-400">Najprv zadaj rozmer etikety v mm.</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {!readOnly && (
+            <p className="text-xs text-slate-400">
+              Ťahaním na mastri označ oblasť s premenlivou tlačou (šarža, dátum, sériové číslo).
+              Rozdiely v nej sa pri porovnaní ignorujú.
+            </p>
+          )}
+          <p className="text-xs text-amber-300">
+            Textové rozdiely maska skryje len vtedy, keď backend pošle polohu riadku. Rozdiely bez polohy
+            (zarovnané v prehliadači, starší backend, text mastra z PDF bez polohy) ostanú vo výsledku a treba
+            ich posúdiť ručne.
+          </p>
+          <div
+            ref={frameRef}
+            onPointerDown={onDown}
+            onPointerMove={(e) => drag && setDrag({ a: drag.a, b: toMm(e) })}
+            onPointerUp={onUp}
+            onPointerCancel={() => setDrag(null)}
+            className={`relative w-full overflow-hidden rounded-xl bg-black select-none ${
+              readOnly ? "" : "cursor-crosshair touch-none"
+            }`}
+            style={{ aspectRatio: `${size.widthMm} / ${size.heightMm}` }}
+          >
+            <img
+              src={imageUrl}
+              alt="Master"
+              draggable={false}
+              className="absolute inset-0 w-full h-full object-fill pointer-events-none"
+            />
+            {masks.map((m, i) => (
+              <div
+                key={m.id}
+                className="absolute border-2 border-fuchsia-400 bg-fuchsia-500/30 pointer-events-none"
+                style={pct(m)}
+              >
+                <span className="absolute -top-0.5 left-0.5 text-[10px] font-bold text-white drop-shadow">
+                  {i + 1}
+                </span>
+              </div>
+            ))}
+            {preview && (
+              <div
+                className="absolute border-2 border-dashed border-fuchsia-300 bg-fuchsia-400/20 pointer-events-none"
+                style={pct(preview)}
+              />
+            )}
+          </div>
+
+          {masks.length > 0 && (
+            <ul className="space-y-1">
+              {masks.map((m, i) => (
+                <li key={m.id} className="flex items-center gap-2">
+                  <span className="w-5 text-slate-400">{i + 1}.</span>
+                  <span className="tabular-nums text-slate-300">
+                    {m.x}; {m.y} mm · {m.w}×{m.h} mm
+                  </span>
+                  {!readOnly && (
+                    <button
+                      onClick={() => onChange(masks.filter((x) => x.id !== m.id))}
+                      className="ml-auto text-red-300 hover:text-red-200"
+                    >
+                      Odstrániť
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!readOnly && onSave && (
+            <button
+              onClick={onSave}
+              disabled={saving || !dirty}
+              className="bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-lg"
+            >
+              {saving ? "Ukladám…" : "Uložiť masky k mastru"}
+            </button>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
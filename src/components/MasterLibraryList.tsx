@@ -0,0 +1,93 @@
+// src/components/MasterLibraryList.tsx
+import { useMemo, useState } from "react";
+import type { MasterRecord } from "../lib/masterLibrary";
+
+type MasterLibraryListProps = {
+  masters: MasterRecord[];
+  selectedId?: string | null;
+  onPick?: (m: MasterRecord) => void;
+  onDelete?: (m: MasterRecord) => void;
+  /** zobrazí stav synchronizácie s BE */
+  showSync?: boolean;
+};
+
+/** Vyhľadávateľný zoznam mastrov (číslo produktu, poznámka, rozmery). */
+export default function MasterLibraryList({
+  masters,
+  selectedId,
+  onPick,
+  onDelete,
+  showSync
+}: MasterLibraryListProps) {
+  const [query, setQuery] = useState("");
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return masters;
+    return masters.filter((m) =>
+      `${m.productNumber} ${m.notes} ${m.widthMm}x${m.heightMm}`.toLowerCase().includes(q)
+    );
+  }, [masters, query]);
+
+  return (
+    <div className="space-y-2">
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Hľadať číslo produktu / poznámku…"
+        className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm"
+      />
+
+      {filtered.length ? (
+        <ul className="space-y-2 max-h-72 overflow-auto pr-1">
+          {filtered.map((m) => (
+            <li
+              key={m.id}
+              className={`flex items-center gap-3 rounded-lg p-2 ${
+                m.id === selectedId ? "bg-sky-900/60 border border-sky-600" : "bg-slate-900/50"
+              }`}
+            >
+              <img
+                src={m.previewUrl}
+                alt={m.productNumber}
+                className="w-14 h-14 object-contain rounded bg-black"
+              />
+              <div className="flex-1 min-w-0 text-sm">
+                <div className="font-semibold">{m.productNumber || "-"}</div>
+                <div className="text-slate-400">
+                  {m.widthMm}×{m.heightMm} mm · {new Date(m.updatedAt).toLocaleDateString()}
+                  {showSync && (
+                    <span className={m.syncedAt ? "text-green-400" : "text-amber-300"}>
+                      {m.syncedAt ? " · synchronizovaný" : " · len lokálne"}
+                    </span>
+                  )}
+                </div>
+                {m.notes && <div className="text-slate-300 truncate">{m.notes}</div>}
+              </div>
+              {onPick && (
+                <button
+                  onClick={() => onPick(m)}
+                  className="px-3 py-1 rounded-lg bg-sky-600 hover:bg-sky-700 text-white text-sm"
+                >
+                  Použiť
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(m)}
+                  className="px-3 py-1 rounded-lg text-red-300 hover:text-red-200 text-sm"
+                >
+                  Zmazať
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-400">
+          {masters.length ? "Nič sa nenašlo." : "Knižnica je prázdna."}
+        </p>
+      )}
+    </div>
+  );
+}
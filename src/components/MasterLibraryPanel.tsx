@@ -0,0 +1,97 @@
+// src/components/MasterLibraryPanel.tsx
+import { useState } from "react";
+import MasterLibraryList from "./MasterLibraryList";
+import { saveMaster, type MasterRecord } from "../lib/masterLibrary";
+import type { MaskZone } from "../lib/masks";
+
+type MasterLibraryPanelProps = {
+  masters: MasterRecord[];
+  selectedId?: string | null;
+  onPick: (m: MasterRecord) => void;
+  onSaved: () => void;
+  /** aktuálny master z kamery – null, ak nie je čo uložiť */
+  captured: { file: File; previewUrl: string } | null;
+  productNumber: string;
+  widthMm: number;
+  heightMm: number;
+  createdBy: string;
+  canSave: boolean;
+  /** maskované zóny uložené spolu s mastrom */
+  masks: MaskZone[];
+};
+
+/** Výber mastra z knižnice a uloženie práve odfoteného mastra. */
+export default function MasterLibraryPanel({
+  masters,
+  selectedId,
+  onPick,
+  onSaved,
+  captured,
+  productNumber,
+  widthMm,
+  heightMm,
+  createdBy,
+  canSave,
+  masks
+}: MasterLibraryPanelProps) {
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const saveDisabled = busy || !captured || !productNumber.trim() || !widthMm || !heightMm;
+
+  async function handleSave() {
+    if (!captured) return;
+    setBusy(true);
+    try {
+      await saveMaster({
+        productNumber,
+        widthMm,
+        heightMm,
+        notes: notes.trim(),
+        image: captured.file,
+        previewUrl: captured.previewUrl,
+        createdBy,
+        masks
+      });
+      setNotes("");
+      onSaved();
+    } catch (e) {
+      alert("Uloženie mastra zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="mt-3 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm">
+      <summary className="cursor-pointer select-none font-semibold">
+        Knižnica mastrov ({masters.length})
+      </summary>
+
+      <div className="mt-3 space-y-4">
+        {canSave && (
+          <div className="space-y-2">
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Poznámka k mastru"
+              className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700"
+            />
+            <button
+              onClick={handleSave}
+              disabled={saveDisabled}
+              className="bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-lg"
+            >
+              {busy ? "Ukladám…" : "Uložiť master do knižnice"}
+            </button>
+            {!productNumber.trim() && (
+              <p className="text-xs text-slate-400">Na uloženie treba zadať číslo produktu.</p>
+            )}
+          </div>
+        )}
+
+        <MasterLibraryList masters={masters} selectedId={selectedId} onPick={onPick} />
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,108 @@
+// src/components/OcrDiffView.tsx
+import { useMemo } from "react";
+import {
+  DIFF_KIND_LABELS,
+  diffChars,
+  diffKind,
+  diffLineLabel,
+  type CharSeg
+} from "../lib/textDiff";
+import type { OcrDiff } from "../lib/types";
+
+const KIND_CLASS: Record<NonNullable<OcrDiff["kind"]>, string> = {
+  change: "bg-amber-700/60 text-amber-100",
+  delete: "bg-red-800/70 text-red-100",
+  insert: "bg-sky-800/70 text-sky-100"
+};
+
+/** Zobrazí znaky tak, aby boli vidieť aj medzery v zvýraznenom úseku. */
+const visible = (s: string) => s.replace(/ /g, "␣");
+
+function Segments({ segs, side }: { segs: CharSeg[]; side: "master" | "scan" }) {
+  // master: equal + del, scan: equal + ins
+  const skip = side === "master" ? "ins" : "del";
+  return (
+    <span className="font-mono break-all">
+      {segs
+        .filter((s) => s.kind !== skip)
+        .map((s, i) =>
+          s.kind === "equal" ? (
+            <span key={i}>{s.text}</span>
+          ) : (
+            <mark
+              key={i}
+              className={`rounded-sm px-px ${
+                s.kind === "del" ? "bg-red-500/70 text-white" : "bg-amber-400 text-slate-900"
+              }`}
+            >
+              {visible(s.text)}
+            </mark>
+          )
+        )}
+    </span>
+  );
+}
+
+const Empty = () => <em className="text-slate-500">∅</em>;
+
+/** Zoznam OCR rozdielov so zvýraznenými odlišnými znakmi. */
+export default function OcrDiffView({ diffs }: { diffs: OcrDiff[] }) {
+  const rows = useMemo(
+    () =>
+      diffs.map((d) => {
+        const kind = diffKind(d);
+        return { d, kind, segs: kind === "change" ? diffChars(d.master, d.scan) : null };
+      }),
+    [diffs]
+  );
+
+  return (
+    <ul className="space-y-1 max-h-64 overflow-auto pr-1">
+      {rows.map(({ d, kind, segs }, i) => (
+        <li
+          key={i}
+          className={`rounded p-2 text-slate-200 ${
+            d.variable?.valid ? "bg-slate-900/30 opacity-80" : "bg-slate-900/50"
+          }`}
+        >
+          <div className="flex items-center gap-2 text-xs text-slate-400 mb-1">
+            <span>{diffLineLabel(d)}</span>
+            <span className={`px-1.5 py-0.5 rounded ${KIND_CLASS[kind]}`}>
+              {DIFF_KIND_LABELS[kind]}
+            </span>
+            {d.variable?.valid && (
+              <span className="px-1.5 py-0.5 rounded bg-green-700/60 text-green-100">
+                premenlivé – platné ({d.variable.rule})
+              </span>
+            )}
+          </div>
+          {d.variable && !d.variable.valid && (
+            <div className="text-xs text-red-300 mb-1">
+              Pravidlo „{d.variable.rule}“: {d.variable.reason}
+            </div>
+          )}
+          <div>
+            <span className="text-slate-400">M:</span>{" "}
+            {segs ? (
+              <Segments segs={segs} side="master" />
+            ) : d.master ? (
+              <span className="font-mono break-all text-red-300">{d.master}</span>
+            ) : (
+              <Empty />
+            )}
+          </div>
+          <div>
+            <span className="text-slate-400">S:</span>{" "}
+            {segs ? (
+              <Segments segs={segs} side="scan" />
+            ) : d.scan ? (
+              <span className="font-mono break-all text-amber-300">{d.scan}</span>
+            ) : (
+              <Empty />
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,87 @@
+// src/components/Overlay.tsx
+import { useEffect, useRef, useState } from "react";
+import { drawBoxes } from "../lib/labelHelpers";
+import type { Box } from "../lib/types";
+import { FULL_VIEW, viewportRect, type Viewport } from "../lib/viewport";
+
+type OverlayProps = {
+  src: string;
+  /** rozmer, v ktorom sú súradnice boxov; obrázok sa roztiahne na tento pomer strán */
+  w: number;
+  h: number;
+  boxes: Box[];
+  viewport?: Viewport;
+  /** index zvýrazneného boxu */
+  selected?: number | null;
+};
+
+// ===== overlay canvas pre výsledok z BE =====
+export default function Overlay({
+  src,
+  w,
+  h,
+  boxes,
+  viewport = FULL_VIEW,
+  selected = null
+}: OverlayProps) {
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [size, setSize] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const im = new Image();
+    let cancelled = false;
+    let recalc = () => {};
+
+    im.onload = () => {
+      if (cancelled) return;
+      setImg(im);
+      recalc = () => {
+        const cw = containerRef.current?.clientWidth || im.width;
+        const ratio =
+          (h || im.height) / (w || im.width || 1);
+        const newW = Math.round(cw);
+        const newH = Math.round(cw * ratio);
+        setSize({ w: newW, h: newH });
+      };
+      recalc();
+      window.addEventListener("resize", recalc);
+    };
+    im.src = src;
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("resize", recalc);
+    };
+  }, [src, w, h]);
+
+  useEffect(() => {
+    const c = ref.current;
+    if (!c || !img) return;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
+    const dpr = Math.max(1, window.devicePixelRatio || 1);
+    c.width = Math.round(size.w * dpr);
+    c.height = Math.round(size.h * dpr);
+    c.style.width = `${size.w}px`;
+    c.style.height = `${size.h}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const r = viewportRect(viewport, size.w, size.h);
+    ctx.clearRect(0, 0, size.w, size.h);
+    ctx.drawImage(img, r.x, r.y, r.w, r.h);
+    const sx = r.w / (w || img.width || 1);
+    const sy = r.h / (h || img.height || 1);
+    drawBoxes(ctx, boxes, sx, sy, r.x, r.y, { numbered: true, selected });
+  }, [img, size, boxes, w, h, viewport, selected]);
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <canvas
+        ref={ref}
+        className="block rounded-xl border border-slate-200 bg-white"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/PendingQueue.tsx
+import { removeQueued, retryQueued, type QueuedCompare } from "../lib/compareQueue";
+
+type PendingQueueProps = {
+  entries: QueuedCompare[];
+};
+
+const STATUS_LABELS: Record<QueuedCompare["status"], string> = {
+  pending: "čaká na sieť",
+  sending: "odosiela sa…",
+  done: "ukladá sa do histórie…",
+  failed: "zlyhalo"
+};
+
+export default function PendingQueue({ entries }: PendingQueueProps) {
+  if (!entries.length) return null;
+
+  return (
+    <div className="mt-6 rounded-2xl bg-slate-800/60 border border-amber-700/60 p-4 text-sm print:hidden">
+      <div className="font-semibold mb-2">Odložené inšpekcie ({entries.length})</div>
+      <ul className="space-y-2">
+        {entries.map((e) => (
+          <li
+            key={e.id}
+            className="flex flex-wrap items-center gap-3 bg-slate-900/50 rounded px-3 py-2"
+          >
+            <span className="text-slate-400">{new Date(e.createdAt).toLocaleString()}</span>
+            <span>
+              {e.meta.orderNumber || "-"} / {e.meta.productNumber || "-"}
+            </span>
+            <span
+              className={
+                e.status === "done"
+                  ? "text-green-400"
+                  : e.status === "failed"
+                  ? "text-red-400"
+                  : "text-amber-300"
+              }
+              title={e.lastError}
+            >
+              {STATUS_LABELS[e.status]}
+              {e.status === "failed" && e.lastError ? `: ${e.lastError}` : ""}
+            </span>
+
+            <div className="ml-auto flex gap-2">
+              {e.status === "failed" && (
+                <button
+                  onClick={() => retryQueued(e.id)}
+                  className="px-3 py-1 rounded-lg bg-slate-700 hover:bg-slate-600 text-white"
+                >
+                  Skúsiť znova
+                </button>
+              )}
+              {(e.status === "pending" || e.status === "failed") && (
+                <button
+                  onClick={() => {
+                    if (confirm("Odstrániť odloženú inšpekciu?")) removeQueued(e.id);
+                  }}
+                  className="px-3 py-1 rounded-lg text-slate-300 hover:text-white"
+                >
+                  Odstrániť
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
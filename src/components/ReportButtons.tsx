@@ -0,0 +1,68 @@
+// src/components/ReportButtons.tsx
+import { useState } from "react";
+import type { InspectionRecord } from "../lib/inspectionHistory";
+import { REPORT_UPLOAD_URL, attachPdfReport, downloadPdfReport } from "../lib/pdfReport";
+import { downloadReport } from "../lib/report";
+
+type ReportButtonsProps = {
+  /** záznam sa skladá až pri kliknutí (aktuálne meta z formulára) */
+  getRecord: () => InspectionRecord | null;
+};
+
+/** Uložiť JSON / PDF protokol / priložiť k zákazke / tlačiť */
+export default function ReportButtons({ getRecord }: ReportButtonsProps) {
+  const [busy, setBusy] = useState<"pdf" | "attach" | null>(null);
+
+  async function run(kind: "pdf" | "attach") {
+    const rec = getRecord();
+    if (!rec) return;
+    setBusy(kind);
+    try {
+      if (kind === "pdf") await downloadPdfReport(rec);
+      else {
+        await attachPdfReport(rec);
+        alert(`Protokol bol priložený k zákazke ${rec.orderNumber || "-"}.`);
+      }
+    } catch (e) {
+      alert("Vytvorenie protokolu zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => {
+          const rec = getRecord();
+          if (rec) downloadReport(rec);
+        }}
+        className="bg-sky-600 hover:bg-sky-700 text-white font-semibold px-5 py-3 rounded-xl"
+      >
+        Uložiť
+      </button>
+      <button
+        onClick={() => run("pdf")}
+        disabled={!!busy}
+        className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white font-semibold px-5 py-3 rounded-xl"
+      >
+        {busy === "pdf" ? "Generujem…" : "PDF"}
+      </button>
+      {REPORT_UPLOAD_URL && (
+        <button
+          onClick={() => run("attach")}
+          disabled={!!busy}
+          className="bg-teal-700 hover:bg-teal-800 disabled:opacity-50 text-white font-semibold px-5 py-3 rounded-xl"
+        >
+          {busy === "attach" ? "Prikladám…" : "Priložiť k zákazke"}
+        </button>
+      )}
+      <button
+        onClick={() => window.print()}
+        className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold px-5 py-3 rounded-xl"
+      >
+        Tlačiť
+      </button>
+    </>
+  );
+}
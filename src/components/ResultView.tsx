@@ -0,0 +1,249 @@
+// src/components/ResultView.tsx
+import type { ReactNode } from "react";
+import ComparisonViewer from "./ComparisonViewer";
+import DefectReview from "./DefectReview";
+import Gs1Table from "./Gs1Table";
+import OcrDiffView from "./OcrDiffView";
+import { BC_SOURCE_LABELS } from "../lib/clientBarcodes";
+import { formatBarcodeValue } from "../lib/gs1";
+import { truncate } from "../lib/labelHelpers";
+import type { DefectDecision, DefectDecisions } from "../lib/defects";
+import { barcodeCheckLines, type BcCheckLine, type Summary } from "../lib/summary";
+import type { LabelView } from "../lib/types";
+
+export type InspectionMeta = {
+  operator: string;
+  orderNumber: string;
+  productNumber: string;
+};
+
+type ResultViewProps = {
+  view: LabelView;
+  summary: Summary;
+  meta: InspectionMeta;
+  generatedAt: Date | null;
+  /** náhľad mastra pre porovnávací prehliadač */
+  masterUrl?: string;
+  decisions?: DefectDecisions;
+  /** zmena rozhodnutia k nálezu – bez neho len na čítanie */
+  onDecide?: (key: string, decision: DefectDecision | null) => void;
+  /** tlačidlá pod náhľadom (uložiť / tlačiť / …) */
+  actions?: ReactNode;
+};
+
+const CHECK_CLASS: Record<BcCheckLine["status"], string> = {
+  OK: "text-green-400",
+  Chyba: "text-red-400",
+  Výnimka: "text-sky-300",
+  "Bez kódu": "text-slate-300",
+  "–": "text-slate-300"
+};
+
+/** Výsledok porovnania – porovnanie master / scan s boxami a vyhodnotenie Text / Čiarový kód / Grafika. */
+export default function ResultView({
+  view,
+  summary,
+  meta,
+  generatedAt,
+  masterUrl,
+  decisions,
+  onDecide,
+  actions
+}: ResultViewProps) {
+  return (
+    <div className="mt-8 grid md:grid-cols-[1.2fr_0.8fr] gap-8 items-start">
+      {/* ĽAVÝ STĹPEC: náhľad + tlačidlá na SPODKU */}
+      <div>
+        <div className="rounded-2xl bg-white p-4 text-slate-900 border">
+          <ComparisonViewer view={view} masterUrl={masterUrl} decisions={decisions} />
+        </div>
+
+        <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="text-sm text-slate-300">
+            {generatedAt
+              ? `Report: ${generatedAt.toLocaleString()}`
+              : null}
+          </div>
+          <div className="flex flex-wrap gap-3 print:hidden">{actions}</div>
+        </div>
+      </div>
+
+      {/* PRAVÝ STĹPEC: vyhodnotenie */}
+      <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5 space-y-5">
+        <h2 className="text-xl font-bold">Vyhodnotenie</h2>
+
+        {/* Meta info pre tlač */}
+        <div className="text-sm text-slate-300 hidden print:block">
+          <div>
+            <b>Operátor:</b> {meta.operator || "-"}
+          </div>
+          <div>
+            <b>Číslo zákazky:</b> {meta.orderNumber || "-"}
+          </div>
+          <div>
+            <b>Číslo produktu:</b> {meta.productNumber || "-"}
+          </div>
+          <div>
+            <b>Dátum/čas:</b>{" "}
+            {generatedAt ? generatedAt.toLocaleString() : "-"}
+          </div>
+        </div>
+
+        {/* TEXT (OCR) */}
+        <div>
+          <div className="flex items-center gap-2">
+            <b>Text:</b>
+            {summary.text === "OK" ? (
+              <span className="text-green-400">OK</span>
+            ) : summary.text === "Chyba" ? (
+              <span className="text-red-400">Chyba</span>
+            ) : (
+              <span className="text-slate-300">–</span>
+            )}
+          </div>
+
+          {(view.ocrMaster || view.ocrScan) && (
+            <div className="text-sm mt-2 space-y-2">
+              <div>
+                <span className="px-2 py-0.5 rounded bg-slate-700 text-slate-100 font-semibold mr-2">
+                  Master
+                </span>
+                {view.masterTextSource === "artwork" && (
+                  <span className="px-2 py-0.5 rounded bg-violet-700 text-white text-xs mr-2">
+                    text z PDF
+                  </span>
+                )}
+                <span className="text-slate-300">
+                  {truncate(view.ocrMaster, 200) || "-"}
+                </span>
+              </div>
+              <div>
+                <span className="px-2 py-0.5 rounded bg-emerald-700 text-white font-semibold mr-2">
+                  Scan
+                </span>
+                <span className="text-slate-300">
+                  {truncate(view.ocrScan, 200) || "-"}
+                </span>
+              </div>
+
+              {!!(view.ocrDiffs && view.ocrDiffs.length) && (
+                <div className="mt-3">
+                  <div className="text-slate-400 mb-1">
+                    Rozdiely ({view.ocrDiffs.length}):
+                  </div>
+                  <OcrDiffView diffs={view.ocrDiffs} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* BARCODE */}
+        <div>
+          <div className="flex items-center gap-2">
+            <b>Čiarový kód:</b>
+            {summary.bc === "OK" ? (
+              <span className="text-green-400">OK</span>
+            ) : summary.bc === "Chyba" ? (
+              <span className="text-red-400">Chyba</span>
+            ) : (
+              <span className="text-slate-300">Bez kódu</span>
+            )}
+            {summary.bcMismatch && (
+              <span className="ml-2 text-red-300 text-sm">
+                (nezhoda Master vs Scan)
+              </span>
+            )}
+          </div>
+
+          <ul className="text-sm mt-1 space-y-0.5">
+            {barcodeCheckLines(view, summary).map((c) => (
+              <li key={c.label} className="text-slate-400">
+                {c.label}:{" "}
+                <span className={CHECK_CLASS[c.status]}>{c.status}</span>
+                {c.detail && <span className="ml-1">({c.detail})</span>}
+              </li>
+            ))}
+          </ul>
+
+          {!!(view.barcode && view.barcode.length) && (
+            <ul className="text-sm text-slate-300 mt-2 space-y-1">
+              {view.barcode!.map((b, i) => (
+                <li key={i}>
+                  {b.side ? (
+                    <span
+                      className={`px-2 py-0.5 rounded mr-2 ${
+                        b.side === "master"
+                          ? "bg-slate-700"
+                          : "bg-emerald-700"
+                      } text-white`}
+                    >
+                      {b.side}
+                    </span>
+                  ) : null}
+                  {b.symbology}:{" "}
+                  <span className="font-mono break-all">{formatBarcodeValue(b)}</span>{" "}
+                  {b.valid ? (
+                    <span className="text-green-400">(OK)</span>
+                  ) : (
+                    <span className="text-red-400">
+                      (CHYBA{b.reason ? `: ${b.reason}` : ""})
+                    </span>
+                  )}
+                  {b.source && (
+                    <span className="ml-2 text-xs text-slate-400">
+                      [{BC_SOURCE_LABELS[b.source]}]
+                    </span>
+                  )}
+                  {b.localErrors && !b.localErrors.length && (
+                    <span className="ml-2 text-xs text-green-400">✓ overené lokálne</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {!!view.barcode?.length && <Gs1Table items={view.barcode} />}
+          {!!view.barcodeCheck?.disagreements.length && (
+            <ul className="text-sm text-amber-300 mt-2 space-y-1">
+              {view.barcodeCheck.disagreements.map((d, i) => (
+                <li key={i}>⚠ {d}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* GRAFIKA */}
+        <div>
+          <div className="flex items-center gap-2">
+            <b>Grafika:</b>
+            {summary.gfx === "OK" ? (
+              <span className="text-green-400">OK</span>
+            ) : summary.gfx === "Chyba" ? (
+              <span className="text-red-400">Chyba</span>
+            ) : (
+              <span className="text-slate-300">–</span>
+            )}
+            {view.boxes?.length ? (
+              <span className="text-sm text-slate-300">
+                Nájdené rozdiely: {view.boxes.length}
+              </span>
+            ) : null}
+          </div>
+          {view.masked && (
+            <div className="text-sm text-fuchsia-300 mt-1">
+              Ignorované v maskovaných zónach: {view.masked.boxes.length} grafických,{" "}
+              {view.masked.ocrDiffs.length} textových
+            </div>
+          )}
+          {!!view.maskSkipped && (
+            <div className="text-sm text-amber-300 mt-1">
+              Masky sa nedali použiť na {view.maskSkipped} nálezov bez polohy – posúď ich ručne.
+            </div>
+          )}
+        </div>
+
+        <DefectReview view={view} decisions={decisions} onDecide={onDecide} />
+      </div>
+    </div>
+  );
+}
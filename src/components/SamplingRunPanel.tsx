@@ -0,0 +1,286 @@
+// src/components/SamplingRunPanel.tsx
+import { useState } from "react";
+import type { InspectionRecord } from "../lib/inspectionHistory";
+import { downloadRunPdfReport } from "../lib/pdfReport";
+import { downloadRunReport } from "../lib/report";
+import {
+  AQLS,
+  INSPECTION_LEVELS,
+  RUN_STATUS_LABELS,
+  aqlPlan,
+  formatAql,
+  planLabel,
+  runTally,
+  runVerdict,
+  type InspectionLevel,
+  type RunStatus,
+  type SamplingPlan,
+  type SamplingRun
+} from "../lib/sampling";
+import type { Verdict } from "../lib/summary";
+
+type SamplingRunPanelProps = {
+  run: SamplingRun | null;
+  samples: InspectionRecord[];
+  /** vzorky behu čakajúce v offline fronte */
+  queued: number;
+  /** otvorená vzorka */
+  selectedId: string | null;
+  /** beh sa dá začať až s nastaveným mastrom */
+  canStart: boolean;
+  onStart: (plan: SamplingPlan | null) => void;
+  onClose: () => void;
+  onDismiss: () => void;
+  onOpen: (rec: InspectionRecord) => void;
+};
+
+const INPUT = "block mt-1 w-full px-2 py-1 rounded bg-slate-800 border border-slate-700";
+
+const STATUS_CLASS: Record<RunStatus, string> = {
+  pending: "bg-amber-600",
+  accepted: "bg-emerald-700",
+  rejected: "bg-red-700"
+};
+
+const VERDICT_CLASS: Record<Verdict, string> = {
+  OK: "text-emerald-300",
+  Chyba: "text-red-300",
+  "Bez kódu": "text-slate-400",
+  "–": "text-slate-500"
+};
+
+/** Beh vzorkovania: pevný master, snímok za snímkom, priebežný súčet a verdikt podľa AQL. */
+export default function SamplingRunPanel({
+  run,
+  samples,
+  queued,
+  selectedId,
+  canStart,
+  onStart,
+  onClose,
+  onDismiss,
+  onOpen
+}: SamplingRunPanelProps) {
+  const [usePlan, setUsePlan] = useState(true);
+  const [lotSize, setLotSize] = useState("");
+  const [aql, setAql] = useState(1);
+  const [level, setLevel] = useState<InspectionLevel>("II");
+  const [busy, setBusy] = useState(false);
+
+  const plan = usePlan ? aqlPlan(Number(lotSize), aql, level) : null;
+
+  if (!run) {
+    return (
+      <details className="mb-6 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm print:hidden">
+        <summary className="cursor-pointer select-none font-semibold">
+          Vzorkovanie (viac etikiet proti jednému mastru)
+        </summary>
+
+        <div className="mt-3 space-y-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input type="checkbox" checked={usePlan} onChange={(e) => setUsePlan(e.target.checked)} />
+            Plán výberu podľa AQL (ISO 2859-1)
+          </label>
+
+          {usePlan && (
+            <div className="grid gap-3 grid-cols-3 text-xs text-slate-300 max-w-md">
+              <label>
+                Veľkosť zákazky (ks)
+                <input
+                  type="number"
+                  min={2}
+                  value={lotSize}
+                  onChange={(e) => setLotSize(e.target.value)}
+                  className={INPUT}
+                />
+              </label>
+              <label>
+                AQL
+                <select value={aql} onChange={(e) => setAql(Number(e.target.value))} className={INPUT}>
+                  {AQLS.map((a) => (
+                    <option key={a} value={a}>
+                      {formatAql(a)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Úroveň kontroly
+                <select
+                  value={level}
+                  onChange={(e) => setLevel(e.target.value as InspectionLevel)}
+                  className={INPUT}
+                >
+                  {INSPECTION_LEVELS.map((l) => (
+                    <option key={l} value={l}>
+                      {l}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-400">
+            {usePlan
+              ? plan
+                ? planLabel(plan)
+                : "Zadaj veľkosť zákazky (aspoň 2 ks)."
+              : "Bez plánu – beh vyhovuje, ak sú všetky vzorky OK."}
+          </p>
+
+          <button
+            type="button"
+            onClick={() => onStart(plan)}
+            disabled={!canStart || (usePlan && !plan)}
+            className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 font-semibold text-white"
+          >
+            Začať beh
+          </button>
+          {!canStart && <p className="text-xs text-slate-400">Najprv nastav master etiketu.</p>}
+        </div>
+      </details>
+    );
+  }
+
+  const tally = runTally(samples);
+  const verdict = runVerdict(run.plan, tally);
+
+  async function pdf() {
+    if (!run) return;
+    setBusy(true);
+    try {
+      await downloadRunPdfReport(run, samples);
+    } catch (e) {
+      alert("Vytvorenie protokolu zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mb-6 rounded-2xl bg-slate-800/60 border border-sky-700 p-4 text-sm print:hidden">
+      <div className="flex flex-wrap items-center gap-3">
+        <b>{run.closedAt ? "Beh vzorkovania ukončený" : "Beh vzorkovania"}</b>
+        <span className={`px-2 py-0.5 rounded text-white text-xs font-semibold ${STATUS_CLASS[verdict.status]}`}>
+          {RUN_STATUS_LABELS[verdict.status]}
+        </span>
+        <span className="text-slate-300">{verdict.detail}</span>
+      </div>
+      <div className="mt-1 text-xs text-slate-400">
+        {run.orderNumber || "-"} / {run.productNumber || "-"} · od {new Date(run.startedAt).toLocaleString()}
+        {run.plan ? ` · ${planLabel(run.plan)}` : " · bez plánu AQL"}
+      </div>
+
+      {run.plan && (
+        <div className="mt-3 h-2 rounded bg-slate-700 overflow-hidden">
+          <div
+            className={`h-full ${verdict.status === "rejected" ? "bg-red-500" : "bg-emerald-500"}`}
+            style={{ width: `${Math.min(100, (tally.samples / run.plan.sampleSize) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      <table className="mt-3 text-xs">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="pr-6 text-left font-normal">Vzorky {tally.samples}</th>
+            <th className="pr-4 font-normal">OK</th>
+            <th className="pr-4 font-normal">Chyba</th>
+            <th className="font-normal">Bez kódu</th>
+          </tr>
+        </thead>
+        <tbody>
+          {([
+            ["Text", tally.text],
+            ["Čiarový kód", tally.bc],
+            ["Grafika", tally.gfx]
+          ] as const).map(([k, t]) => (
+            <tr key={k}>
+              <td className="pr-6">{k}</td>
+              <td className="pr-4 text-center text-emerald-300">{t.OK}</td>
+              <td className={`pr-4 text-center ${t.Chyba ? "text-red-300 font-semibold" : "text-slate-500"}`}>
+                {t.Chyba}
+              </td>
+              <td className="text-center text-slate-400">{t["Bez kódu"]}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-700">
+            <td className="pr-6 font-semibold">Celkom</td>
+            <td className="pr-4 text-center text-emerald-300 font-semibold">{tally.passed}</td>
+            <td className={`pr-4 text-center font-semibold ${tally.failed ? "text-red-300" : "text-slate-500"}`}>
+              {tally.failed}
+            </td>
+            <td />
+          </tr>
+        </tbody>
+      </table>
+      {queued > 0 && (
+        <p className="mt-2 text-xs text-amber-300">V offline fronte čaká {queued} vzoriek – započítajú sa po doručení.</p>
+      )}
+
+      {samples.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1.5">
+          {samples.map((r, i) => (
+            <button
+              key={r.id}
+              type="button"
+              onClick={() => onOpen(r)}
+              title={`${new Date(r.createdAt).toLocaleString()} · T ${r.summary.text} · K ${r.summary.bc} · G ${r.summary.gfx}`}
+              className={`rounded-md border px-2 py-1 text-xs ${selectedId === r.id ? "ring-2 ring-sky-400" : ""} ${
+                r.passed
+                  ? "border-emerald-700 bg-emerald-950/30 hover:bg-emerald-900/40"
+                  : "border-red-700 bg-red-950/30 hover:bg-red-900/40"
+              }`}
+            >
+              <span className="text-slate-400">#{i + 1}</span>{" "}
+              <span className={VERDICT_CLASS[r.summary.text]}>T</span>
+              <span className={VERDICT_CLASS[r.summary.bc]}>K</span>
+              <span className={VERDICT_CLASS[r.summary.gfx]}>G</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {!run.closedAt && (
+        <p className="mt-2 text-xs text-slate-400">
+          Master je počas behu zamknutý. Po každom porovnaní odfoť ďalšiu etiketu z roly.
+        </p>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => downloadRunReport(run, samples)}
+          className="px-3 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 text-white font-semibold"
+        >
+          Uložiť
+        </button>
+        <button
+          type="button"
+          onClick={pdf}
+          disabled={busy}
+          className="px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white font-semibold"
+        >
+          {busy ? "Generujem…" : "PDF protokol behu"}
+        </button>
+        {run.closedAt ? (
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-white"
+          >
+            Nový beh
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-white"
+          >
+            Ukončiť beh
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
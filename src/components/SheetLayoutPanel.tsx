@@ -0,0 +1,125 @@
+// src/components/SheetLayoutPanel.tsx
+import {
+  SHEET_MODE_LABELS,
+  WINDS,
+  isMultiUp,
+  sheetSizeMm,
+  type SheetLayout,
+  type SheetMode
+} from "../lib/sheet";
+
+type SheetLayoutPanelProps = {
+  layout: SheetLayout;
+  onChange: (patch: Partial<SheetLayout>) => void;
+  widthMm: number;
+  heightMm: number;
+};
+
+const INPUT = "block mt-1 w-full px-2 py-1 rounded bg-slate-800 border border-slate-700";
+
+const count = (v: string) => Math.min(20, Math.max(1, Math.round(Number(v)) || 1));
+const gap = (v: string) => Math.max(0, Number(v.replace(",", ".")) || 0);
+
+/** Rozloženie etikiet na hárku / role: riadky × stĺpce, medzery v mm a spôsob porovnania. */
+export default function SheetLayoutPanel({ layout, onChange, widthMm, heightMm }: SheetLayoutPanelProps) {
+  const multi = isMultiUp(layout);
+  const size = sheetSizeMm(layout, widthMm, heightMm);
+
+  return (
+    <details open={multi} className="mb-6 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm print:hidden">
+      <summary className="cursor-pointer select-none font-semibold">
+        Viacnásobné etikety (hárok / rola)
+        {multi && (
+          <span className="ml-2 px-2 py-0.5 rounded bg-sky-700 text-white text-xs">
+            {layout.rows} × {layout.cols}
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 grid gap-3 grid-cols-2 sm:grid-cols-6 text-xs text-slate-300">
+        <label>
+          Riadky
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={layout.rows}
+            onChange={(e) => onChange({ rows: count(e.target.value) })}
+            className={INPUT}
+          />
+        </label>
+        <label>
+          Stĺpce
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={layout.cols}
+            onChange={(e) => onChange({ cols: count(e.target.value) })}
+            className={INPUT}
+          />
+        </label>
+        <label>
+          Medzera vodorovne (mm)
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={layout.gapXmm}
+            onChange={(e) => onChange({ gapXmm: gap(e.target.value) })}
+            className={INPUT}
+          />
+        </label>
+        <label>
+          Medzera zvisle (mm)
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={layout.gapYmm}
+            onChange={(e) => onChange({ gapYmm: gap(e.target.value) })}
+            className={INPUT}
+          />
+        </label>
+        <label>
+          Spracovanie
+          <select
+            value={layout.mode}
+            onChange={(e) => onChange({ mode: e.target.value as SheetMode })}
+            className={INPUT}
+          >
+            {(Object.keys(SHEET_MODE_LABELS) as SheetMode[]).map((m) => (
+              <option key={m} value={m}>
+                {SHEET_MODE_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Navinutie
+          <select
+            value={layout.wind}
+            onChange={(e) => onChange({ wind: e.target.value })}
+            className={INPUT}
+          >
+            {WINDS.map((w) => (
+              <option key={w} value={w}>
+                {w}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {multi && (
+        <p className="mt-2 text-xs text-slate-400">
+          Master je jedna etiketa, etiketa na porovnanie je celý hárok{" "}
+          {size.w > 0 && size.h > 0 ? `(${Math.round(size.w)} × ${Math.round(size.h)} mm)` : ""}.{" "}
+          {layout.mode === "split"
+            ? "Snímok sa rozreže podľa mriežky a každá etiketa sa porovná zvlášť."
+            : "Celý hárok sa pošle na BE, ktorý ho rozdelí sám (vyžaduje spojenie)."}
+        </p>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,96 @@
+// src/components/SheetResultGrid.tsx
+import type { InspectionRecord } from "../lib/inspectionHistory";
+import { cellLabel } from "../lib/sheet";
+import { computeSummary, isPass, type Verdict } from "../lib/summary";
+
+/** výsledok jednej etikety hárku; bez záznamu ani chyby = ešte sa porovnáva */
+export type SheetCellResult = { record: InspectionRecord | null; error?: string };
+
+type SheetResultGridProps = {
+  rows: number;
+  cols: number;
+  cells: SheetCellResult[];
+  selected: number | null;
+  onSelect: (index: number) => void;
+};
+
+const VERDICT_CLASS: Record<Verdict, string> = {
+  OK: "text-emerald-300",
+  Chyba: "text-red-300",
+  "Bez kódu": "text-slate-400",
+  "–": "text-slate-500"
+};
+
+/** Mriežka mini-verdiktov etikiet na hárku; klik otvorí detail etikety. */
+export default function SheetResultGrid({ rows, cols, cells, selected, onSelect }: SheetResultGridProps) {
+  const done = cells.filter((c) => c.record);
+  const failed = done.filter((c) => !isPass(computeSummary(c.record!.view, c.record!.decisions)));
+
+  return (
+    <div className="mt-8 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 print:hidden">
+      <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
+        <b>Hárok {rows} × {cols}</b>
+        <span className="text-slate-300">
+          porovnané {done.length} / {rows * cols}
+        </span>
+        {failed.length > 0 ? (
+          <span className="px-2 py-0.5 rounded bg-red-700 text-white text-xs font-semibold">
+            NOK: {failed.length}
+          </span>
+        ) : (
+          done.length === rows * cols && (
+            <span className="px-2 py-0.5 rounded bg-emerald-700 text-white text-xs font-semibold">
+              Všetky OK
+            </span>
+          )
+        )}
+      </div>
+
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+        {Array.from({ length: rows * cols }, (_, i) => {
+          const c = cells[i];
+          const rec = c?.record;
+          const sum = rec ? computeSummary(rec.view, rec.decisions) : null;
+          const pass = sum ? isPass(sum) : null;
+          return (
+            <button
+              key={i}
+              type="button"
+              disabled={!rec}
+              onClick={() => onSelect(i)}
+              title={cellLabel(i, cols)}
+              className={`rounded-lg border p-2 text-left text-xs disabled:cursor-default ${
+                selected === i ? "ring-2 ring-sky-400" : ""
+              } ${
+                pass === null
+                  ? c?.error
+                    ? "border-amber-600 bg-amber-950/30"
+                    : "border-slate-700 bg-slate-900/40"
+                  : pass
+                    ? "border-emerald-700 bg-emerald-950/30 hover:bg-emerald-900/40"
+                    : "border-red-700 bg-red-950/30 hover:bg-red-900/40"
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-slate-400">#{i + 1}</span>
+                <span className="font-semibold">
+                  {pass === null ? (c?.error ? "chyba" : "…") : pass ? "OK" : "NOK"}
+                </span>
+              </div>
+              {sum ? (
+                <div className="mt-1 flex gap-2">
+                  <span className={VERDICT_CLASS[sum.text]}>T</span>
+                  <span className={VERDICT_CLASS[sum.bc]}>K</span>
+                  <span className={VERDICT_CLASS[sum.gfx]}>G</span>
+                </div>
+              ) : (
+                c?.error && <div className="mt-1 text-amber-300 truncate">{c.error}</div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-slate-500">T = text, K = čiarový kód, G = grafika. Klik otvorí detail etikety.</p>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+// src/components/TextRulesPanel.tsx
+import { useState } from "react";
+import {
+  CHECK_LABELS,
+  compileRule,
+  saveTextRules,
+  testRule,
+  type TextRule,
+  type TextRuleCheck
+} from "../lib/textRules";
+
+type TextRulesPanelProps = {
+  productNumber: string;
+  orderNumber: string;
+  rules: TextRule[];
+  onSaved: () => void;
+  updatedBy: string;
+  readOnly?: boolean;
+};
+
+const CHECKS = Object.keys(CHECK_LABELS) as TextRuleCheck[];
+
+const newRule = (): TextRule => ({ id: crypto.randomUUID(), name: "", pattern: "", check: "none" });
+
+/** Pravidlá premenlivého textu (šarža, dátum…) pre číslo produktu. */
+export default function TextRulesPanel({
+  productNumber,
+  orderNumber,
+  rules,
+  onSaved,
+  updatedBy,
+  readOnly
+}: TextRulesPanelProps) {
+  const [draft, setDraft] = useState<TextRule[]>(rules);
+  const [source, setSource] = useState(rules);
+  const [sample, setSample] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  // iný produkt / uložené pravidlá → nový koncept
+  if (rules !== source) {
+    setSource(rules);
+    setDraft(rules);
+  }
+
+  const dirty = draft !== rules;
+  const invalid = draft.some((r) => !compileRule(r));
+  const ctx = { today: new Date(), orderNumber };
+
+  const update = (id: string, patch: Partial<TextRule>) =>
+    setDraft((d) => d.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  async function handleSave() {
+    setBusy(true);
+    try {
+      await saveTextRules(productNumber, draft, updatedBy);
+      onSaved();
+    } catch (e) {
+      alert("Uloženie pravidiel zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="mt-3 rounded-2xl bg-slate-800/60 border border-slate-700 p-4 text-sm">
+      <summary className="cursor-pointer select-none font-semibold">
+        Premenlivý text ({rules.length})
+      </summary>
+
+      {!productNumber.trim() ? (
+        <p className="mt-3 text-slate-400">Pravidlá sa ukladajú k číslu produktu – najprv ho zadaj.</p>
+      ) : (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-slate-400">
+            Riadky, ktoré sa od mastra líšia len v hodnote podľa vzoru (napr. <code>EXP \d{"{2}"}/\d{"{4}"}</code>),
+            sa zobrazia ako premenlivé a nepočítajú sa ako chyba, ak prejdú kontrolou.
+          </p>
+
+          {draft.map((r) => {
+            const ok = !!compileRule(r);
+            const test = sample ? testRule(r, sample, ctx) : null;
+            return (
+              <div key={r.id} className="rounded-lg bg-slate-900/50 p-2 space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    value={r.name}
+                    onChange={(e) => update(r.id, { name: e.target.value })}
+                    placeholder="Názov (napr. Spotrebujte do)"
+                    disabled={readOnly}
+                    className="flex-1 min-w-32 px-2 py-1 rounded bg-slate-800 border border-slate-700"
+                  />
+                  <select
+                    value={r.check}
+                    onChange={(e) => update(r.id, { check: e.target.value as TextRuleCheck })}
+                    disabled={readOnly}
+                    className="px-2 py-1 rounded bg-slate-800 border border-slate-700"
+                  >
+                    {CHECKS.map((c) => (
+                      <option key={c} value={c}>
+                        {CHECK_LABELS[c]}
+                      </option>
+                    ))}
+                  </select>
+                  {!readOnly && (
+                    <button
+                      onClick={() => setDraft((d) => d.filter((x) => x.id !== r.id))}
+                      className="text-red-300 hover:text-red-200"
+                    >
+                      Odstrániť
+                    </button>
+                  )}
+                </div>
+                <input
+                  value={r.pattern}
+                  onChange={(e) => update(r.id, { pattern: e.target.value })}
+                  placeholder="Vzor, napr. EXP (\d{2}/\d{4})"
+                  disabled={readOnly}
+                  className={`w-full px-2 py-1 rounded bg-slate-800 border font-mono ${
+                    ok ? "border-slate-700" : "border-red-500"
+                  }`}
+                />
+                {!ok && <div className="text-xs text-red-300">Neplatný regulárny výraz.</div>}
+                {test && (
+                  <div className="text-xs">
+                    {!test.values.length ? (
+                      <span className="text-slate-400">Na skúšobný text nesedí.</span>
+                    ) : test.reasons.length ? (
+                      <span className="text-red-300">{test.reasons.join("; ")}</span>
+                    ) : (
+                      <span className="text-green-400">Platné: {test.values.join(", ")}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <input
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="Skúšobný text, napr. EXP 05/2027"
+            className="w-full px-2 py-1 rounded bg-slate-800 border border-slate-700"
+          />
+
+          {!readOnly && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setDraft((d) => [...d, newRule()])}
+                className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-lg"
+              >
+                Pridať pravidlo
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={busy || !dirty || invalid}
+                className="bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-lg"
+              >
+                {busy ? "Ukladám…" : "Uložiť pravidlá"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -1,21 +1,114 @@
-type Props = {
-  title: string;
-  preview?: string | null;
-  onFile: (f: File) => void;
+// src/components/UploadBox.tsx
+import { useRef, useState } from "react";
+import CropEditor from "./CropEditor";
+import ImageQualityCard from "./ImageQualityCard";
+import { captureCanvas } from "../lib/capture";
+import { DEFAULT_THRESHOLDS } from "../lib/frameQuality";
+import type { ImageQuality } from "../lib/imageQuality";
+import { loadSettings } from "../lib/settings";
+
+type UploadBoxProps = {
+  title?: string;
+  /** šírka / výška etikety */
+  aspectRatio: number;
+  /** nahraný obrázok (data URL); null = ešte nič */
+  sourceUrl: string | null;
+  onFile: (file: File) => void;
+  /** rovnaké ako pri LabelCamera – dostane už orezaný snímok */
+  onCapture: (file: File, previewUrl: string, quality: ImageQuality) => void;
 };
 
-export default function UploadBox({ title, preview, onFile }: Props) {
+/** Obrázok zo súboru, drag & drop alebo schránky, s ručným orezom na pomer strán etikety. */
+export default function UploadBox({ title, aspectRatio, sourceUrl, onFile, onCapture }: UploadBoxProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [result, setResult] = useState<{ previewUrl: string; quality: ImageQuality } | null>(null);
+  const [editing, setEditing] = useState(true);
+  const [minSharpness] = useState(
+    () => Number(loadSettings().minSharpness) || DEFAULT_THRESHOLDS.minSharpness
+  );
+
+  // nový súbor → znova orez
+  const [shownFor, setShownFor] = useState(sourceUrl);
+  if (sourceUrl !== shownFor) {
+    setShownFor(sourceUrl);
+    setResult(null);
+    setEditing(true);
+  }
+
+  async function apply(canvas: HTMLCanvasElement) {
+    // ručný orez ohraničuje etiketu, zaplnenie rámika sa nehodnotí;
+    // súbor nie je fotka – biele pozadie digitálnej etikety nie je odlesk
+    const shot = await captureCanvas(canvas, { straightened: true, minSharpness, file: true });
+    if (!shot) return;
+    onCapture(shot.file, shot.previewUrl, shot.quality);
+    setResult({ previewUrl: shot.previewUrl, quality: shot.quality });
+    setEditing(false);
+  }
+
   return (
-    <div className="rounded-xl border border-gray-200 bg-white p-4">
-      <div className="text-sm font-semibold mb-2">{title}</div>
+    <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5">
+      {title && <div className="text-sm font-semibold mb-2">{title}</div>}
+
       <input
+        ref={inputRef}
         type="file"
         accept="image/*"
-        onChange={(e) => e.target.files?.[0] && onFile(e.target.files[0])}
-        className="w-full"
+        className="hidden"
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          if (f) onFile(f);
+          e.target.value = "";
+        }}
       />
-      {preview && (
-        <img src={preview} alt="preview" className="mt-3 rounded-lg border border-gray-200 max-h-48 mx-auto" />
+
+      {!sourceUrl ? (
+        <div
+          tabIndex={0}
+          className="flex flex-col items-center justify-center gap-3 rounded-xl border-2 border-dashed border-slate-600 bg-slate-900/40 aspect-[3/4] p-6 text-center text-sm text-slate-300 outline-none focus:border-emerald-500"
+        >
+          <p>Pretiahni sem obrázok etikety alebo ho vlož zo schránky (Ctrl+V).</p>
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 font-semibold text-white"
+          >
+            Vybrať súbor
+          </button>
+        </div>
+      ) : editing || !result ? (
+        <CropEditor
+          imageUrl={sourceUrl}
+          aspectRatio={aspectRatio}
+          onApply={apply}
+          onCancel={result ? () => setEditing(false) : undefined}
+        />
+      ) : (
+        <>
+          <div className="relative w-full rounded-xl overflow-hidden bg-black aspect-[3/4]">
+            <img
+              src={result.previewUrl}
+              alt="Náhľad etikety"
+              className="absolute inset-0 w-full h-full object-contain"
+            />
+          </div>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              className="flex-1 px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-semibold text-white"
+            >
+              Upraviť orez
+            </button>
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="flex-1 px-3 py-2 rounded-lg bg-slate-700 hover:bg-slate-600 text-sm text-white"
+            >
+              Iný súbor
+            </button>
+          </div>
+          <ImageQualityCard quality={result.quality} />
+        </>
       )}
     </div>
   );
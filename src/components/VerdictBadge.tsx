@@ -0,0 +1,16 @@
+// src/components/VerdictBadge.tsx
+import type { Verdict } from "../lib/summary";
+
+export default function VerdictBadge({ label, verdict }: { label: string; verdict: Verdict }) {
+  const color =
+    verdict === "OK"
+      ? "bg-green-700/60 text-green-100"
+      : verdict === "Chyba"
+      ? "bg-red-700/60 text-red-100"
+      : "bg-slate-700 text-slate-300";
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs ${color}`}>
+      {label}: {verdict}
+    </span>
+  );
+}
@@ -0,0 +1,48 @@
+// src/hooks/useBackendHealth.ts
+import { useEffect, useState } from "react";
+import {
+  BACKENDS,
+  HEALTH_INTERVAL_MS,
+  checkHealth,
+  type BackendId,
+  type HealthState
+} from "../lib/apiClient";
+
+export type HealthMap = Record<BackendId, HealthState>;
+
+/** Periodicky overuje dostupnosť Java aj Python backendu. */
+export function useBackendHealth(intervalMs = HEALTH_INTERVAL_MS): HealthMap {
+  const [health, setHealth] = useState<HealthMap>({
+    java: { status: "unknown" },
+    python: { status: "unknown" }
+  });
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    const ids = Object.keys(BACKENDS) as BackendId[];
+
+    const run = () =>
+      ids.forEach(async (id) => {
+        const state = await checkHealth(id, ctrl.signal);
+        if (!ctrl.signal.aborted) setHealth((h) => ({ ...h, [id]: state }));
+      });
+
+    run();
+    const timer = setInterval(run, intervalMs);
+    // po návrate na kartu / obnovení siete netreba čakať na ďalší interval
+    window.addEventListener("online", run);
+    const onVisible = () => {
+      if (document.visibilityState === "visible") run();
+    };
+    document.addEventListener("visibilitychange", onVisible);
+
+    return () => {
+      ctrl.abort();
+      clearInterval(timer);
+      window.removeEventListener("online", run);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [intervalMs]);
+
+  return health;
+}
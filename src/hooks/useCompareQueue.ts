@@ -0,0 +1,48 @@
+// src/hooks/useCompareQueue.ts
+import { useEffect, useState } from "react";
+import {
+  QUEUE_CHANNEL,
+  listQueue,
+  requestSync,
+  type QueuedCompare
+} from "../lib/compareQueue";
+import { deliverFinished } from "../lib/queueDelivery";
+
+/**
+ * Obsah offline fronty; obnovuje sa pri zmene zo stránky aj zo SW.
+ * Spracované záznamy rovno doručí do histórie.
+ */
+export function useCompareQueue(): QueuedCompare[] {
+  const [entries, setEntries] = useState<QueuedCompare[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const refresh = () => {
+      listQueue()
+        .then((e) => {
+          if (active) setEntries(e);
+          if (e.some((x) => x.status === "done")) deliverFinished(e).catch(() => {});
+        })
+        .catch(() => {});
+    };
+    const sync = () => {
+      requestSync().catch(() => {});
+    };
+
+    refresh();
+    // po otvorení stránky dobehneme, čo ostalo vo fronte
+    if (navigator.onLine) sync();
+
+    const ch = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(QUEUE_CHANNEL) : null;
+    ch?.addEventListener("message", refresh);
+    window.addEventListener("online", sync);
+
+    return () => {
+      active = false;
+      ch?.close();
+      window.removeEventListener("online", sync);
+    };
+  }, []);
+
+  return entries;
+}
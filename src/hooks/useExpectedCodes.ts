@@ -0,0 +1,22 @@
+// src/hooks/useExpectedCodes.ts
+import { useCallback, useEffect, useState } from "react";
+import { getExpectedCodes, type ExpectedCode } from "../lib/expectedCodes";
+
+/** Očakávané čiarové kódy pre aktuálne číslo produktu. */
+export function useExpectedCodes(productNumber: string) {
+  const [codes, setCodes] = useState<ExpectedCode[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCodes(await getExpectedCodes(productNumber));
+    } catch (e) {
+      console.warn("Očakávané kódy sa nepodarilo načítať:", e);
+    }
+  }, [productNumber]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { codes, refresh };
+}
@@ -0,0 +1,107 @@
+// src/hooks/useFrameQuality.ts
+import { useEffect, useRef, useState, type RefObject } from "react";
+import {
+  ANALYSIS_WIDTH,
+  centralCrop,
+  frameIssues,
+  grayOf,
+  measureFrame,
+  type FrameMetrics,
+  type QualityIssue,
+  type QualityThresholds
+} from "../lib/frameQuality";
+
+/** ako často analyzovať snímok (ms) – stačí niekoľkokrát za sekundu */
+const TICK_MS = 120;
+
+type FrameQualityOptions = {
+  enabled: boolean;
+  /** pomer strán červeného rámika – analyzuje sa len výrez v ňom */
+  aspectRatio: number;
+  /** ako dlho musí byť obraz v poriadku, kým sa zavolá `onStable` */
+  holdMs: number;
+  thresholds?: QualityThresholds;
+  onStable: () => void;
+};
+
+export type FrameQuality = {
+  metrics: FrameMetrics | null;
+  issues: QualityIssue[];
+  /** 0..1 – ako dlho je obraz v poriadku vzhľadom na `holdMs` */
+  progress: number;
+};
+
+const IDLE: FrameQuality = { metrics: null, issues: [], progress: 0 };
+
+/**
+ * Priebežne meria ostrosť, pohyb a expozíciu výrezu v rámiku.
+ * Keď je obraz `holdMs` v kuse v poriadku, raz zavolá `onStable` a skončí;
+ * znova sa rozbehne po vypnutí a zapnutí (`enabled`).
+ */
+export function useFrameQuality(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  { enabled, aspectRatio, holdMs, thresholds, onStable }: FrameQualityOptions
+): FrameQuality {
+  const [state, setState] = useState<FrameQuality>(IDLE);
+  const onStableRef = useRef(onStable);
+  useEffect(() => {
+    onStableRef.current = onStable;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return;
+
+    let prev: Uint8Array | null = null;
+    let stableSince: number | null = null;
+    let timer = 0;
+    let stopped = false;
+
+    const tick = () => {
+      const v = videoRef.current;
+      if (v && v.videoWidth && v.videoHeight) {
+        const ar = aspectRatio > 0 ? aspectRatio : 1;
+        const { sx, sy, sw, sh } = centralCrop(v.videoWidth, v.videoHeight, ar);
+        const w = ANALYSIS_WIDTH;
+        const h = Math.max(1, Math.round((w * sh) / sw));
+        if (canvas.width !== w || canvas.height !== h) {
+          canvas.width = w;
+          canvas.height = h;
+          prev = null;
+        }
+        ctx.drawImage(v, sx, sy, sw, sh, 0, 0, w, h);
+        const gray = grayOf(ctx.getImageData(0, 0, w, h).data);
+        // bez predošlého snímku pohyb nepoznáme – taký snímok nepočítame ako stabilný
+        const first = !prev;
+        const metrics = measureFrame(gray, w, h, prev);
+        const issues = frameIssues(metrics, thresholds);
+        prev = gray;
+
+        const now = performance.now();
+        if (issues.length || first) stableSince = null;
+        else stableSince ??= now;
+        const progress =
+          stableSince === null ? 0 : Math.min(1, (now - stableSince) / Math.max(1, holdMs));
+        setState({ metrics, issues, progress });
+
+        if (progress >= 1) {
+          stopped = true;
+          onStableRef.current();
+          return;
+        }
+      }
+      if (!stopped) timer = window.setTimeout(tick, TICK_MS);
+    };
+    timer = window.setTimeout(tick, TICK_MS);
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      setState(IDLE);
+    };
+  }, [enabled, aspectRatio, holdMs, thresholds, videoRef]);
+
+  return enabled ? state : IDLE;
+}
@@ -0,0 +1,24 @@
+// src/hooks/useInspectionHistory.ts
+import { useCallback, useEffect, useState } from "react";
+import { listInspections, type InspectionRecord } from "../lib/inspectionHistory";
+
+export function useInspectionHistory() {
+  const [records, setRecords] = useState<InspectionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await listInspections());
+    } catch (e) {
+      console.warn("Históriu sa nepodarilo načítať:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { records, loading, refresh };
+}
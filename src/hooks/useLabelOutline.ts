@@ -0,0 +1,32 @@
+// src/hooks/useLabelOutline.ts
+import { useEffect, useState, type RefObject } from "react";
+import { detectInVideo, type Quad } from "../lib/labelDetect";
+
+/** ako často hľadať obrys v živom obraze (ms) */
+const TICK_MS = 250;
+
+export type LabelOutline = { quad: Quad; videoW: number; videoH: number };
+
+/** Priebežne hľadá obrys etikety v živom videu; null = nenájdený alebo vypnuté. */
+export function useLabelOutline(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  { enabled, aspectRatio }: { enabled: boolean; aspectRatio: number }
+): LabelOutline | null {
+  const [outline, setOutline] = useState<LabelOutline | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = window.setInterval(() => {
+      const v = videoRef.current;
+      if (!v || !v.videoWidth) return;
+      const quad = detectInVideo(v, aspectRatio > 0 ? aspectRatio : 1);
+      setOutline(quad ? { quad, videoW: v.videoWidth, videoH: v.videoHeight } : null);
+    }, TICK_MS);
+    return () => {
+      window.clearInterval(timer);
+      setOutline(null);
+    };
+  }, [enabled, aspectRatio, videoRef]);
+
+  return enabled ? outline : null;
+}
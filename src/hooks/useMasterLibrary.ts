@@ -0,0 +1,21 @@
+// src/hooks/useMasterLibrary.ts
+import { useCallback, useEffect, useState } from "react";
+import { listMasters, type MasterRecord } from "../lib/masterLibrary";
+
+export function useMasterLibrary() {
+  const [masters, setMasters] = useState<MasterRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setMasters(await listMasters());
+    } catch (e) {
+      console.warn("Knižnicu mastrov sa nepodarilo načítať:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { masters, refresh };
+}
@@ -0,0 +1,105 @@
+// src/hooks/usePanZoom.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FULL_VIEW, panBy, zoomAt, type Viewport } from "../lib/viewport";
+
+const WHEEL_STEP = 1.15;
+/** posun do tejto vzdialenosti (px) sa ešte berie ako ťuknutie */
+const TAP_SLOP = 6;
+
+type PanZoomOptions = {
+  /** ťuknutie / klik bez posunu – bod v 0..1 plochy prvku */
+  onTap?: (px: number, py: number) => void;
+  /** pohyb myši bez stlačenia; null = kurzor opustil prvok */
+  onHover?: (p: { x: number; y: number } | null) => void;
+};
+
+/**
+ * Zdieľaný zoom/posun pre jedno alebo viac plátien.
+ * `paneRef` sa dá pripojiť na ľubovoľný počet prvkov – koliesko myši alebo
+ * dva prsty zoomujú, ťahanie posúva; všetky prvky menia ten istý Viewport.
+ */
+export function usePanZoom(opts: PanZoomOptions = {}) {
+  const [viewport, setViewport] = useState<Viewport>(FULL_VIEW);
+  const optsRef = useRef(opts);
+  useEffect(() => {
+    optsRef.current = opts;
+  });
+
+  const reset = useCallback(() => setViewport(FULL_VIEW), []);
+  const zoomBy = useCallback((factor: number) => setViewport((v) => zoomAt(v, factor)), []);
+
+  const paneRef = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    // aktívne prsty / myš v tomto prvku
+    const pointers = new Map<number, { x: number; y: number }>();
+    let moved = 0;
+
+    const rel = (x: number, y: number) => {
+      const r = el.getBoundingClientRect();
+      return { x: (x - r.left) / r.width, y: (y - r.top) / r.height, w: r.width, h: r.height };
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const p = rel(e.clientX, e.clientY);
+      const factor = e.deltaY < 0 ? WHEEL_STEP : 1 / WHEEL_STEP;
+      setViewport((v) => zoomAt(v, factor, p.x, p.y));
+    };
+    const onDown = (e: PointerEvent) => {
+      if (e.pointerType === "mouse" && e.button !== 0) return;
+      el.setPointerCapture(e.pointerId);
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 1) moved = 0;
+    };
+    const onMove = (e: PointerEvent) => {
+      const prev = pointers.get(e.pointerId);
+      if (!prev) {
+        if (e.pointerType === "mouse") optsRef.current.onHover?.(rel(e.clientX, e.clientY));
+        return;
+      }
+      const cur = { x: e.clientX, y: e.clientY };
+
+      if (pointers.size === 2) {
+        // pinch – pomer vzdialeností prstov okolo ich stredu
+        const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+        const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+        const after = Math.hypot(cur.x - other.x, cur.y - other.y);
+        const mid = rel((cur.x + other.x) / 2, (cur.y + other.y) / 2);
+        if (before > 0) setViewport((v) => zoomAt(v, after / before, mid.x, mid.y));
+        moved = Infinity;
+      } else if (pointers.size === 1) {
+        const r = rel(0, 0);
+        const dx = (cur.x - prev.x) / r.w;
+        const dy = (cur.y - prev.y) / r.h;
+        moved += Math.hypot(cur.x - prev.x, cur.y - prev.y);
+        setViewport((v) => panBy(v, dx, dy));
+      }
+      pointers.set(e.pointerId, cur);
+    };
+    const onUp = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return;
+      if (e.type === "pointerup" && pointers.size === 0 && moved <= TAP_SLOP) {
+        const p = rel(e.clientX, e.clientY);
+        optsRef.current.onTap?.(p.x, p.y);
+      }
+    };
+    const onLeave = () => optsRef.current.onHover?.(null);
+
+    el.addEventListener("wheel", onWheel, { passive: false });
+    el.addEventListener("pointerdown", onDown);
+    el.addEventListener("pointermove", onMove);
+    el.addEventListener("pointerup", onUp);
+    el.addEventListener("pointercancel", onUp);
+    el.addEventListener("pointerleave", onLeave);
+    return () => {
+      el.removeEventListener("wheel", onWheel);
+      el.removeEventListener("pointerdown", onDown);
+      el.removeEventListener("pointermove", onMove);
+      el.removeEventListener("pointerup", onUp);
+      el.removeEventListener("pointercancel", onUp);
+      el.removeEventListener("pointerleave", onLeave);
+    };
+  }, []);
+
+  return { viewport, setViewport, reset, zoomBy, paneRef };
+}
@@ -0,0 +1,34 @@
+// src/hooks/useSamplingRun.ts
+import { useCallback, useEffect, useState } from "react";
+import type { InspectionRecord } from "../lib/inspectionHistory";
+import { listRunSamples, loadRun, saveRun, type SamplingRun } from "../lib/sampling";
+
+/** Rozpracovaný beh vzorkovania (localStorage) a jeho vzorky z histórie. */
+export function useSamplingRun() {
+  const [run, setRunState] = useState<SamplingRun | null>(loadRun);
+  const [samples, setSamples] = useState<InspectionRecord[]>([]);
+  const runId = run?.id;
+
+  const refresh = useCallback(async () => {
+    if (!runId) {
+      setSamples([]);
+      return;
+    }
+    try {
+      setSamples(await listRunSamples(runId));
+    } catch (e) {
+      console.warn("Vzorky behu sa nepodarilo načítať:", e);
+    }
+  }, [runId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setRun = useCallback((next: SamplingRun | null) => {
+    saveRun(next);
+    setRunState(next);
+  }, []);
+
+  return { run, setRun, samples, refresh };
+}
@@ -0,0 +1,26 @@
+// src/hooks/useSession.ts
+import { useEffect, useSyncExternalStore } from "react";
+import { clearSession, getSession, subscribeSession, type Session } from "../lib/session";
+
+/** prehliadače berú dlhšie oneskorenie ako 0 (~24,8 dňa) */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/** Aktuálna relácia; pri dosiahnutí expiresAt ju automaticky ukončí. */
+export function useSession(): Session | null {
+  const session = useSyncExternalStore(subscribeSession, getSession);
+
+  useEffect(() => {
+    if (!session) return;
+    let timer: ReturnType<typeof setTimeout>;
+    // dlhé platnosti po častiach – časovač sa po každom kroku nastaví znova
+    const arm = () => {
+      const ms = session.expiresAt - Date.now();
+      if (!(ms > 0)) clearSession("expired");
+      else timer = setTimeout(arm, Math.min(ms, MAX_TIMEOUT_MS));
+    };
+    arm();
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  return session;
+}
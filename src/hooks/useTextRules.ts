@@ -0,0 +1,22 @@
+// src/hooks/useTextRules.ts
+import { useCallback, useEffect, useState } from "react";
+import { getTextRules, type TextRule } from "../lib/textRules";
+
+/** Pravidlá premenlivého textu pre aktuálne číslo produktu. */
+export function useTextRules(productNumber: string) {
+  const [rules, setRules] = useState<TextRule[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRules(await getTextRules(productNumber));
+    } catch (e) {
+      console.warn("Textové pravidlá sa nepodarilo načítať:", e);
+    }
+  }, [productNumber]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rules, refresh };
+}
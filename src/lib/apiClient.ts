@@ -0,0 +1,265 @@
+// src/lib/apiClient.ts
+
+import { clearSession, getToken } from "./session";
+
+// ===== ENV =====
+export const JAVA_BASE = import.meta.env.VITE_JAVA_BASE_URL || "http://localhost:8080";
+export const PY_BASE   = import.meta.env.VITE_PY_BASE_URL   || "http://localhost:8011";
+export const AUTH_BASE = import.meta.env.VITE_AUTH_BASE_URL || JAVA_BASE;
+
+const envMs = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+/** Časové limity pre jednotlivé endpointy (ms), prepísateľné cez VITE_*_TIMEOUT_MS. */
+export const TIMEOUTS = {
+  javaCompare: envMs(import.meta.env.VITE_JAVA_TIMEOUT_MS, 20000),
+  pyCompare: envMs(import.meta.env.VITE_PY_TIMEOUT_MS, 30000),
+  legacyCompare: envMs(import.meta.env.VITE_LEGACY_TIMEOUT_MS, 45000),
+  health: envMs(import.meta.env.VITE_HEALTH_TIMEOUT_MS, 4000),
+  auth: envMs(import.meta.env.VITE_AUTH_TIMEOUT_MS, 10000)
+};
+
+export const HEALTH_INTERVAL_MS = envMs(import.meta.env.VITE_HEALTH_INTERVAL_MS, 30000);
+
+// ===== backendy =====
+export type BackendId = "java" | "python";
+
+export type Backend = {
+  id: BackendId;
+  label: string;
+  base: string;
+  healthPath: string;
+};
+
+export const BACKENDS: Record<BackendId, Backend> = {
+  java: {
+    id: "java",
+    label: "Java",
+    base: JAVA_BASE,
+    healthPath: import.meta.env.VITE_JAVA_HEALTH_PATH || "/api/health"
+  },
+  python: {
+    id: "python",
+    label: "Python",
+    base: PY_BASE,
+    healthPath: import.meta.env.VITE_PY_HEALTH_PATH || "/api/health"
+  }
+};
+
+// ===== chyby =====
+/** "local" = chyba v prehliadači pred odoslaním (napr. zostavenie tela), server sa nekontaktoval */
+export type ApiErrorKind = "timeout" | "aborted" | "network" | "http" | "parse" | "unauthorized" | "local";
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export const isAbort = (e: unknown) => e instanceof ApiError && e.kind === "aborted";
+export const isUnauthorized = (e: unknown) => e instanceof ApiError && e.kind === "unauthorized";
+/** backend vôbec nedostupný (sieť / timeout) – na rozdiel od chybnej odpovede */
+export const isUnreachable = (e: unknown) =>
+  e instanceof ApiError && (e.kind === "network" || e.kind === "timeout");
+
+// ===== požiadavky =====
+type RequestOptions = {
+  method?: "GET" | "POST";
+  body?: FormData;
+  /** JSON telo (napr. login) – má prednosť pred body */
+  json?: unknown;
+  timeoutMs: number;
+  /** bez Authorization hlavičky (login, health) */
+  anonymous?: boolean;
+  /** signál od používateľa (tlačidlo Zrušiť) */
+  signal?: AbortSignal;
+};
+
+/**
+ * fetch s časovým limitom a zrušením; vráti JSON alebo vyhodí ApiError.
+ * Token relácie pripojí automaticky, 401 reláciu ukončí.
+ */
+export async function requestJSON(url: string, opts: RequestOptions): Promise<unknown> {
+  const ctrl = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    ctrl.abort();
+  }, opts.timeoutMs);
+  const onAbort = () => ctrl.abort();
+  if (opts.signal?.aborted) ctrl.abort();
+  opts.signal?.addEventListener("abort", onAbort);
+
+  const headers: Record<string, string> = {};
+  const token = opts.anonymous ? null : getToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  let body: BodyInit | undefined = opts.body;
+  if (opts.json !== undefined) {
+    headers["Content-Type"] = "application/json";
+    body = JSON.stringify(opts.json);
+  }
+
+  try {
+    let r: Response;
+    try {
+      r = await fetch(url, {
+        method: opts.method || "GET",
+        headers,
+        body,
+        signal: ctrl.signal
+      });
+    } catch (e) {
+      if (timedOut)
+        throw new ApiError("timeout", `Časový limit ${Math.round(opts.timeoutMs / 1000)} s vypršal`);
+      if (opts.signal?.aborted) throw new ApiError("aborted", "Zrušené používateľom");
+      throw new ApiError("network", e instanceof Error ? e.message : "Sieťová chyba");
+    }
+
+    const text = await r.text();
+    if (r.status === 401 && token) {
+      clearSession("expired");
+      throw new ApiError("unauthorized", "Relácia vypršala – prihlás sa znova", 401);
+    }
+    if (!r.ok) {
+      throw new ApiError("http", `HTTP ${r.status}${text ? `: ${text.slice(0, 120)}` : ""}`, r.status);
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ApiError("parse", "Odpoveď nie je JSON", r.status);
+    }
+  } finally {
+    clearTimeout(timer);
+    opts.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// ===== failover =====
+export type CompareStep = {
+  backend: BackendId;
+  path: string;
+  timeoutMs: number;
+  /** telo sa skladá až pri pokuse (legacy potrebuje rozmery obrázka) */
+  body: () => Promise<FormData> | FormData;
+};
+
+export type CompareAttempt = {
+  backend: BackendId;
+  path: string;
+  ok: boolean;
+  skipped?: boolean;
+  error?: string;
+  errorKind?: ApiErrorKind;
+  ms: number;
+};
+
+export type CompareResult = {
+  data: unknown;
+  backend: BackendId;
+  path: string;
+  attempts: CompareAttempt[];
+};
+
+/**
+ * Skúša kroky postupne, pri chybe/timeoute ide na ďalší.
+ * Backendy, ktoré health check hlási ako nedostupné, preskočí – ak sú dole všetky,
+ * skúsi ich aj tak. Zrušenie používateľom ani neplatný token failover nespúšťa.
+ */
+export async function compareWithFailover(
+  steps: CompareStep[],
+  opts: { signal?: AbortSignal; health?: Partial<Record<BackendId, HealthState>> } = {}
+): Promise<CompareResult> {
+  const attempts: CompareAttempt[] = [];
+  const isDown = (s: CompareStep) => opts.health?.[s.backend]?.status === "down";
+  const allDown = steps.every(isDown);
+
+  for (const step of steps) {
+    if (!allDown && isDown(step)) {
+      attempts.push({ backend: step.backend, path: step.path, ok: false, skipped: true, ms: 0 });
+      continue;
+    }
+    const t0 = performance.now();
+    // chyba pri skladaní tela (napr. načítanie obrázka) je lokálna – backend za ňu nemôže
+    let body: FormData;
+    try {
+      body = await step.body();
+    } catch (e) {
+      attempts.push({
+        backend: step.backend,
+        path: step.path,
+        ok: false,
+        error: `Požiadavku sa nepodarilo zostaviť: ${e instanceof Error ? e.message : String(e)}`,
+        errorKind: "local",
+        ms: performance.now() - t0
+      });
+      continue;
+    }
+    try {
+      const data = await requestJSON(`${BACKENDS[step.backend].base}${step.path}`, {
+        method: "POST",
+        body,
+        timeoutMs: step.timeoutMs,
+        signal: opts.signal
+      });
+      attempts.push({ backend: step.backend, path: step.path, ok: true, ms: performance.now() - t0 });
+      return { data, backend: step.backend, path: step.path, attempts };
+    } catch (e) {
+      if (isAbort(e) || isUnauthorized(e)) throw e;
+      attempts.push({
+        backend: step.backend,
+        path: step.path,
+        ok: false,
+        error: e instanceof Error ? e.message : String(e),
+        errorKind: e instanceof ApiError ? e.kind : "network",
+        ms: performance.now() - t0
+      });
+    }
+  }
+
+  // "network" len ak žiadny backend neodpovedal vôbec – vtedy má zmysel odložiť do fronty
+  const tried = attempts.filter((a) => !a.skipped);
+  const unreachable = tried.every((a) => a.errorKind === "network" || a.errorKind === "timeout");
+  const last = tried.pop();
+  throw new ApiError(
+    unreachable ? "network" : "http",
+    `Žiadny backend nevrátil výsledok${last?.error ? ` (${last.error})` : ""}`
+  );
+}
+
+// ===== health check =====
+export type HealthState = {
+  status: "unknown" | "up" | "down";
+  checkedAt?: number;
+  latencyMs?: number;
+  error?: string;
+};
+
+export async function checkHealth(id: BackendId, signal?: AbortSignal): Promise<HealthState> {
+  const b = BACKENDS[id];
+  const t0 = performance.now();
+  try {
+    await requestJSON(`${b.base}${b.healthPath}`, {
+      timeoutMs: TIMEOUTS.health,
+      signal,
+      anonymous: true
+    });
+    return { status: "up", checkedAt: Date.now(), latencyMs: performance.now() - t0 };
+  } catch (e) {
+    // akákoľvek HTTP odpoveď (aj 404 bez health route, 5xx, telo bez JSON) = server odpovedá
+    if (e instanceof ApiError && (e.kind === "http" || e.kind === "parse"))
+      return { status: "up", checkedAt: Date.now(), latencyMs: performance.now() - t0 };
+    return {
+      status: "down",
+      checkedAt: Date.now(),
+      error: e instanceof Error ? e.message : String(e)
+    };
+  }
+}
@@ -0,0 +1,180 @@
+// src/lib/artwork.ts
+import { alignTextLines } from "./textDiff";
+import type { LabelView, OcrDiff } from "./types";
+
+// ===== tlačové podklady (PDF / SVG) ako master =====
+// Súradnice v bodoch (1/72 palca) od ľavého horného rohu strany.
+export type PtRect = { x: number; y: number; w: number; h: number };
+
+export type Artwork = {
+  kind: "pdf" | "svg";
+  name: string;
+  pageCount: number;
+  /** veľkosť strany (1..pageCount) v bodoch */
+  pageSize: (page: number) => Promise<{ w: number; h: number }>;
+  /** vyrenderuje oblasť strany do plátna outW × outH */
+  render: (page: number, area: PtRect, outW: number, outH: number) => Promise<HTMLCanvasElement>;
+  /** textová vrstva v oblasti po riadkoch; null = formát ju nemá */
+  text: (page: number, area: PtRect) => Promise<string | null>;
+  destroy: () => void;
+};
+
+export const PT_PER_MM = 72 / 25.4;
+export const ARTWORK_DPIS = [300, 600, 800, 1200];
+
+/** rozmer výsledného rastra pre etiketu w × h mm pri danom DPI */
+export const rasterSize = (widthMm: number, heightMm: number, dpi: number) => ({
+  w: Math.round((widthMm / 25.4) * dpi),
+  h: Math.round((heightMm / 25.4) * dpi)
+});
+
+/**
+ * Predvolená oblasť etikety na strane: etiketa v mierke 1:1 v strede strany
+ * (strana = orezový formát etikety → celá strana), ak sa nezmestí,
+ * najväčší obdĺžnik s pomerom strán etikety.
+ */
+export function defaultArea(pageW: number, pageH: number, widthMm: number, heightMm: number): PtRect {
+  const s = Math.min(1, pageW / (widthMm * PT_PER_MM), pageH / (heightMm * PT_PER_MM));
+  const w = widthMm * PT_PER_MM * s;
+  const h = heightMm * PT_PER_MM * s;
+  return { x: (pageW - w) / 2, y: (pageH - h) / 2, w, h };
+}
+
+// ===== textová vrstva → riadky =====
+/** kúsok textu s polohou účaria (y dole) v bodoch strany */
+export type TextPiece = { str: string; x: number; y: number; w: number; h: number };
+
+/** kúsky textu v oblasti poskladané do riadkov zhora nadol, zľava doprava */
+export function textLines(pieces: TextPiece[], area: PtRect): string {
+  const inside = pieces.filter((p) => {
+    const cx = p.x + p.w / 2;
+    const cy = p.y - p.h / 2;
+    return p.str.trim() && cx >= area.x && cx <= area.x + area.w && cy >= area.y && cy <= area.y + area.h;
+  });
+  inside.sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const lines: TextPiece[][] = [];
+  for (const p of inside) {
+    const line = lines[lines.length - 1];
+    const ref = line?.[0];
+    // rovnaký riadok = účarie bližšie ako polovica výšky písma
+    if (ref && Math.abs(p.y - ref.y) < Math.max(ref.h, p.h) * 0.5) line.push(p);
+    else lines.push([p]);
+  }
+
+  return lines
+    .map((line) => {
+      line.sort((a, b) => a.x - b.x);
+      let out = "";
+      let end = -Infinity;
+      for (const p of line) {
+        // medzera, ak je medzi kúskami viditeľný odstup
+        if (out && p.x - end > p.h * 0.15 && !out.endsWith(" ") && !p.str.startsWith(" ")) out += " ";
+        out += p.str;
+        end = p.x + p.w;
+      }
+      return out.replace(/\s+/g, " ").trim();
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+// ===== text z podkladov namiesto OCR mastra =====
+/**
+ * Nahradí OCR mastra textom z podkladov a znova zarovná rozdiely voči scanu.
+ * Polohy riadkov scanu z BE ostanú (kvôli maskám).
+ */
+export function applyMasterText(view: LabelView, masterText: string | null | undefined): LabelView {
+  if (!masterText) return view;
+  const boxes = new Map<number, NonNullable<OcrDiff["box"]>>();
+  (view.ocrDiffs || []).forEach((d) => d.scanLine && d.box && boxes.set(d.scanLine, d.box));
+  const ocrDiffs = alignTextLines(masterText, view.ocrScan ?? "").map((d) => {
+    const box = d.scanLine ? boxes.get(d.scanLine) : undefined;
+    return box ? { ...d, box } : d;
+  });
+  return { ...view, ocrMaster: masterText, ocrDiffs, masterTextSource: "artwork" };
+}
+
+// ===== načítanie =====
+/** PDF cez pdf.js (načíta sa až pri prvom použití) */
+async function openPdf(file: File): Promise<Artwork> {
+  const pdfjs = await import("pdfjs-dist");
+  const workerUrl = (await import("pdfjs-dist/build/pdf.worker.min.mjs?url")).default;
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  return {
+    kind: "pdf",
+    name: file.name,
+    pageCount: doc.numPages,
+    async pageSize(n) {
+      const vp = (await doc.getPage(n)).getViewport({ scale: 1 });
+      return { w: vp.width, h: vp.height };
+    },
+    async render(n, area, outW, outH) {
+      const page = await doc.getPage(n);
+      const scale = outW / area.w;
+      const canvas = document.createElement("canvas");
+      canvas.width = outW;
+      canvas.height = outH;
+      const ctx = canvas.getContext("2d")!;
+      // biely podklad – priehľadné časti PDF by boli v JPEG čierne
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, outW, outH);
+      const viewport = page.getViewport({ scale, offsetX: -area.x * scale, offsetY: -area.y * scale });
+      await page.render({ canvas, viewport }).promise;
+      return canvas;
+    },
+    async text(n, area) {
+      const page = await doc.getPage(n);
+      const vp = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const pieces: TextPiece[] = [];
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+        const [, , c, d, x, y] = pdfjs.Util.transform(vp.transform, item.transform) as number[];
+        pieces.push({ str: item.str, x, y, w: item.width, h: Math.hypot(c, d) || item.height });
+      }
+      return textLines(pieces, area);
+    },
+    destroy: () => void doc.destroy()
+  };
+}
+
+/** SVG cez <img> – prehliadač ho rasterizuje vektorovo v cieľovej veľkosti */
+async function openSvg(file: File): Promise<Artwork> {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("SVG sa nepodarilo načítať."));
+    img.src = url;
+  });
+  // prirodzená veľkosť je v CSS px (1/96 palca)
+  const w = (img.naturalWidth || 300) * 0.75;
+  const h = (img.naturalHeight || 150) * 0.75;
+
+  return {
+    kind: "svg",
+    name: file.name,
+    pageCount: 1,
+    pageSize: async () => ({ w, h }),
+    async render(_n, area, outW, outH) {
+      const canvas = document.createElement("canvas");
+      canvas.width = outW;
+      canvas.height = outH;
+      const ctx = canvas.getContext("2d")!;
+      const s = outW / area.w;
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, outW, outH);
+      ctx.drawImage(img, -area.x * s, -area.y * s, w * s, h * s);
+      return canvas;
+    },
+    text: async () => null,
+    destroy: () => URL.revokeObjectURL(url)
+  };
+}
+
+export function openArtwork(file: File): Promise<Artwork> {
+  return file.type === "image/svg+xml" || /\.svg$/i.test(file.name) ? openSvg(file) : openPdf(file);
+}
@@ -0,0 +1,57 @@
+// src/lib/auth.ts
+import { AUTH_BASE, ApiError, TIMEOUTS, requestJSON } from "./apiClient";
+import { clearSession, getToken, setSession, type Session } from "./session";
+import { isRole } from "./roles";
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null;
+
+/**
+ * Odpoveď /api/auth/login:
+ *   { accessToken, expiresIn (s) | expiresAt (ISO / epoch ms),
+ *     user: { username, displayName?, role: "operator" | "supervisor" | "admin" } }
+ * Neznáma alebo chýbajúca rola = operátor (najmenej práv).
+ */
+function toSession(data: unknown, username: string): Session {
+  if (!isObj(data) || typeof data.accessToken !== "string" || !data.accessToken)
+    throw new ApiError("parse", "Prihlásenie nevrátilo token");
+
+  let expiresAt: number | undefined;
+  if (typeof data.expiresIn === "number") expiresAt = Date.now() + data.expiresIn * 1000;
+  else if (typeof data.expiresAt === "number") expiresAt = data.expiresAt;
+  else if (typeof data.expiresAt === "string") expiresAt = Date.parse(data.expiresAt);
+  if (!expiresAt || !Number.isFinite(expiresAt))
+    throw new ApiError("parse", "Prihlásenie nevrátilo platnosť tokenu");
+
+  const u = isObj(data.user) ? data.user : {};
+  return {
+    token: data.accessToken,
+    user: typeof u.username === "string" ? u.username : username,
+    displayName: typeof u.displayName === "string" ? u.displayName : undefined,
+    role: isRole(u.role) ? u.role : "operator",
+    expiresAt
+  };
+}
+
+export async function login(username: string, password: string): Promise<Session> {
+  const data = await requestJSON(`${AUTH_BASE}/api/auth/login`, {
+    method: "POST",
+    json: { username, password },
+    timeoutMs: TIMEOUTS.auth,
+    anonymous: true
+  });
+  const session = toSession(data, username);
+  setSession(session);
+  return session;
+}
+
+/** Zneplatní token na BE; lokálnu reláciu zruší vždy, aj keď BE neodpovie. */
+export async function logout() {
+  if (getToken()) {
+    await requestJSON(`${AUTH_BASE}/api/auth/logout`, {
+      method: "POST",
+      timeoutMs: TIMEOUTS.auth
+    }).catch(() => null);
+  }
+  clearSession("logout");
+}
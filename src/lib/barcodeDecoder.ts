@@ -0,0 +1,261 @@
+// src/lib/barcodeDecoder.ts
+import { checkDigitError } from "./gs1";
+
+// ===== vlastný dekodér 1D kódov (EAN-13, EAN-8, UPC-A, Code 128) =====
+// Záloha tam, kde prehliadač nemá BarcodeDetector. Číta vodorovné aj zvislé
+// riadky obrázka, každý prevedie na šírky pruhov a skúša vzory v oboch smeroch.
+export type DecodedFormat = "EAN_13" | "EAN_8" | "UPC_A" | "CODE_128";
+
+export type DecodedBarcode = {
+  format: DecodedFormat;
+  value: string;
+  /** Code 128 s FNC1 na začiatku (GS1-128); oddeľovače polí sú znak GS (\x1d) */
+  gs1?: boolean;
+};
+
+export type GrayImage = { data: Uint8Array; width: number; height: number };
+
+/** koľko riadkov / stĺpcov prečítať */
+const SCAN_LINES = 24;
+/** minimálny kontrast riadku (0..255), inak ho preskočíme */
+const MIN_CONTRAST = 48;
+/** najväčšia súčtová odchýlka šírok od vzoru (v moduloch) */
+const MAX_EAN_DIST = 1.6;
+const MAX_C128_DIST = 2.2;
+
+export function toGray(img: { data: Uint8ClampedArray; width: number; height: number }): GrayImage {
+  const out = new Uint8Array(img.width * img.height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    out[i] = (img.data[p] * 77 + img.data[p + 1] * 150 + img.data[p + 2] * 29) >> 8;
+  }
+  return { data: out, width: img.width, height: img.height };
+}
+
+/** šírky striedavých pruhov; prvý je vždy tmavý, svetlé okraje sa zahodia */
+export function toRuns(line: ArrayLike<number>): number[] | null {
+  let min = 255;
+  let max = 0;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] < min) min = line[i];
+    if (line[i] > max) max = line[i];
+  }
+  if (max - min < MIN_CONTRAST) return null;
+  const thr = (min + max) / 2;
+
+  const runs: number[] = [];
+  let dark = false;
+  let len = 0;
+  for (let i = 0; i < line.length; i++) {
+    const d = line[i] < thr;
+    if (!runs.length && !len && !d) continue; // svetlý okraj na začiatku
+    if (d === dark) len++;
+    else {
+      if (len) runs.push(len);
+      dark = d;
+      len = 1;
+    }
+  }
+  if (len && dark) runs.push(len);
+  return runs.length > 1 ? runs : null;
+}
+
+/** súčtová odchýlka šírok (normalizovaných na `modules`) od vzoru */
+function distance(runs: number[], at: number, pattern: number[], modules: number): number {
+  let total = 0;
+  for (let k = 0; k < pattern.length; k++) total += runs[at + k];
+  if (!total) return Infinity;
+  let dist = 0;
+  for (let k = 0; k < pattern.length; k++) {
+    dist += Math.abs((runs[at + k] * modules) / total - pattern[k]);
+  }
+  return dist;
+}
+
+function best(runs: number[], at: number, table: number[][], modules: number, max: number) {
+  let idx = -1;
+  let min = max;
+  table.forEach((p, i) => {
+    const d = distance(runs, at, p, modules);
+    if (d < min) {
+      min = d;
+      idx = i;
+    }
+  });
+  return idx;
+}
+
+const widths = (s: string) => [...s].map(Number);
+
+// ===== EAN / UPC =====
+const EAN_L = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"].map(widths);
+const EAN_G = EAN_L.map((p) => [...p].reverse());
+/** parita ľavej polovice EAN-13 → prvá číslica */
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+function guardOk(runs: number[], at: number, count: number): boolean {
+  const g = runs.slice(at, at + count);
+  if (g.length < count) return false;
+  return Math.max(...g) <= 2.5 * Math.min(...g);
+}
+
+const eanChecksumOk = (digits: number[]) => !checkDigitError(digits.join(""));
+
+function decodeEan(runs: number[], at: number, half: 4 | 6): DecodedBarcode | null {
+  const need = 3 + 4 * half + 5 + 4 * half + 3;
+  if (at + need > runs.length || !guardOk(runs, at, 3)) return null;
+
+  let j = at + 3;
+  const digits: number[] = [];
+  let parity = "";
+  for (let k = 0; k < half; k++, j += 4) {
+    const l = best(runs, j, EAN_L, 7, MAX_EAN_DIST);
+    const g = half === 6 ? best(runs, j, EAN_G, 7, MAX_EAN_DIST) : -1;
+    if (l < 0 && g < 0) return null;
+    const useG =
+      g >= 0 && (l < 0 || distance(runs, j, EAN_G[g], 7) < distance(runs, j, EAN_L[l], 7));
+    digits.push(useG ? g : l);
+    parity += useG ? "G" : "L";
+  }
+  if (!guardOk(runs, j, 5)) return null;
+  j += 5;
+  for (let k = 0; k < half; k++, j += 4) {
+    const r = best(runs, j, EAN_L, 7, MAX_EAN_DIST);
+    if (r < 0) return null;
+    digits.push(r);
+  }
+  if (!guardOk(runs, j, 3)) return null;
+
+  if (half === 4) {
+    return eanChecksumOk(digits) ? { format: "EAN_8", value: digits.join("") } : null;
+  }
+  const first = EAN_PARITY.indexOf(parity);
+  if (first < 0) return null;
+  const all = [first, ...digits];
+  if (!eanChecksumOk(all)) return null;
+  return first === 0
+    ? { format: "UPC_A", value: all.slice(1).join("") }
+    : { format: "EAN_13", value: all.join("") };
+}
+
+// ===== Code 128 =====
+const C128 = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232"
+].map(widths);
+const C128_STOP = widths("2331112");
+const START_A = 103;
+const START_C = 105;
+const FNC1 = 102;
+const GS = "\x1d";
+
+/** najmenší svetlý okraj za stop vzorom (v moduloch; norma žiada 10) */
+const C128_QUIET = 5;
+
+/**
+ * Stop na pozícii `at`: sedí lepšie ako najlepší dátový znak (`dataDist`)
+ * a za jeho 7 pruhmi riadok končí alebo nasleduje svetlý okraj.
+ */
+function isStop(runs: number[], at: number, dataDist: number): boolean {
+  if (at + 7 > runs.length) return false;
+  const d = distance(runs, at, C128_STOP, 13);
+  if (d >= MAX_C128_DIST || d >= dataDist) return false;
+  if (at + 7 === runs.length) return true;
+  let total = 0;
+  for (let k = 0; k < 7; k++) total += runs[at + k];
+  return (runs[at + 7] * 13) / total >= C128_QUIET;
+}
+
+function decodeCode128(runs: number[], at: number): DecodedBarcode | null {
+  const start = best(runs, at, C128, 11, MAX_C128_DIST);
+  if (start < START_A) return null;
+
+  const symbols: number[] = [];
+  let j = at + 6;
+  for (;;) {
+    if (j + 6 > runs.length || symbols.length > 80) return null;
+    const s = best(runs, j, C128, 11, MAX_C128_DIST);
+    if (isStop(runs, j, s < 0 ? MAX_C128_DIST : distance(runs, j, C128[s], 11))) break;
+    if (s < 0 || s >= START_A) return null;
+    symbols.push(s);
+    j += 6;
+  }
+  if (symbols.length < 2) return null;
+
+  const check = symbols.pop()!;
+  const sum = symbols.reduce((acc, v, i) => acc + v * (i + 1), start);
+  if (sum % 103 !== check) return null;
+
+  let set: "A" | "B" | "C" = start === START_A ? "A" : start === START_C ? "C" : "B";
+  let shift = false;
+  let gs1 = false;
+  let out = "";
+  symbols.forEach((v, i) => {
+    const cur = shift ? (set === "A" ? "B" : "A") : set;
+    shift = false;
+    if (v === FNC1) {
+      if (i === 0) gs1 = true;
+      else out += GS;
+      return;
+    }
+    if (cur === "C") {
+      if (v < 100) out += String(v).padStart(2, "0");
+      else if (v === 100) set = "B";
+      else if (v === 101) set = "A";
+      return;
+    }
+    if (v < 96) {
+      out += cur === "A" && v >= 64 ? String.fromCharCode(v - 64) : String.fromCharCode(v + 32);
+      return;
+    }
+    if (v === 98) shift = true;
+    else if (v === 99) set = "C";
+    else if (v === 100 && cur === "A") set = "B";
+    else if (v === 101 && cur === "B") set = "A";
+    // FNC2 / FNC3 / FNC4 ignorujeme
+  });
+  return { format: "CODE_128", value: out, gs1 };
+}
+
+/** všetky kódy v jednom riadku (oba smery) */
+export function decodeRuns(runs: number[]): DecodedBarcode[] {
+  const found: DecodedBarcode[] = [];
+  // riadok začína aj končí tmavým pruhom, takže obrátený je čitateľný rovnako
+  for (const r of [runs, [...runs].reverse()]) {
+    for (let i = 0; i < r.length; i += 2) {
+      const hit = decodeEan(r, i, 6) ?? decodeEan(r, i, 4) ?? decodeCode128(r, i);
+      if (hit) found.push(hit);
+    }
+  }
+  return found;
+}
+
+/** prečíta vodorovné aj zvislé riadky; výsledky bez duplicít */
+export function decodeGray(img: GrayImage, lines = SCAN_LINES): DecodedBarcode[] {
+  const seen = new Map<string, DecodedBarcode>();
+  const add = (line: ArrayLike<number>) => {
+    const runs = toRuns(line);
+    if (!runs) return;
+    for (const d of decodeRuns(runs)) seen.set(`${d.format}|${d.value}`, d);
+  };
+
+  for (let k = 1; k <= lines; k++) {
+    const y = Math.floor((k * img.height) / (lines + 1));
+    add(img.data.subarray(y * img.width, (y + 1) * img.width));
+  }
+  const col = new Uint8Array(img.height);
+  for (let k = 1; k <= lines; k++) {
+    const x = Math.floor((k * img.width) / (lines + 1));
+    for (let y = 0; y < img.height; y++) col[y] = img.data[y * img.width + x];
+    add(col);
+  }
+  return [...seen.values()];
+}
@@ -0,0 +1,122 @@
+// src/lib/camera.ts
+
+// ===== výber kamery a jej nastavenia (pamätajú sa pre stanicu) =====
+export type CameraResolution = "auto" | "1280x720" | "1920x1080" | "2560x1440" | "3840x2160";
+
+export type CameraPrefs = {
+  /** "" = zadná kamera podľa facingMode */
+  deviceId: string;
+  resolution: CameraResolution;
+  /** null = predvolený zoom kamery */
+  zoom: number | null;
+  /** null = automatické ostrenie */
+  focusDistance: number | null;
+  torch: boolean;
+};
+
+export const RESOLUTION_LABELS: Record<CameraResolution, string> = {
+  auto: "Automaticky",
+  "1280x720": "1280 × 720 (HD)",
+  "1920x1080": "1920 × 1080 (Full HD)",
+  "2560x1440": "2560 × 1440",
+  "3840x2160": "3840 × 2160 (4K)"
+};
+
+const KEY = "etis_camera";
+
+export const DEFAULT_CAMERA_PREFS: CameraPrefs = {
+  deviceId: "",
+  resolution: "auto",
+  zoom: null,
+  focusDistance: null,
+  torch: false
+};
+
+export function loadCameraPrefs(): CameraPrefs {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (raw) return { ...DEFAULT_CAMERA_PREFS, ...JSON.parse(raw) };
+  } catch {
+    // poškodené nastavenia – ideme s predvolenými
+  }
+  return { ...DEFAULT_CAMERA_PREFS };
+}
+
+export function saveCameraPrefs(p: CameraPrefs) {
+  localStorage.setItem(KEY, JSON.stringify(p));
+}
+
+/** obmedzenia pre getUserMedia – zariadenie a rozlíšenie */
+export function videoConstraints(p: CameraPrefs): MediaTrackConstraints {
+  const c: MediaTrackConstraints = p.deviceId
+    ? { deviceId: { exact: p.deviceId } }
+    : { facingMode: "environment" };
+  if (p.resolution !== "auto") {
+    const [width, height] = p.resolution.split("x").map(Number);
+    c.width = { ideal: width };
+    c.height = { ideal: height };
+  }
+  return c;
+}
+
+// ===== zoom / ostrenie / prisvetlenie (Image Capture rozšírenia, zatiaľ nie sú v lib.dom) =====
+type NumRange = { min: number; max: number; step?: number };
+
+export type TrackControls = {
+  zoom?: NumRange;
+  focusDistance?: NumRange;
+  /** kamera vie prepnúť na manuálne ostrenie */
+  manualFocus: boolean;
+  torch: boolean;
+};
+
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  zoom?: NumRange;
+  focusDistance?: NumRange;
+  focusMode?: string[];
+  torch?: boolean;
+};
+
+type ExtendedConstraintSet = MediaTrackConstraintSet & {
+  zoom?: number;
+  focusMode?: string;
+  focusDistance?: number;
+  torch?: boolean;
+};
+
+/** čo z ovládania kamera naozaj podporuje */
+export function trackControls(track: MediaStreamTrack): TrackControls {
+  const caps = (track.getCapabilities?.() ?? {}) as ExtendedCapabilities;
+  const range = (r?: NumRange) => (r && r.max > r.min ? r : undefined);
+  return {
+    zoom: range(caps.zoom),
+    focusDistance: range(caps.focusDistance),
+    manualFocus: !!caps.focusMode?.includes("manual"),
+    torch: !!caps.torch
+  };
+}
+
+/** nastaví zoom / ostrenie / prisvetlenie; nepodporované vynechá */
+export async function applyTrackPrefs(track: MediaStreamTrack, p: CameraPrefs, ctl: TrackControls) {
+  const set: ExtendedConstraintSet = {};
+  if (ctl.zoom && p.zoom !== null) {
+    set.zoom = Math.min(ctl.zoom.max, Math.max(ctl.zoom.min, p.zoom));
+  }
+  if (ctl.manualFocus && ctl.focusDistance) {
+    if (p.focusDistance === null) set.focusMode = "continuous";
+    else {
+      set.focusMode = "manual";
+      set.focusDistance = p.focusDistance;
+    }
+  }
+  if (ctl.torch) set.torch = p.torch;
+  if (!Object.keys(set).length) return;
+  await track.applyConstraints({ advanced: [set] } as MediaTrackConstraints);
+}
+
+/** zoznam kamier; názvy sú dostupné až po povolení kamery */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const all = await navigator.mediaDevices.enumerateDevices();
+  return all.filter((d) => d.kind === "videoinput");
+}
@@ -0,0 +1,24 @@
+// src/lib/capture.ts
+import { assessCanvas, type AssessOptions, type ImageQuality } from "./imageQuality";
+
+// ===== hotový snímok etikety (z kamery aj zo súboru) → súbor pre BE, náhľad a kvalita =====
+export type CapturedLabel = { file: File; previewUrl: string; quality: ImageQuality };
+
+/**
+ * `straightened` = snímok je orezaný presne na etiketu (vyrovnaná perspektíva
+ * alebo ručný orez), zaplnenie rámika sa potom nehodnotí.
+ */
+export async function captureCanvas(
+  canvas: HTMLCanvasElement,
+  opts: AssessOptions
+): Promise<CapturedLabel | null> {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob((b) => resolve(b), "image/jpeg", 0.92)
+  );
+  if (!blob) return null;
+  return {
+    file: new File([blob], "label.jpg", { type: "image/jpeg" }),
+    previewUrl: canvas.toDataURL("image/jpeg", 0.8),
+    quality: assessCanvas(canvas, opts)
+  };
+}
@@ -0,0 +1,140 @@
+// src/lib/clientBarcodes.ts
+import { decodeGray, toGray } from "./barcodeDecoder";
+import { barcodeKey, barcodesMatch } from "./gs1";
+import { loadImage } from "./labelHelpers";
+import type { BcItem, LabelView } from "./types";
+
+// ===== čítanie kódov v prehliadači – záloha a kontrola výsledku z BE =====
+export type ClientDecoder = "native" | "builtin";
+
+export type ClientBarcode = { format: string; value: string; gs1?: boolean };
+
+export type ClientScan = { decoder: ClientDecoder; items: ClientBarcode[] };
+
+export type ClientBarcodes = { master: ClientScan | null; scan: ClientScan | null };
+
+/** dlhšia strana obrázka pri dekódovaní – väčšie sa zmenší */
+const MAX_SIDE = 2000;
+
+// BarcodeDetector zatiaľ nie je v lib.dom
+type NativeDetector = { detect: (src: CanvasImageSource) => Promise<{ format: string; rawValue: string }[]> };
+type NativeDetectorCtor = {
+  new (opts?: { formats: string[] }): NativeDetector;
+  getSupportedFormats: () => Promise<string[]>;
+};
+
+const WANTED_FORMATS = ["ean_13", "ean_8", "upc_a", "code_128", "qr_code", "data_matrix"];
+
+let nativePromise: Promise<NativeDetector | null> | null = null;
+
+function nativeDetector(): Promise<NativeDetector | null> {
+  if (nativePromise) return nativePromise;
+  const Ctor = (globalThis as { BarcodeDetector?: NativeDetectorCtor }).BarcodeDetector;
+  nativePromise = !Ctor
+    ? Promise.resolve(null)
+    : Ctor.getSupportedFormats()
+        .then((supported) => {
+          const formats = WANTED_FORMATS.filter((f) => supported.includes(f));
+          return formats.length ? new Ctor({ formats }) : null;
+        })
+        .catch(() => null);
+  return nativePromise;
+}
+
+async function toCanvas(url: string): Promise<HTMLCanvasElement> {
+  const img = await loadImage(url);
+  const scale = Math.min(1, MAX_SIDE / Math.max(img.width, img.height));
+  const c = document.createElement("canvas");
+  c.width = Math.round(img.width * scale);
+  c.height = Math.round(img.height * scale);
+  c.getContext("2d")!.drawImage(img, 0, 0, c.width, c.height);
+  return c;
+}
+
+/** kódy v jednom obrázku; natívny detektor, inak (alebo keď nič nenájde) vlastný dekodér */
+export async function decodeImageBarcodes(url: string): Promise<ClientScan> {
+  const canvas = await toCanvas(url);
+  const native = await nativeDetector();
+  if (native) {
+    const hits = await native.detect(canvas).catch(() => []);
+    if (hits.length) {
+      return {
+        decoder: "native",
+        items: hits.map((h) => ({ format: h.format.toUpperCase(), value: h.rawValue }))
+      };
+    }
+  }
+  const ctx = canvas.getContext("2d")!;
+  const gray = toGray(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  const items = decodeGray(gray).map((d) => ({ ...d, format: d.gs1 ? "GS1_128" : d.format }));
+  return { decoder: "builtin", items };
+}
+
+/** master aj scan; chyba jedného obrázka nezhodí druhý */
+export async function readClientBarcodes(masterUrl: string, scanUrl: string): Promise<ClientBarcodes> {
+  const safe = (url: string) =>
+    url
+      ? decodeImageBarcodes(url).catch((e) => {
+          console.warn("Čítanie kódu v prehliadači zlyhalo:", e);
+          return null;
+        })
+      : Promise.resolve(null);
+  const [master, scan] = await Promise.all([safe(masterUrl), safe(scanUrl)]);
+  return { master, scan };
+}
+
+// ===== zlúčenie s výsledkom z BE =====
+const asItem = (d: ClientBarcode) => ({ symbology: d.format, value: d.value });
+
+const SIDE_LABELS = { master: "Master", scan: "Scan" } as const;
+
+export const BC_SOURCE_LABELS: Record<NonNullable<BcItem["source"]>, string> = {
+  backend: "BE",
+  client: "prehliadač",
+  both: "BE + prehliadač"
+};
+
+/**
+ * Pridá kódy prečítané v prehliadači (source "client"), zhodné s BE označí "both"
+ * a nezhody medzi klientom a BE zapíše do `barcodeCheck`.
+ */
+export function mergeClientBarcodes(view: LabelView, client: ClientBarcodes): LabelView {
+  if (!client.master && !client.scan) return view;
+  const items: BcItem[] = (view.barcode || []).map((b) => ({ ...b, source: b.source ?? "backend" }));
+  const disagreements: string[] = [];
+  let decoder: ClientDecoder = "builtin";
+
+  for (const side of ["master", "scan"] as const) {
+    const res = client[side];
+    if (!res) continue;
+    if (res.decoder === "native") decoder = "native";
+    // v1 odpoveď nemá stranu – berieme ju ako scan
+    const fromBe = items.filter((b) => (b.side ?? "scan") === side && b.source !== "client");
+
+    for (const d of res.items) {
+      const key = barcodeKey(asItem(d));
+      const hit = fromBe.find((b) => barcodeKey(b) === key);
+      if (hit) {
+        hit.source = "both";
+        continue;
+      }
+      items.push({ side, symbology: d.format, value: d.value, valid: true, reason: null, source: "client" });
+      if (fromBe.length) {
+        disagreements.push(`${SIDE_LABELS[side]}: prehliadač prečítal ${d.format} ${d.value}, BE nie`);
+      }
+    }
+
+    // BE kód, ktorý klient v rovnakej symbológii prečítal inak
+    const family = (b: Pick<BcItem, "symbology" | "value">) => barcodeKey(b).split("|")[0];
+    const readFamilies = new Set(res.items.map((d) => family(asItem(d))));
+    for (const b of fromBe) {
+      if (b.source === "backend" && readFamilies.has(family(b))) {
+        disagreements.push(`${SIDE_LABELS[side]}: BE prečítal ${b.symbology} ${b.value}, prehliadač nie`);
+      }
+    }
+  }
+
+  const barcodeMatch = view.barcodeMatch ?? barcodesMatch(items);
+
+  return { ...view, barcode: items, barcodeMatch, barcodeCheck: { decoder, disagreements } };
+}
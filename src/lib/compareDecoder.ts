@@ -0,0 +1,310 @@
+// src/lib/compareDecoder.ts
+import type { BcItem, Box, LabelView, OcrDiff } from "./types";
+import { barcodesMatch } from "./gs1";
+import { dedupeBc, dedupeBoxes, toImgUrl } from "./labelHelpers";
+import { alignTextLines } from "./textDiff";
+
+// ===== známe formáty odpovede BE =====
+//  v2  – compare-one s `barcodes: { master: [], scan: [], match? }`
+//  v1  – compare-one s `barcode: { items: [], match? }`
+//  ocr – len `ocr` a/alebo `graphics` bez čiarových kódov (starý /api/compare)
+export type ResponseFormat = "compare-one/v2" | "compare-one/v1" | "ocr-graphics" | "unknown";
+
+export const FORMAT_LABELS: Record<ResponseFormat, string> = {
+  "compare-one/v2": "compare-one v2 (barcodes.master / barcodes.scan)",
+  "compare-one/v1": "compare-one v1 (barcode.items)",
+  "ocr-graphics": "OCR / grafika bez čiarových kódov",
+  unknown: "neznámy formát"
+};
+
+export type DecodeWarning = {
+  /** cesta k poľu v odpovedi, napr. `graphics.boxes[2]` */
+  path: string;
+  message: string;
+};
+
+export type DecodeResult = {
+  format: ResponseFormat;
+  label: LabelView | null;
+  warnings: DecodeWarning[];
+  raw: unknown;
+};
+
+type Obj = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Obj =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const toNum = (v: unknown): number | undefined => {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim() !== "" && Number.isFinite(Number(v)))
+    return Number(v);
+  return undefined;
+};
+
+const toStr = (v: unknown): string | undefined =>
+  typeof v === "string" ? v : typeof v === "number" ? String(v) : undefined;
+
+export function detectFormat(raw: unknown): ResponseFormat {
+  if (!isObj(raw)) return "unknown";
+  if (isObj(raw.barcodes)) return "compare-one/v2";
+  if (isObj(raw.barcode)) return "compare-one/v1";
+  if (isObj(raw.ocr) || isObj(raw.graphics)) return "ocr-graphics";
+  return "unknown";
+}
+
+// ===== jednotlivé časti =====
+type Warn = (path: string, message: string) => void;
+
+function decodeBox(b: unknown, path: string, warn: Warn): Box | null {
+  // [x, y, w, h]
+  if (Array.isArray(b)) {
+    const [x, y, w, h] = b.map(toNum);
+    if (x === undefined || y === undefined || w === undefined || h === undefined) {
+      warn(path, "box ako pole nemá 4 čísla – preskočený");
+      return null;
+    }
+    return { x, y, w, h, type: "diff", subType: null, desc: "Rozdiel" };
+  }
+  if (!isObj(b)) {
+    warn(path, "box nie je objekt ani pole – preskočený");
+    return null;
+  }
+  const x = toNum(b.x);
+  const y = toNum(b.y);
+  if (x === undefined || y === undefined) {
+    warn(path, "chýba x/y – preskočený");
+    return null;
+  }
+  let w = toNum(b.w);
+  let h = toNum(b.h);
+  if (w === undefined || h === undefined) {
+    warn(path, "chýba w/h – použité 1×1");
+    w = w ?? 1;
+    h = h ?? 1;
+  }
+  return {
+    x,
+    y,
+    w,
+    h,
+    type: "diff",
+    subType: toStr(b.subType) ?? null,
+    desc: toStr(b.desc) || "Rozdiel"
+  };
+}
+
+function decodeBoxes(raw: Obj, warn: Warn): Box[] {
+  if (raw.graphics === undefined) {
+    warn("graphics", "chýba – grafické rozdiely nie sú k dispozícii");
+    return [];
+  }
+  if (!isObj(raw.graphics)) {
+    warn("graphics", "nie je objekt");
+    return [];
+  }
+  const arr = raw.graphics.boxes;
+  if (arr === undefined) return [];
+  if (!Array.isArray(arr)) {
+    warn("graphics.boxes", "nie je pole");
+    return [];
+  }
+  const boxes = arr
+    .map((b, i) => decodeBox(b, `graphics.boxes[${i}]`, warn))
+    .filter((b): b is Box => b !== null);
+  return dedupeBoxes(boxes, 0.9);
+}
+
+function decodeOcrDiff(d: unknown, path: string, warn: Warn): OcrDiff | null {
+  if (!isObj(d)) {
+    warn(path, "nie je objekt – preskočený");
+    return null;
+  }
+  const line = toNum(d.line);
+  if (line === undefined) warn(path, "chýba číslo riadku");
+  const diff: OcrDiff = {
+    line: line ?? 0,
+    master: toStr(d.master) ?? "",
+    scan: toStr(d.scan) ?? ""
+  };
+  if (d.kind === "change" || d.kind === "insert" || d.kind === "delete") diff.kind = d.kind;
+  else if (d.kind !== undefined) warn(`${path}.kind`, "neznámy druh – určený z textu");
+  const scanLine = toNum(d.scanLine);
+  if (scanLine !== undefined) diff.scanLine = scanLine;
+  const box = d.box ?? d.bbox;
+  if (box !== undefined) {
+    const b = decodeBox(box, `${path}.box`, warn);
+    if (b) diff.box = { x: b.x, y: b.y, w: b.w, h: b.h };
+  }
+  return diff;
+}
+
+function decodeOcr(
+  raw: Obj,
+  warn: Warn
+): { ocrMaster: string; ocrScan: string; ocrDiffs: OcrDiff[] } {
+  if (raw.ocr === undefined) {
+    warn("ocr", "chýba – text nebol vyhodnotený");
+    return { ocrMaster: "", ocrScan: "", ocrDiffs: [] };
+  }
+  if (!isObj(raw.ocr)) {
+    warn("ocr", "nie je objekt");
+    return { ocrMaster: "", ocrScan: "", ocrDiffs: [] };
+  }
+  const ocr = raw.ocr;
+  const ocrMaster = toStr(ocr.masterText);
+  const ocrScan = toStr(ocr.scanText);
+  if (ocrMaster === undefined) warn("ocr.masterText", "chýba alebo nie je text");
+  if (ocrScan === undefined) warn("ocr.scanText", "chýba alebo nie je text");
+
+  let ocrDiffs: OcrDiff[];
+  if (Array.isArray(ocr.diffs)) {
+    ocrDiffs = ocr.diffs
+      .map((d, i) => decodeOcrDiff(d, `ocr.diffs[${i}]`, warn))
+      .filter((d): d is OcrDiff => d !== null);
+  } else {
+    if (ocr.diffs !== undefined) warn("ocr.diffs", "nie je pole");
+    warn("ocr.diffs", "dopočítané lokálne zarovnaným porovnaním riadkov");
+    ocrDiffs = alignTextLines(ocrMaster ?? "", ocrScan ?? "");
+  }
+  return { ocrMaster: ocrMaster ?? "", ocrScan: ocrScan ?? "", ocrDiffs };
+}
+
+function decodeBcItem(
+  b: unknown,
+  path: string,
+  warn: Warn,
+  side: BcItem["side"],
+  defaultValid: boolean
+): BcItem | null {
+  if (!isObj(b)) {
+    warn(path, "nie je objekt – preskočený");
+    return null;
+  }
+  const symbology = toStr(b.symbology) ?? toStr(b.type);
+  const value = toStr(b.value) ?? toStr(b.data) ?? toStr(b.text);
+  if (!symbology) warn(path, "chýba symbology/type");
+  if (!value) warn(path, "chýba hodnota (value/data/text)");
+  if (b.valid !== undefined && typeof b.valid !== "boolean")
+    warn(`${path}.valid`, "nie je boolean");
+  const item: BcItem = {
+    symbology: symbology || "-",
+    value: value || "-",
+    valid: typeof b.valid === "boolean" ? b.valid : defaultValid,
+    reason: toStr(b.reason) || null
+  };
+  if (side) item.side = side;
+  return item;
+}
+
+function decodeBcArray(
+  arr: unknown,
+  path: string,
+  warn: Warn,
+  side: BcItem["side"],
+  defaultValid: boolean
+): BcItem[] {
+  if (arr === undefined) return [];
+  if (!Array.isArray(arr)) {
+    warn(path, "nie je pole");
+    return [];
+  }
+  return arr
+    .map((b, i) => decodeBcItem(b, `${path}[${i}]`, warn, side, defaultValid))
+    .filter((b): b is BcItem => b !== null);
+}
+
+function decodeMatch(v: unknown, path: string, warn: Warn): boolean | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (typeof v === "boolean") return v;
+  warn(path, "nie je boolean – ignorované");
+  return undefined;
+}
+
+function decodeBarcodes(
+  raw: Obj,
+  format: ResponseFormat,
+  warn: Warn
+): { items: BcItem[]; match?: boolean } {
+  if (format === "compare-one/v1") {
+    const bc = raw.barcode as Obj;
+    if (bc.items === undefined) warn("barcode.items", "chýba");
+    // v1 posiela valid explicitne, chýbajúci = neplatný
+    const items = decodeBcArray(bc.items, "barcode.items", warn, undefined, false);
+    return { items, match: decodeMatch(bc.match, "barcode.match", warn) };
+  }
+
+  if (format === "compare-one/v2") {
+    const bc = raw.barcodes as Obj;
+    if (bc.master === undefined) warn("barcodes.master", "chýba");
+    if (bc.scan === undefined) warn("barcodes.scan", "chýba");
+    const master = decodeBcArray(bc.master, "barcodes.master", warn, "master", true);
+    const scan = decodeBcArray(bc.scan, "barcodes.scan", warn, "scan", true);
+    let match = decodeMatch(bc.match, "barcodes.match", warn);
+    if (match === undefined && master.length && scan.length) {
+      match = barcodesMatch([...master, ...scan]);
+      warn("barcodes.match", "chýba – zhoda dopočítaná z hodnôt (GS1 po poliach)");
+    }
+    return { items: [...master, ...scan], match };
+  }
+
+  return { items: [] };
+}
+
+// ===== hlavný dekodér =====
+export function decodeCompareResponse(
+  raw: unknown,
+  opts: { fallbackImage: string }
+): DecodeResult {
+  const warnings: DecodeWarning[] = [];
+  const warn: Warn = (path, message) => warnings.push({ path, message });
+
+  const format = detectFormat(raw);
+  if (format === "unknown" || !isObj(raw)) {
+    warn("", isObj(raw) ? "odpoveď neobsahuje ocr / barcode / barcodes / graphics" : "odpoveď nie je JSON objekt");
+    return { format, label: null, warnings, raw };
+  }
+
+  let image = toStr(raw.image);
+  if (!image) {
+    warn("image", "chýba – zobrazený lokálny snímok etikety");
+    image = opts.fallbackImage;
+  }
+
+  const w = toNum(raw.w) ?? toNum(raw.width);
+  const h = toNum(raw.h) ?? toNum(raw.height);
+  if (w === undefined || h === undefined)
+    warn("w/h", "chýba rozmer obrázka – mierka podľa náhľadu");
+
+  const boxes = decodeBoxes(raw, warn);
+  const { ocrMaster, ocrScan, ocrDiffs } = decodeOcr(raw, warn);
+  const { items, match } = decodeBarcodes(raw, format, warn);
+
+  return {
+    format,
+    label: {
+      url: toImgUrl(image),
+      w: w ?? 0,
+      h: h ?? 0,
+      boxes,
+      ocrMaster,
+      ocrScan,
+      ocrDiffs,
+      barcode: dedupeBc(items),
+      barcodeMatch: match
+    },
+    warnings,
+    raw
+  };
+}
+
+// ===== celý hárok (starý /api/compare s rows × cols) =====
+/**
+ * Výsledky po etiketách z `labels` alebo `results` (po riadkoch); BE, ktorý
+ * vráti len jeden výsledok, dá jednu položku za celý hárok.
+ */
+export function decodeSheetResponse(raw: unknown, opts: { fallbackImage: string }): DecodeResult[] {
+  const list = isObj(raw) ? (raw.labels ?? raw.results) : undefined;
+  if (!Array.isArray(list) || !list.length) return [decodeCompareResponse(raw, opts)];
+  return list.map((item) => decodeCompareResponse(item, opts));
+}
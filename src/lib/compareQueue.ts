@@ -0,0 +1,207 @@
+// src/lib/compareQueue.ts
+import {
+  ApiError,
+  BACKENDS,
+  isUnauthorized,
+  isUnreachable,
+  requestJSON,
+  type BackendId
+} from "./apiClient";
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut, idbUpdate } from "./idb";
+import type { QualityOverride } from "./imageQuality";
+import type { SheetRef } from "./sheet";
+import { getToken } from "./session";
+
+// ===== offline fronta porovnaní =====
+// Tvar záznamu číta aj public/sw.js (Background Sync) – meniť len spolu.
+export const QUEUE_SYNC_TAG = "compare-queue";
+export const QUEUE_CHANNEL = "scancontroll-queue";
+
+/** záznam "sending" starší ako toto sa považuje za prerušený */
+const SENDING_STALE_MS = 2 * 60 * 1000;
+
+export type QueuedEndpoint = {
+  backend: BackendId;
+  path: string;
+  /** plná URL – SW nepozná VITE_* premenné */
+  url: string;
+  timeoutMs: number;
+};
+
+export const queuedEndpoint = (
+  backend: BackendId,
+  path: string,
+  timeoutMs: number
+): QueuedEndpoint => ({ backend, path, url: `${BACKENDS[backend].base}${path}`, timeoutMs });
+
+export type QueuedCompare = {
+  id: string;
+  createdAt: number;
+  status: "pending" | "sending" | "done" | "failed";
+  /** kedy sa začalo posielanie (zámok medzi stránkou a SW) */
+  sendingAt?: number;
+  attempts: number;
+  lastError?: string;
+  meta: {
+    operator: string;
+    orderNumber: string;
+    productNumber: string;
+    qualityOverride?: QualityOverride;
+    sheet?: SheetRef;
+    runId?: string;
+  };
+  /** textové polia formulára */
+  fields: Record<string, string>;
+  /** súbory formulára */
+  files: { name: string; blob: Blob; filename: string }[];
+  /** náhľady (pre históriu; etiketa aj ako fallback obrázok pre dekodér) */
+  masterUrl: string;
+  etiketaUrl: string;
+  /** text mastra z PDF podkladov – nahradí OCR mastra aj pri neskoršom doručení */
+  masterText?: string;
+  /** v poradí failoveru */
+  endpoints: QueuedEndpoint[];
+  /** token v čase zaradenia – SW nemá prístup k localStorage */
+  token: string | null;
+  result?: { data: unknown; backend: BackendId; path: string; finishedAt: number };
+};
+
+export type EnqueueInput = Pick<
+  QueuedCompare,
+  "meta" | "fields" | "files" | "masterUrl" | "etiketaUrl" | "masterText" | "endpoints"
+>;
+
+function notifyQueueChanged() {
+  if (typeof BroadcastChannel === "undefined") return;
+  const ch = new BroadcastChannel(QUEUE_CHANNEL);
+  ch.postMessage({ type: "changed" });
+  ch.close();
+}
+
+export async function listQueue(): Promise<QueuedCompare[]> {
+  const all = await idbGetAll<QueuedCompare>(STORES.queue);
+  return all.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function enqueueCompare(input: EnqueueInput): Promise<QueuedCompare> {
+  const entry: QueuedCompare = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    status: "pending",
+    attempts: 0,
+    token: getToken()
+  };
+  await idbPut(STORES.queue, entry);
+  notifyQueueChanged();
+  // prehranie beží na pozadí – bez Background Sync by čakalo na timeouty nedostupných BE
+  requestSync().catch(() => {});
+  return entry;
+}
+
+export async function removeQueued(id: string) {
+  await idbDelete(STORES.queue, id);
+  notifyQueueChanged();
+}
+
+/** označí záznam ako zlyhaný (napr. BE vrátil nepoužiteľný výsledok) */
+export async function failQueued(id: string, reason: string) {
+  const e = await idbGet<QueuedCompare>(STORES.queue, id);
+  if (!e) return;
+  await idbPut(STORES.queue, { ...e, status: "failed", lastError: reason });
+  notifyQueueChanged();
+}
+
+/** zlyhaný záznam vráti do fronty s aktuálnym tokenom */
+export async function retryQueued(id: string) {
+  const e = await idbGet<QueuedCompare>(STORES.queue, id);
+  if (!e) return;
+  await idbPut(STORES.queue, { ...e, status: "pending", lastError: undefined, token: getToken() });
+  notifyQueueChanged();
+  await requestSync();
+}
+
+// SyncManager zatiaľ nie je v lib.dom
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Naplánuje prehranie fronty – cez Background Sync, ak ho prehliadač má,
+ * inak (alebo ak sme online a stránka je otvorená) ju prehrá hneď.
+ */
+export async function requestSync() {
+  try {
+    const reg = await navigator.serviceWorker?.getRegistration();
+    const sync = (reg as SyncRegistration | undefined)?.sync;
+    if (sync) {
+      await sync.register(QUEUE_SYNC_TAG);
+      return;
+    }
+  } catch {
+    // bez SW / sync – prehráme sami
+  }
+  if (navigator.onLine) await flushQueue();
+}
+
+const isLocked = (e: QueuedCompare) =>
+  e.status === "sending" && !!e.sendingAt && Date.now() - e.sendingAt < SENDING_STALE_MS;
+
+/** záznam si zamkne na odoslanie; null = medzitým ho prevzal SW alebo iná karta */
+const claimQueued = (id: string) =>
+  idbUpdate<QueuedCompare>(STORES.queue, id, (e) =>
+    e && (e.status === "pending" || (e.status === "sending" && !isLocked(e)))
+      ? { ...e, status: "sending", sendingAt: Date.now() }
+      : null
+  );
+
+let flushing = false;
+
+/** Prehranie fronty zo stránky (fallback bez Background Sync). */
+export async function flushQueue() {
+  if (flushing) return;
+  flushing = true;
+  try {
+    const entries = await listQueue();
+    for (const { id } of entries) {
+      const entry = await claimQueued(id);
+      if (!entry) continue;
+      notifyQueueChanged();
+
+      const fd = new FormData();
+      Object.entries(entry.fields).forEach(([k, v]) => fd.append(k, v));
+      entry.files.forEach((f) => fd.append(f.name, f.blob, f.filename));
+
+      let next: QueuedCompare = { ...entry, attempts: entry.attempts + 1, sendingAt: undefined };
+      let lastErr: unknown = null;
+      for (const ep of entry.endpoints) {
+        try {
+          const data = await requestJSON(ep.url, { method: "POST", body: fd, timeoutMs: ep.timeoutMs });
+          next = {
+            ...next,
+            status: "done",
+            lastError: undefined,
+            result: { data, backend: ep.backend, path: ep.path, finishedAt: Date.now() }
+          };
+          lastErr = null;
+          break;
+        } catch (e) {
+          lastErr = e;
+          if (isUnauthorized(e)) break;
+        }
+      }
+      if (lastErr) {
+        const msg = lastErr instanceof Error ? lastErr.message : String(lastErr);
+        // nedostupný backend → ostáva vo fronte; inak čaká na ručné "Skúsiť znova"
+        next = { ...next, status: isUnreachable(lastErr) ? "pending" : "failed", lastError: msg };
+      }
+      await idbPut(STORES.queue, next);
+      notifyQueueChanged();
+      if (lastErr && isUnreachable(lastErr)) break; // sieť je stále dole
+    }
+  } catch (e) {
+    console.warn("Prehranie fronty zlyhalo:", e instanceof ApiError ? e.message : e);
+  } finally {
+    flushing = false;
+  }
+}
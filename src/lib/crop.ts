@@ -0,0 +1,103 @@
+// src/lib/crop.ts
+
+// ===== orez nahraného obrázka na pomer strán etikety (súradnice v pixeloch obrázka) =====
+export type CropRect = { x: number; y: number; w: number; h: number };
+
+/** roh, za ktorý sa orez ťahá; protiľahlý roh ostáva na mieste */
+export type CropCorner = "nw" | "ne" | "sw" | "se";
+
+export const CROP_CORNERS: CropCorner[] = ["nw", "ne", "sw", "se"];
+
+/** najmenšia šírka orezu v pixeloch obrázka */
+const MIN_CROP = 16;
+/** dlhšia strana výsledného snímku – veľké skeny by zbytočne zaťažili pamäť aj BE */
+export const MAX_CROP_SIDE = 4096;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+/** najväčší orez s pomerom `ar` v strede obrázka; `fill` = časť dostupnej plochy */
+export function fitCrop(imgW: number, imgH: number, ar: number, fill = 0.9): CropRect {
+  const w = Math.min(imgW, imgH * ar) * fill;
+  const h = w / ar;
+  return { x: (imgW - w) / 2, y: (imgH - h) / 2, w, h };
+}
+
+/** posun orezu; nevyjde mimo obrázka */
+export const moveCrop = (r: CropRect, dx: number, dy: number, imgW: number, imgH: number): CropRect => ({
+  ...r,
+  x: clamp(r.x + dx, 0, imgW - r.w),
+  y: clamp(r.y + dy, 0, imgH - r.h)
+});
+
+/** zmena veľkosti ťahaním za roh (px, py = ukazovateľ) pri zachovaní pomeru strán */
+export function resizeCrop(
+  r: CropRect,
+  corner: CropCorner,
+  px: number,
+  py: number,
+  ar: number,
+  imgW: number,
+  imgH: number
+): CropRect {
+  const east = corner.includes("e");
+  const south = corner.includes("s");
+  const ax = east ? r.x : r.x + r.w;
+  const ay = south ? r.y : r.y + r.h;
+
+  const maxW = Math.min(east ? imgW - ax : ax, (south ? imgH - ay : ay) * ar);
+  const w = clamp(Math.max(Math.abs(px - ax), Math.abs(py - ay) * ar), Math.min(MIN_CROP, maxW), maxW);
+  const h = w / ar;
+  return { x: east ? ax : ax - w, y: south ? ay : ay - h, w, h };
+}
+
+/** vyreže obdĺžnik z obrázka / plátna do nového plátna */
+export function cropCanvas(src: CanvasImageSource, r: CropRect): HTMLCanvasElement | null {
+  const scale = Math.min(1, MAX_CROP_SIDE / Math.max(r.w, r.h));
+  const c = document.createElement("canvas");
+  c.width = Math.max(1, Math.round(r.w * scale));
+  c.height = Math.max(1, Math.round(r.h * scale));
+  const ctx = c.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(src, r.x, r.y, r.w, r.h, 0, 0, c.width, c.height);
+  return c;
+}
+
+/** obrázok otočený o 90° v smere hodinových ručičiek */
+export function rotateRight(img: HTMLImageElement | HTMLCanvasElement): HTMLCanvasElement | null {
+  const w = img instanceof HTMLImageElement ? img.naturalWidth : img.width;
+  const h = img instanceof HTMLImageElement ? img.naturalHeight : img.height;
+  const c = document.createElement("canvas");
+  c.width = h;
+  c.height = w;
+  const ctx = c.getContext("2d");
+  if (!ctx) return null;
+  ctx.translate(h, 0);
+  ctx.rotate(Math.PI / 2);
+  ctx.drawImage(img, 0, 0);
+  return c;
+}
+
+// ===== súbory zo schránky / drag & drop =====
+/** prvý obrázok zo schránky alebo pretiahnutých súborov */
+export function imageFromTransfer(dt: DataTransfer | null): File | null {
+  if (!dt) return null;
+  for (const f of Array.from(dt.files)) {
+    if (f.type.startsWith("image/")) return f;
+  }
+  for (const item of Array.from(dt.items ?? [])) {
+    if (item.kind === "file" && item.type.startsWith("image/")) {
+      const f = item.getAsFile();
+      if (f) return f;
+    }
+  }
+  return null;
+}
+
+/** súbor ako data URL (náhľad, ukladanie do histórie) */
+export const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result));
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(file);
+  });
@@ -0,0 +1,126 @@
+// src/lib/defects.ts
+import { compareGs1, formatBarcodeValue } from "./gs1";
+import { BOX_TYPE_LABELS } from "./labelHelpers";
+import type { Session } from "./session";
+import { DIFF_KIND_LABELS, diffKind, diffLineLabel } from "./textDiff";
+import type { LabelView } from "./types";
+
+// ===== jednotlivé nálezy a rozhodnutia o nich (potvrdená chyba / výnimka) =====
+export type DefectArea = "gfx" | "ocr" | "bc";
+
+export type DefectItem = {
+  /** `gfx:3`, `ocr:0`, `bc:1`, `bc:match`, `bc:exp:master` – index do poľa vo view */
+  key: string;
+  area: DefectArea;
+  title: string;
+  detail: string;
+};
+
+export type DefectStatus = "confirmed" | "waived";
+
+export type DefectDecision = {
+  status: DefectStatus;
+  reason: string;
+  /** prihlasovacie meno */
+  by: string;
+  byName?: string;
+  /** epoch ms */
+  at: number;
+};
+
+export type DefectDecisions = Record<string, DefectDecision>;
+
+export const DEFECT_AREA_LABELS: Record<DefectArea, string> = {
+  gfx: "Grafika",
+  ocr: "Text",
+  bc: "Čiarový kód"
+};
+
+export const DEFECT_STATUS_LABELS: Record<DefectStatus, string> = {
+  confirmed: "Potvrdená chyba",
+  waived: "Výnimka"
+};
+
+/** všetky nálezy, ktoré by samé osebe zhodili verdikt */
+export function listDefects(view: LabelView | null): DefectItem[] {
+  if (!view) return [];
+  const out: DefectItem[] = [];
+
+  (view.boxes || []).forEach((b, i) => {
+    if (b.type !== "diff") return;
+    out.push({
+      key: `gfx:${i}`,
+      area: "gfx",
+      title: `#${i + 1} ${BOX_TYPE_LABELS.diff}${b.subType ? ` · ${b.subType}` : ""}`,
+      detail: b.desc || ""
+    });
+  });
+
+  (view.ocrDiffs || []).forEach((d, i) => {
+    // premenlivý text v súlade s pravidlom nie je nález
+    if (d.variable?.valid) return;
+    const rule = d.variable ? ` · ${d.variable.rule}: ${d.variable.reason ?? "porušené"}` : "";
+    out.push({
+      key: `ocr:${i}`,
+      area: "ocr",
+      title: `${diffLineLabel(d)} · ${DIFF_KIND_LABELS[diffKind(d)]}`,
+      detail: `„${d.master || "∅"}“ → „${d.scan || "∅"}“${rule}`
+    });
+  });
+
+  if (view.barcodeMatch === false) {
+    const fields = (compareGs1(view.barcode || []) || [])
+      .filter((r) => !r.equal)
+      .map((r) => `(${r.ai}) ${r.title}: ${r.master ?? "–"} ≠ ${r.scan ?? "–"}`);
+    out.push({ key: "bc:match", area: "bc", title: "Nezhoda Master vs Scan", detail: fields.join("; ") });
+  }
+  (["master", "scan"] as const).forEach((side) => {
+    const missing = view.expectedCheck?.[side].missing;
+    if (!missing?.length) return;
+    out.push({
+      key: `bc:exp:${side}`,
+      area: "bc",
+      title: `${side} · nesedí s očakávaným kódom`,
+      detail: `chýba ${missing.join(", ")}`
+    });
+  });
+  (view.barcode || []).forEach((b, i) => {
+    if (b.valid !== false) return;
+    out.push({
+      key: `bc:${i}`,
+      area: "bc",
+      title: `${b.side ? `${b.side} · ` : ""}${b.symbology} ${formatBarcodeValue(b)}`,
+      detail: b.reason || ""
+    });
+  });
+
+  return out;
+}
+
+export const isWaived = (decisions: DefectDecisions | undefined, key: string) =>
+  decisions?.[key]?.status === "waived";
+
+/** nálezy bez rozhodnutia – čakajú na majstra */
+export const pendingDefects = (view: LabelView | null, decisions?: DefectDecisions) =>
+  listDefects(view).filter((d) => !decisions?.[d.key]);
+
+/** nálezy spolu s rozhodnutím – pre reporty */
+export const decidedDefects = (view: LabelView | null, decisions?: DefectDecisions) =>
+  listDefects(view).flatMap((d) => {
+    const dec = decisions?.[d.key];
+    return dec ? [{ ...d, decision: dec }] : [];
+  });
+
+export function makeDecision(
+  status: DefectStatus,
+  reason: string,
+  session: Pick<Session, "user" | "displayName">
+): DefectDecision {
+  return {
+    status,
+    reason: reason.trim(),
+    by: session.user,
+    byName: session.displayName,
+    at: Date.now()
+  };
+}
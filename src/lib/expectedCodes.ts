@@ -0,0 +1,89 @@
+// src/lib/expectedCodes.ts
+import { barcodeKey, gtin14, parseGs1, symbologyFamily } from "./gs1";
+import { STORES, idbGet, idbPut } from "./idb";
+import type { BcItem, LabelView } from "./types";
+
+// ===== očakávané čiarové kódy podľa produktu (GTIN zo zákazky…) =====
+export type ExpectedCode = {
+  id: string;
+  /** prázdne = ľubovoľná symbológia */
+  symbology: string;
+  value: string;
+};
+
+export type ProductExpectedCodes = {
+  /** veľkými písmenami – kľúč v IndexedDB */
+  productNumber: string;
+  codes: ExpectedCode[];
+  updatedAt: number;
+  updatedBy: string;
+};
+
+export type ExpectedCheck = NonNullable<LabelView["expectedCheck"]>;
+
+export type ExpectedSideCheck = ExpectedCheck["master"];
+
+/** ponuka symbológií v editore */
+export const EXPECTED_SYMBOLOGIES = [
+  "EAN-13",
+  "EAN-8",
+  "UPC-A",
+  "GS1-128",
+  "CODE-128",
+  "GS1-DATAMATRIX",
+  "DATAMATRIX",
+  "QR"
+];
+
+const normProduct = (p: string) => p.trim().toUpperCase();
+
+export async function getExpectedCodes(productNumber: string): Promise<ExpectedCode[]> {
+  const key = normProduct(productNumber);
+  if (!key) return [];
+  const rec = await idbGet<ProductExpectedCodes>(STORES.expectedCodes, key);
+  return rec?.codes ?? [];
+}
+
+export async function saveExpectedCodes(productNumber: string, codes: ExpectedCode[], updatedBy: string) {
+  const key = normProduct(productNumber);
+  if (!key) throw new Error("Chýba číslo produktu");
+  await idbPut<ProductExpectedCodes>(STORES.expectedCodes, {
+    productNumber: key,
+    codes: codes.map((c) => ({ ...c, value: c.value.trim() })).filter((c) => c.value),
+    updatedAt: Date.now(),
+    updatedBy
+  });
+}
+
+export const describeExpected = (e: Pick<ExpectedCode, "symbology" | "value">) =>
+  `${e.symbology || "kód"} ${e.value}`;
+
+/** zodpovedá prečítaný kód očakávanému? GTIN sa porovnáva bez ohľadu na zápis (EAN-13 / AI 01) */
+export function matchesExpected(b: BcItem, e: ExpectedCode): boolean {
+  if (e.symbology) {
+    if (symbologyFamily(b.symbology) !== symbologyFamily(e.symbology)) return false;
+    // GS1-128 / GS1 DataMatrix musí naozaj niesť polia GS1
+    if (/^GS1/i.test(e.symbology) && !parseGs1(b)) return false;
+  }
+  const value = e.value.trim();
+  if (barcodeKey(b) === barcodeKey({ symbology: e.symbology || b.symbology, value })) return true;
+  const g = gtin14(b);
+  return !!g && /^\d{8,14}$/.test(value) && g === value.padStart(14, "0");
+}
+
+/** skontroluje master aj scan voči očakávaným kódom; bez očakávaných kódov view nemení */
+export function applyExpectedCodes(view: LabelView, codes: ExpectedCode[]): LabelView {
+  if (!codes.length) return view;
+  const all = view.barcode || [];
+  // odpoveď so stranami dekódovala obe; bez strán (v1 / legacy) len scan – master nie je chybný, len nečítaný
+  const sided = all.some((b) => b.side);
+  const side = (s: "master" | "scan"): ExpectedSideCheck => {
+    // v1 odpoveď nemá stranu – berieme ju ako scan
+    const items = all.filter((b) => (b.side ?? "scan") === s);
+    if (s === "master" && !items.length && !sided) return { missing: [], unread: true };
+    return {
+      missing: codes.filter((e) => !items.some((b) => matchesExpected(b, e))).map(describeExpected)
+    };
+  };
+  return { ...view, expectedCheck: { codes, master: side("master"), scan: side("scan") } };
+}
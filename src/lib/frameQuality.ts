@@ -0,0 +1,126 @@
+// src/lib/frameQuality.ts
+
+// ===== kvalita živého obrazu kamery (ostrosť, pohyb, expozícia) =====
+export type FrameMetrics = {
+  /** rozptyl Laplaciánu – čím vyšší, tým ostrejšie hrany */
+  sharpness: number;
+  /** priemerný rozdiel jasu oproti predošlému snímku (0..255) */
+  motion: number;
+  /** priemerný jas (0..255) */
+  brightness: number;
+  /** podiel prepálených pixelov (0..1) */
+  clipped: number;
+};
+
+export type QualityThresholds = {
+  minSharpness: number;
+  maxMotion: number;
+  minBrightness: number;
+  maxBrightness: number;
+  maxClipped: number;
+};
+
+export const DEFAULT_THRESHOLDS: QualityThresholds = {
+  minSharpness: 80,
+  maxMotion: 4,
+  minBrightness: 50,
+  maxBrightness: 215,
+  maxClipped: 0.15
+};
+
+export type QualityIssue = "blur" | "motion" | "dark" | "bright";
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  blur: "neostré",
+  motion: "pohyb",
+  dark: "tmavé",
+  bright: "prepálené"
+};
+
+/** šírka analyzovaného výrezu v px – stačí na hrany písma, je to lacné */
+export const ANALYSIS_WIDTH = 320;
+
+/** Centrálne orezanie podľa cieľového pomeru strán (červený rámik v kamere) */
+export function centralCrop(
+  W: number,
+  H: number,
+  targetAR: number
+): { sx: number; sy: number; sw: number; sh: number } {
+  let sw = W * 0.7;
+  let sh = sw / targetAR;
+
+  if (sh > H * 0.7) {
+    sh = H * 0.7;
+    sw = sh * targetAR;
+  }
+
+  const sx = (W - sw) / 2;
+  const sy = (H - sh) / 2;
+  return { sx, sy, sw, sh };
+}
+
+/** jas z RGBA (ImageData) */
+export function grayOf(data: Uint8ClampedArray): Uint8Array {
+  const out = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    out[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8;
+  }
+  return out;
+}
+
+/** metriky jedného snímku; `prev` = jas predošlého snímku rovnakej veľkosti */
+export function measureFrame(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  prev: Uint8Array | null
+): FrameMetrics {
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < gray.length; i++) {
+    sum += gray[i];
+    if (gray[i] >= 250) clipped++;
+  }
+
+  // Laplacián 4-okolia, rozptyl cez vnútorné pixely
+  let lapSum = 0;
+  let lapSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const l = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      lapSum += l;
+      lapSq += l * l;
+      n++;
+    }
+  }
+  const mean = n ? lapSum / n : 0;
+
+  let motion = 0;
+  if (prev && prev.length === gray.length) {
+    let diff = 0;
+    for (let i = 0; i < gray.length; i++) diff += Math.abs(gray[i] - prev[i]);
+    motion = diff / gray.length;
+  }
+
+  return {
+    sharpness: n ? lapSq / n - mean * mean : 0,
+    motion,
+    brightness: gray.length ? sum / gray.length : 0,
+    clipped: gray.length ? clipped / gray.length : 0
+  };
+}
+
+export function frameIssues(m: FrameMetrics, t: QualityThresholds = DEFAULT_THRESHOLDS): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  if (m.sharpness < t.minSharpness) issues.push("blur");
+  if (m.motion > t.maxMotion) issues.push("motion");
+  if (m.brightness < t.minBrightness) issues.push("dark");
+  if (m.brightness > t.maxBrightness || m.clipped > t.maxClipped) issues.push("bright");
+  return issues;
+}
+
+/** ostrosť ako podiel 0..1 pre ukazovateľ (prah = polovica stupnice) */
+export const sharpnessLevel = (m: FrameMetrics, t: QualityThresholds = DEFAULT_THRESHOLDS) =>
+  Math.min(1, m.sharpness / (2 * t.minSharpness));
@@ -0,0 +1,316 @@
+// src/lib/gs1.ts
+import type { BcItem, LabelView } from "./types";
+
+// ===== GS1: kontrolné číslice, aplikačné identifikátory (AI), porovnanie polí =====
+export type Gs1Field = {
+  ai: string;
+  title: string;
+  value: string;
+  /** čitateľná podoba (dátum, hmotnosť…) */
+  display: string;
+  error?: string;
+};
+
+export type Gs1Row = {
+  ai: string;
+  title: string;
+  master?: string;
+  scan?: string;
+  /** false = pole je na oboch stranách a líši sa, alebo na jednej chýba */
+  equal: boolean;
+};
+
+const GS = "\x1d";
+
+/** kontrolná číslica GS1 (mod 10, váhy 3/1 sprava) k číslam bez nej */
+export function gs1CheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const fromRight = body.length - 1 - i;
+    sum += Number(body[i]) * (fromRight % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** null = v poriadku, inak dôvod */
+export function checkDigitError(digits: string, length?: number): string | null {
+  if (!/^\d+$/.test(digits)) return "obsahuje iné znaky ako číslice";
+  if (length && digits.length !== length) return `má ${digits.length} číslic namiesto ${length}`;
+  const expected = gs1CheckDigit(digits.slice(0, -1));
+  return Number(digits.slice(-1)) === expected
+    ? null
+    : `chybná kontrolná číslica ${digits.slice(-1)}, správne ${expected}`;
+}
+
+// ===== tabuľka AI =====
+type AiKind = "gtin" | "date" | "decimal";
+
+type AiDef = {
+  title: string;
+  /** pevná dĺžka dát; bez nej sú dáta premenlivé do `max` a končia znakom GS */
+  fixed?: number;
+  max?: number;
+  kind?: AiKind;
+  unit?: string;
+};
+
+const AI: Record<string, AiDef> = {
+  "00": { title: "SSCC", fixed: 18, kind: "gtin" },
+  "01": { title: "GTIN", fixed: 14, kind: "gtin" },
+  "02": { title: "GTIN obsahu", fixed: 14, kind: "gtin" },
+  "10": { title: "Šarža", max: 20 },
+  "11": { title: "Dátum výroby", fixed: 6, kind: "date" },
+  "12": { title: "Dátum splatnosti", fixed: 6, kind: "date" },
+  "13": { title: "Dátum balenia", fixed: 6, kind: "date" },
+  "15": { title: "Minimálna trvanlivosť", fixed: 6, kind: "date" },
+  "16": { title: "Predať do", fixed: 6, kind: "date" },
+  "17": { title: "Dátum spotreby", fixed: 6, kind: "date" },
+  "20": { title: "Variant", fixed: 2 },
+  "21": { title: "Sériové číslo", max: 20 },
+  "22": { title: "Verzia spotrebného tovaru", max: 20 },
+  "240": { title: "Doplnkové ID produktu", max: 30 },
+  "241": { title: "Číslo dielu zákazníka", max: 30 },
+  "250": { title: "Sekundárne sériové číslo", max: 30 },
+  "30": { title: "Množstvo", max: 8 },
+  "37": { title: "Počet kusov", max: 8 },
+  "310": { title: "Čistá hmotnosť", fixed: 6, kind: "decimal", unit: "kg" },
+  "311": { title: "Dĺžka", fixed: 6, kind: "decimal", unit: "m" },
+  "315": { title: "Čistý objem", fixed: 6, kind: "decimal", unit: "l" },
+  "330": { title: "Hrubá hmotnosť", fixed: 6, kind: "decimal", unit: "kg" },
+  "400": { title: "Číslo objednávky", max: 30 },
+  "401": { title: "Číslo zásielky", max: 30 },
+  "410": { title: "GLN príjemcu", fixed: 13, kind: "gtin" },
+  "414": { title: "GLN miesta", fixed: 13, kind: "gtin" },
+  "420": { title: "PSČ príjemcu", max: 20 },
+  "422": { title: "Krajina pôvodu", fixed: 3 },
+  "7003": { title: "Exspirácia (dátum a čas)", fixed: 10 },
+  "90": { title: "Interné (dohodnuté)", max: 30 },
+  ...Object.fromEntries(
+    ["91", "92", "93", "94", "95", "96", "97", "98", "99"].map((ai) => [ai, { title: "Interné", max: 90 }])
+  )
+};
+
+/** AI s hodnotou n na 4. mieste (počet desatinných miest) */
+const DECIMAL_AIS = new Set(["310", "311", "315", "330"]);
+
+/** prvé dve číslice AI s preddefinovanou dĺžkou – za nimi netreba GS */
+const PREDEFINED = /^(0[0-4]|1[1-9]|20|3[1-6]|41)/;
+
+function lookupAi(s: string): { ai: string; def: AiDef; decimals?: number } | null {
+  for (const len of [2, 3, 4]) {
+    const key = s.slice(0, len);
+    if (DECIMAL_AIS.has(key) && /\d/.test(s[3] ?? "")) {
+      return { ai: s.slice(0, 4), def: AI[key], decimals: Number(s[3]) };
+    }
+    if (AI[key]) return { ai: key, def: AI[key] };
+  }
+  return null;
+}
+
+function describe(def: AiDef, value: string, decimals?: number): { display: string; error?: string } {
+  if (def.fixed && value.length !== def.fixed) {
+    return { display: value, error: `dĺžka ${value.length} namiesto ${def.fixed}` };
+  }
+  if (def.max && value.length > def.max) {
+    return { display: value, error: `dlhšie ako ${def.max} znakov` };
+  }
+  if (def.kind === "gtin") {
+    return { display: value, error: checkDigitError(value) ?? undefined };
+  }
+  if (def.kind === "date") {
+    const [y, m, d] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)].map(Number);
+    if (!/^\d{6}$/.test(value) || m < 1 || m > 12 || d > 31) {
+      return { display: value, error: "neplatný dátum RRMMDD" };
+    }
+    // deň 00 = koniec mesiaca
+    const day = d === 0 ? new Date(2000 + y, m, 0).getDate() : d;
+    return { display: `${String(day).padStart(2, "0")}.${value.slice(2, 4)}.${2000 + y}` };
+  }
+  if (def.kind === "decimal" && decimals !== undefined) {
+    if (!/^\d{6}$/.test(value)) return { display: value, error: "nie je číslo" };
+    const n = Number(value) / 10 ** decimals;
+    return { display: `${n.toFixed(decimals)} ${def.unit}` };
+  }
+  return { display: value };
+}
+
+// ===== parsovanie =====
+/** identifikátory symbológie GS1-128, GS1 DataMatrix, GS1 QR, GS1 DataBar */
+const SYMBOLOGY_ID = /^\](C1|d2|Q3|e0)/;
+const HRI = /^\(\d{2,4}\)/;
+/** niektoré BE posielajú GS ako text */
+const GS_TEXT = /<GS>|\{GS\}/gi;
+
+/** je hodnota GS1 reťazec? (symbológia, prefix, zátvorky alebo znak GS) */
+export function looksGs1(b: Pick<BcItem, "symbology" | "value">): boolean {
+  return (
+    /GS1/i.test(b.symbology) ||
+    SYMBOLOGY_ID.test(b.value) ||
+    HRI.test(b.value) ||
+    b.value.includes(GS) ||
+    /<GS>|\{GS\}/i.test(b.value)
+  );
+}
+
+function parseHri(s: string): Gs1Field[] {
+  return [...s.matchAll(/\((\d{2,4})\)([^(]*)/g)].map(([, ai, value]) => {
+    const hit = lookupAi(ai);
+    if (!hit || hit.ai !== ai) return { ai, title: "?", value, display: value, error: "neznámy AI" };
+    return { ai, title: hit.def.title, value, ...describe(hit.def, value, hit.decimals) };
+  });
+}
+
+function parseRaw(s: string): Gs1Field[] {
+  const fields: Gs1Field[] = [];
+  let i = 0;
+  while (i < s.length) {
+    if (s[i] === GS) {
+      i++;
+      continue;
+    }
+    const hit = lookupAi(s.slice(i, i + 4));
+    if (!hit) {
+      const rest = s.slice(i);
+      fields.push({ ai: "?", title: "?", value: rest, display: rest, error: "neznámy AI" });
+      break;
+    }
+    i += hit.ai.length;
+    let value: string;
+    if (hit.def.fixed && PREDEFINED.test(hit.ai)) {
+      value = s.slice(i, i + hit.def.fixed);
+      i += value.length;
+    } else {
+      const end = s.indexOf(GS, i);
+      value = s.slice(i, end < 0 ? s.length : end);
+      i += value.length;
+    }
+    fields.push({ ai: hit.ai, title: hit.def.title, value, ...describe(hit.def, value, hit.decimals) });
+  }
+  return fields;
+}
+
+/** polia GS1 z hodnoty kódu; null = nie je GS1 */
+export function parseGs1(b: Pick<BcItem, "symbology" | "value">): Gs1Field[] | null {
+  if (!looksGs1(b)) return null;
+  const s = b.value.replace(GS_TEXT, GS).replace(SYMBOLOGY_ID, "");
+  const fields = HRI.test(s) ? parseHri(s) : parseRaw(s);
+  return fields.length ? fields : null;
+}
+
+/** GS1 v zátvorkovej podobe, inak hodnota s viditeľným GS */
+export function formatBarcodeValue(b: Pick<BcItem, "symbology" | "value">): string {
+  const fields = parseGs1(b);
+  if (fields) return fields.map((f) => `(${f.ai})${f.value}`).join("");
+  return b.value.split(GS).join("␝");
+}
+
+// ===== lokálna kontrola kódov =====
+const GTIN_LENGTHS: Record<string, number> = { EAN13: 13, EAN8: 8, UPCA: 12, ITF14: 14, GTIN14: 14 };
+
+const normSym = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/** chyby zistené v prehliadači (kontrolná číslica, polia GS1) */
+export function localBarcodeErrors(b: BcItem): string[] {
+  const len = GTIN_LENGTHS[normSym(b.symbology)];
+  if (len) {
+    const err = checkDigitError(b.value, len);
+    return err ? [err] : [];
+  }
+  const fields = parseGs1(b);
+  if (!fields) return [];
+  const errors = fields.filter((f) => f.error).map((f) => `AI ${f.ai} ${f.title}: ${f.error}`);
+  if (!fields.some((f) => f.ai === "01" || f.ai === "00" || f.ai === "02")) {
+    errors.push("chýba GTIN (01) alebo SSCC (00)");
+  }
+  return errors;
+}
+
+/** doplní `localErrors`; chyba zistená lokálne zneplatní aj kód, ktorý BE uznal */
+export function checkBarcodes(view: LabelView): LabelView {
+  if (!view.barcode?.length) return view;
+  return {
+    ...view,
+    barcode: view.barcode.map((b) => {
+      // bez hodnoty nie je čo kontrolovať
+      if (b.value === "-") return b;
+      const localErrors = localBarcodeErrors(b);
+      if (!localErrors.length) return { ...b, localErrors };
+      return {
+        ...b,
+        localErrors,
+        valid: false,
+        reason: [b.reason, ...localErrors].filter(Boolean).join("; ")
+      };
+    })
+  };
+}
+
+/** rodina symbológie – GS1-128 je Code 128, EAN-13 zahŕňa UPC-A, QR_CODE = QR */
+export function symbologyFamily(symbology: string): string {
+  const sym = normSym(symbology).replace(/^GS1/, "");
+  if (sym === "UPCA") return "EAN13";
+  if (sym === "128") return "CODE128";
+  return sym === "QRCODE" ? "QR" : sym;
+}
+
+/** GTIN doplnený na 14 číslic (EAN/UPC alebo AI 01); null = kód GTIN nenesie */
+export function gtin14(b: Pick<BcItem, "symbology" | "value">): string | null {
+  if (GTIN_LENGTHS[normSym(b.symbology)]) return /^\d+$/.test(b.value) ? b.value.padStart(14, "0") : null;
+  return parseGs1(b)?.find((f) => f.ai === "01")?.value ?? null;
+}
+
+// ===== porovnanie Master vs Scan =====
+/** kľúč na porovnanie: EAN-13 = UPC-A s nulou, GS1 podľa polí, nie podľa zápisu */
+export function barcodeKey(b: Pick<BcItem, "symbology" | "value">): string {
+  const fields = parseGs1(b);
+  if (fields) return "GS1|" + fields.map((f) => `${f.ai}=${f.value}`).join("|");
+  let sym = normSym(b.symbology);
+  let val = b.value.trim();
+  if (sym === "UPCA") {
+    sym = "EAN13";
+    val = val.padStart(13, "0");
+  }
+  return `${sym}|${val}`;
+}
+
+/** tabuľka AI polí Master vs Scan; null = ani jedna strana nemá GS1 */
+export function compareGs1(items: BcItem[]): Gs1Row[] | null {
+  const collect = (side: "master" | "scan") => {
+    const map = new Map<string, Gs1Field>();
+    items
+      .filter((b) => (b.side ?? "scan") === side)
+      .forEach((b) => parseGs1(b)?.forEach((f) => map.has(f.ai) || map.set(f.ai, f)));
+    return map;
+  };
+  const master = collect("master");
+  const scan = collect("scan");
+  if (!master.size && !scan.size) return null;
+
+  const ais = [...new Set([...master.keys(), ...scan.keys()])];
+  return ais.map((ai) => {
+    const m = master.get(ai);
+    const s = scan.get(ai);
+    return {
+      ai,
+      title: (m ?? s)!.title,
+      master: m?.display,
+      scan: s?.display,
+      equal: !!m && !!s && m.value === s.value
+    };
+  });
+}
+
+/** zhoda Master vs Scan; GS1 pole po poli, ostatné podľa kľúča; undefined = nie je čo porovnať */
+export function barcodesMatch(items: BcItem[]): boolean | undefined {
+  const master = items.filter((b) => b.side === "master");
+  const scan = items.filter((b) => b.side === "scan");
+  if (!master.length || !scan.length) return undefined;
+
+  const gs1Both = master.some((b) => parseGs1(b)) && scan.some((b) => parseGs1(b));
+  const plain = (list: BcItem[]) => list.filter((b) => !gs1Both || !parseGs1(b)).map(barcodeKey);
+  const m = plain(master);
+  const s = plain(scan);
+  const plainOk = !m.length || !s.length ? gs1Both : s.some((k) => m.includes(k));
+  if (!gs1Both) return plainOk;
+  return plainOk && compareGs1(items)!.every((r) => r.equal);
+}
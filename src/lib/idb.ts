@@ -0,0 +1,127 @@
+// src/lib/idb.ts
+
+// ===== IndexedDB – jedna databáza pre celú aplikáciu =====
+// Pozor: public/sw.js otvára tú istú DB (bez verzie) a číta/zapisuje STORES.queue.
+// Pri pridaní nového store zvýš DB_VERSION a doplň ho do onupgradeneeded.
+const DB_NAME = "scancontroll";
+const DB_VERSION = 6;
+
+export const STORES = {
+  queue: "compareQueue",
+  masters: "masters",
+  history: "inspections",
+  textRules: "textRules",
+  expectedCodes: "expectedCodes",
+  runMasters: "runMasters"
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB nie je dostupná"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORES.queue)) {
+        db.createObjectStore(STORES.queue, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.masters)) {
+        const masters = db.createObjectStore(STORES.masters, { keyPath: "id" });
+        masters.createIndex("productNumber", "productNumber");
+      }
+      if (!db.objectStoreNames.contains(STORES.history)) {
+        const history = db.createObjectStore(STORES.history, { keyPath: "id" });
+        history.createIndex("createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains(STORES.textRules)) {
+        db.createObjectStore(STORES.textRules, { keyPath: "productNumber" });
+      }
+      if (!db.objectStoreNames.contains(STORES.expectedCodes)) {
+        db.createObjectStore(STORES.expectedCodes, { keyPath: "productNumber" });
+      }
+      if (!db.objectStoreNames.contains(STORES.runMasters)) {
+        db.createObjectStore(STORES.runMasters, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // iná karta s novšou verziou – uvoľníme spojenie
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    dbPromise = null;
+    throw e;
+  });
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(name: StoreName, mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export async function idbGetAll<T>(name: StoreName): Promise<T[]> {
+  return wrap((await store(name, "readonly")).getAll()) as Promise<T[]>;
+}
+
+export async function idbGet<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return wrap((await store(name, "readonly")).get(key)) as Promise<T | undefined>;
+}
+
+export async function idbPut<T>(name: StoreName, value: T): Promise<void> {
+  await wrap((await store(name, "readwrite")).put(value));
+}
+
+/**
+ * Prečíta a zapíše záznam v jednej readwrite transakcii (bez súbehu s inou kartou / SW).
+ * `fn` vráti nový záznam, alebo null = nič nemeniť.
+ */
+export async function idbUpdate<T>(
+  name: StoreName,
+  key: IDBValidKey,
+  fn: (current: T | undefined) => T | null
+): Promise<T | null> {
+  const s = await store(name, "readwrite");
+  return new Promise<T | null>((resolve, reject) => {
+    let next: T | null = null;
+    const get = s.get(key);
+    get.onsuccess = () => {
+      next = fn(get.result as T | undefined);
+      if (next) s.put(next);
+    };
+    s.transaction.oncomplete = () => resolve(next);
+    s.transaction.onerror = () => reject(s.transaction.error);
+    s.transaction.onabort = () => reject(s.transaction.error);
+  });
+}
+
+export async function idbGetAllByIndex<T>(
+  name: StoreName,
+  index: string,
+  key: IDBValidKey
+): Promise<T[]> {
+  return wrap((await store(name, "readonly")).index(index).getAll(key)) as Promise<T[]>;
+}
+
+export async function idbDelete(name: StoreName, key: IDBValidKey): Promise<void> {
+  await wrap((await store(name, "readwrite")).delete(key));
+}
@@ -0,0 +1,217 @@
+// src/lib/imageQuality.ts
+import { ANALYSIS_WIDTH, grayOf, measureFrame } from "./frameQuality";
+import { detectLabelQuad, quadArea } from "./labelDetect";
+
+// ===== kvalita odfoteného snímku pred odoslaním na porovnanie =====
+export type QualityCheckId = "sharpness" | "glare" | "exposure" | "fill";
+
+export type QualityCheck = {
+  id: QualityCheckId;
+  label: string;
+  /** 0..1, 1 = výborné */
+  score: number;
+  /** nameraná hodnota pre obsluhu */
+  value: string;
+  ok: boolean;
+  /** čo má obsluha urobiť, keď kontrola neprešla */
+  guidance?: string;
+};
+
+export type ImageQuality = { checks: QualityCheck[]; ok: boolean };
+
+/** majster povolil porovnanie napriek neúspešnej kontrole kvality */
+export type QualityOverride = {
+  by: string;
+  byName?: string;
+  /** epoch ms */
+  at: number;
+  /** rady, ktoré v tom čase platili */
+  issues: string[];
+};
+
+/** jas, od ktorého je pixel prepálený (odlesk) – rovnako ako `clipped` v measureFrame */
+const GLARE_LEVEL = 250;
+/**
+ * o koľko musí prepálený pixel prevyšovať medián jasu etikety, aby bol odleskom;
+ * biely papier pri správnej expozícii je tesne pod ním a odleskom nie je
+ */
+const GLARE_MARGIN = 20;
+/** podiel odleskov v etikete / v najhoršej deviatine */
+const MAX_GLARE = 0.02;
+const MAX_GLARE_CELL = 0.08;
+const MIN_MEAN = 70;
+const MAX_MEAN = 225;
+const MIN_CONTRAST = 60;
+/** etiketa by mala vypĺňať aspoň túto časť snímku */
+const MIN_FILL = 0.6;
+
+const REGION_NAMES = [
+  "v ľavom hornom rohu",
+  "hore v strede",
+  "v pravom hornom rohu",
+  "pri ľavom okraji",
+  "v strede",
+  "pri pravom okraji",
+  "v ľavom dolnom rohu",
+  "dole v strede",
+  "v pravom dolnom rohu"
+];
+
+const pct = (v: number) => `${Math.round(v * 100)} %`;
+
+export type AssessOptions = {
+  straightened: boolean;
+  minSharpness: number;
+  /** obrázok zo súboru (digitálny podklad, sken) – odlesky a expozícia sa nehodnotia */
+  file?: boolean;
+};
+
+/**
+ * Ohodnotí ostrosť, odlesky, expozíciu a zaplnenie snímku etiketou.
+ * `straightened` = snímok je už vyrovnaný podľa okrajov etikety (zaplnenie 100 %).
+ */
+export function assessGray(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  opts: AssessOptions
+): ImageQuality {
+  const checks: QualityCheck[] = [];
+
+  // ostrosť
+  const { sharpness, brightness } = measureFrame(gray, width, height, null);
+  const sharpOk = sharpness >= opts.minSharpness;
+  checks.push({
+    id: "sharpness",
+    label: "Ostrosť",
+    score: Math.min(1, sharpness / (2 * opts.minSharpness)),
+    value: Math.round(sharpness).toString(),
+    ok: sharpOk,
+    guidance: sharpOk ? undefined : "neostré – drž kameru pokojne a počkaj na zaostrenie"
+  });
+
+  // etiketa v snímku – odlesky sa merajú len v nej (lesklý stôl okolo nevadí)
+  const quad = opts.straightened ? null : detectLabelQuad(gray, width, height);
+  let [x0, y0, x1, y1] = [0, 0, width, height];
+  if (quad) {
+    x0 = Math.max(0, Math.floor(Math.min(...quad.map((p) => p.x))));
+    y0 = Math.max(0, Math.floor(Math.min(...quad.map((p) => p.y))));
+    x1 = Math.min(width, Math.ceil(Math.max(...quad.map((p) => p.x))));
+    y1 = Math.min(height, Math.ceil(Math.max(...quad.map((p) => p.y))));
+  }
+  const labelHist = new Array<number>(256).fill(0);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) labelHist[gray[y * width + x]]++;
+  }
+  const labelPixels = Math.max(1, (x1 - x0) * (y1 - y0));
+  let median = 255;
+  for (let t = 0, acc = 0; t < 256; t++) {
+    acc += labelHist[t];
+    if (acc >= labelPixels / 2) {
+      median = t;
+      break;
+    }
+  }
+
+  // odlesky – prepálené pixely výrazne nad mediánom etikety, v mriežke 3×3
+  const glareFrom = Math.max(GLARE_LEVEL, median + GLARE_MARGIN);
+  const cells = new Array<number>(9).fill(0);
+  const cellSize = new Array<number>(9).fill(0);
+  const hist = new Array<number>(256).fill(0);
+  let glare = 0;
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(2, Math.floor((y * 3) / height));
+    for (let x = 0; x < width; x++) {
+      const g = gray[y * width + x];
+      hist[g]++;
+      if (y < y0 || y >= y1 || x < x0 || x >= x1) continue;
+      const c = row * 3 + Math.min(2, Math.floor((x * 3) / width));
+      cellSize[c]++;
+      if (g >= glareFrom) {
+        cells[c]++;
+        glare++;
+      }
+    }
+  }
+  const glareShare = glare / labelPixels;
+  let worst = 0;
+  cells.forEach((n, c) => {
+    if (n / (cellSize[c] || 1) > cells[worst] / (cellSize[worst] || 1)) worst = c;
+  });
+  const worstShare = cells[worst] / (cellSize[worst] || 1);
+  const glareOk = glareShare <= MAX_GLARE && worstShare <= MAX_GLARE_CELL;
+  // biele pozadie digitálnej etikety (255) nie je odlesk ani preexpozícia
+  if (!opts.file) {
+    checks.push({
+      id: "glare",
+      label: "Odlesky",
+      score: Math.max(0, 1 - worstShare / (2 * MAX_GLARE_CELL)),
+      value: pct(glareShare),
+      ok: glareOk,
+      guidance: glareOk ? undefined : `odlesk ${REGION_NAMES[worst]} – nakloň etiketu`
+    });
+  }
+
+  // expozícia – priemerný jas a kontrast (5. – 95. percentil)
+  const percentile = (p: number) => {
+    let acc = 0;
+    for (let t = 0; t < 256; t++) {
+      acc += hist[t];
+      if (acc >= p * gray.length) return t;
+    }
+    return 255;
+  };
+  const contrast = percentile(0.95) - percentile(0.05);
+  let exposureGuidance: string | undefined;
+  if (brightness < MIN_MEAN) exposureGuidance = "tmavý snímok – pridaj svetlo alebo zapni prisvetlenie";
+  else if (brightness > MAX_MEAN) exposureGuidance = "preexponovaný snímok – uber svetlo alebo vypni prisvetlenie";
+  else if (contrast < MIN_CONTRAST) exposureGuidance = "nízky kontrast – skontroluj osvetlenie";
+  const mid = (MIN_MEAN + MAX_MEAN) / 2;
+  if (!opts.file) {
+    checks.push({
+      id: "exposure",
+      label: "Expozícia",
+      score: Math.max(0, 1 - Math.abs(brightness - mid) / (mid - MIN_MEAN) / 2),
+      value: `jas ${Math.round(brightness)}, kontrast ${contrast}`,
+      ok: !exposureGuidance,
+      guidance: exposureGuidance
+    });
+  }
+
+  // zaplnenie snímku etiketou
+  let fill: number | null = 1;
+  if (!opts.straightened) fill = quad ? quadArea(quad) / (width * height) : null;
+  const fillOk = fill === null || fill >= MIN_FILL;
+  checks.push({
+    id: "fill",
+    label: "Zaplnenie rámika",
+    score: fill === null ? 1 : Math.min(1, fill / MIN_FILL),
+    // okraje sa nenašli – etiketa zvyčajne presahuje rámik, čo nevadí
+    value: fill === null ? "neurčené" : pct(fill),
+    ok: fillOk,
+    guidance: fillOk
+      ? undefined
+      : `etiketa vypĺňa len ${pct(fill!)} rámika – priblíž kameru alebo použi zoom`
+  });
+
+  return { checks, ok: checks.every((c) => c.ok) };
+}
+
+/** ohodnotí hotový snímok – zmenší ho na rovnakú šírku ako živý obraz, aby platil ten istý prah ostrosti */
+export function assessCanvas(
+  canvas: HTMLCanvasElement,
+  opts: AssessOptions
+): ImageQuality {
+  const w = Math.min(ANALYSIS_WIDTH, canvas.width);
+  const h = Math.max(1, Math.round((w * canvas.height) / canvas.width));
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(canvas, 0, 0, w, h);
+  return assessGray(grayOf(ctx.getImageData(0, 0, w, h).data), w, h, opts);
+}
+
+/** rady pre obsluhu zo všetkých neúspešných kontrol */
+export const qualityGuidance = (q: ImageQuality | null | undefined): string[] =>
+  (q?.checks ?? []).filter((c) => !c.ok && c.guidance).map((c) => c.guidance!);
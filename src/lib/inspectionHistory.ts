@@ -0,0 +1,89 @@
+// src/lib/inspectionHistory.ts
+import type { BackendId } from "./apiClient";
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+import type { DefectDecision, DefectDecisions } from "./defects";
+import type { QualityOverride } from "./imageQuality";
+import type { SheetRef } from "./sheet";
+import { computeSummary, isPass, type Summary } from "./summary";
+import type { LabelView } from "./types";
+
+// ===== história dokončených inšpekcií (lokálne v IndexedDB) =====
+export type InspectionRecord = {
+  id: string;
+  /** epoch ms – kedy bol výsledok vygenerovaný */
+  createdAt: number;
+  operator: string;
+  orderNumber: string;
+  productNumber: string;
+  summary: Summary;
+  passed: boolean;
+  view: LabelView;
+  masterUrl: string;
+  etiketaUrl: string;
+  source?: { backend: BackendId; path: string };
+  /** rozhodnutia majstra k jednotlivým nálezom (kľúč z `listDefects`) */
+  decisions?: DefectDecisions;
+  /** porovnané napriek zlej kvalite snímku */
+  qualityOverride?: QualityOverride;
+  /** etiketa z viacnásobného hárku / roly */
+  sheet?: SheetRef;
+  /** vzorka behu vzorkovania (`SamplingRun.id`) */
+  runId?: string;
+};
+
+export type HistoryFilter = {
+  orderNumber?: string;
+  productNumber?: string;
+  operator?: string;
+  /** YYYY-MM-DD (vrátane) */
+  dateFrom?: string;
+  dateTo?: string;
+  result?: "all" | "pass" | "fail";
+};
+
+export async function saveInspection(rec: InspectionRecord) {
+  await idbPut(STORES.history, rec);
+}
+
+export async function getInspection(id: string): Promise<InspectionRecord | undefined> {
+  return idbGet<InspectionRecord>(STORES.history, id);
+}
+
+/** záznam s novým rozhodnutím (null = zrušiť) a prepočítaným verdiktom */
+export function withDecision(
+  rec: InspectionRecord,
+  key: string,
+  decision: DefectDecision | null
+): InspectionRecord {
+  const decisions = { ...rec.decisions };
+  if (decision) decisions[key] = decision;
+  else delete decisions[key];
+  const summary = computeSummary(rec.view, decisions);
+  return { ...rec, decisions, summary, passed: isPass(summary) };
+}
+
+export async function deleteInspection(id: string) {
+  await idbDelete(STORES.history, id);
+}
+
+export async function listInspections(): Promise<InspectionRecord[]> {
+  const all = await idbGetAll<InspectionRecord>(STORES.history);
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+const contains = (value: string, q?: string) =>
+  !q || value.toLowerCase().includes(q.trim().toLowerCase());
+
+export function filterInspections(list: InspectionRecord[], f: HistoryFilter): InspectionRecord[] {
+  const from = f.dateFrom ? new Date(`${f.dateFrom}T00:00:00`).getTime() : -Infinity;
+  const to = f.dateTo ? new Date(`${f.dateTo}T23:59:59.999`).getTime() : Infinity;
+  return list.filter(
+    (r) =>
+      contains(r.orderNumber, f.orderNumber) &&
+      contains(r.productNumber, f.productNumber) &&
+      contains(r.operator, f.operator) &&
+      r.createdAt >= from &&
+      r.createdAt <= to &&
+      (!f.result || f.result === "all" || (f.result === "pass") === r.passed)
+  );
+}
@@ -0,0 +1,315 @@
+// src/lib/labelDetect.ts
+import { grayOf } from "./frameQuality";
+
+// ===== nájdenie obrysu etikety a narovnanie perspektívy =====
+export type Pt = { x: number; y: number };
+
+/** rohy v poradí ľavý horný, pravý horný, pravý dolný, ľavý dolný */
+export type Quad = [Pt, Pt, Pt, Pt];
+
+/** šírka obrázka, na ktorom sa hľadá obrys (živý náhľad / snímok) */
+export const LIVE_DETECT_WIDTH = 240;
+export const CAPTURE_DETECT_WIDTH = 480;
+
+/** najmenšia plocha etikety voči snímku */
+const MIN_AREA = 0.05;
+/** ako presne musí vyplnená plocha sedieť so štvoruholníkom */
+const MIN_FILL = 0.88;
+const MAX_FILL = 1.08;
+/** povolená odchýlka pomeru strán od nastaveného (perspektíva ho mení) */
+const MAX_ASPECT_DEVIATION = 1.6;
+
+function otsu(gray: Uint8Array): number {
+  const hist = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) hist[gray[i]]++;
+  let sum = 0;
+  for (let t = 0; t < 256; t++) sum += t * hist[t];
+  let sumB = 0;
+  let wB = 0;
+  let best = 0;
+  let thr = 128;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (!wB) continue;
+    const wF = gray.length - wB;
+    if (!wF) break;
+    sumB += t * hist[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const between = wB * wF * (mB - mF) ** 2;
+    if (between > best) {
+      best = between;
+      thr = t;
+    }
+  }
+  return thr;
+}
+
+const dist = (a: Pt, b: Pt) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export function quadArea(q: Quad): number {
+  let a = 0;
+  for (let i = 0; i < 4; i++) {
+    const p = q[i];
+    const n = q[(i + 1) % 4];
+    a += p.x * n.y - n.x * p.y;
+  }
+  return Math.abs(a) / 2;
+}
+
+function isConvex(q: Quad): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i];
+    const b = q[(i + 1) % 4];
+    const c = q[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (!cross) return false;
+    if (sign && Math.sign(cross) !== sign) return false;
+    sign = Math.sign(cross);
+  }
+  return true;
+}
+
+/**
+ * Obrys etikety v jasovom obrázku: prah Otsu, oblasť opačnej triedy ako okraj
+ * snímku spojená so stredom (etiketa je v rámiku), rohy ako krajné body
+ * v uhlopriečnych smeroch.
+ * null = nič dôveryhodné – volajúci použije centrálny orez.
+ */
+export function detectLabelQuad(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  targetAR?: number
+): Quad | null {
+  const thr = otsu(gray);
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+
+  // pozadie = trieda (svetlá / tmavá), ktorá prevláda na okraji snímku; etiketa je opačná
+  let light = 0;
+  let total = 0;
+  const count = (i: number) => {
+    total++;
+    if (gray[i] > thr) light++;
+  };
+  for (let x = 0; x < width; x++) {
+    count(x);
+    count((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    count(y * width);
+    count(y * width + width - 1);
+  }
+  const wantLight = light * 2 < total;
+  const inClass = (i: number) => gray[i] > thr === wantLight;
+
+  // štart v strede, alebo najbližší pixel etikety (text v strede ho môže zakryť)
+  const win = Math.floor(Math.min(width, height) / 5);
+  let start = -1;
+  for (let r = 0; r <= win && start < 0; r++) {
+    for (let dy = -r; dy <= r && start < 0; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        const i = (cy + dy) * width + cx + dx;
+        if (inClass(i)) {
+          start = i;
+          break;
+        }
+      }
+    }
+  }
+  if (start < 0) return null;
+
+  // vyplnenie oblasti (4-okolie)
+  const seen = new Uint8Array(width * height);
+  const stack = [start];
+  seen[start] = 1;
+  const visit = (j: number) => {
+    if (seen[j] || !inClass(j)) return;
+    seen[j] = 1;
+    stack.push(j);
+  };
+  const rowMin = new Int32Array(height).fill(width);
+  const rowMax = new Int32Array(height).fill(-1);
+  let touches = 0;
+  const corner = [
+    { s: Infinity, p: { x: 0, y: 0 } }, // min x+y → ľavý horný
+    { s: -Infinity, p: { x: 0, y: 0 } }, // max x-y → pravý horný
+    { s: -Infinity, p: { x: 0, y: 0 } }, // max x+y → pravý dolný
+    { s: Infinity, p: { x: 0, y: 0 } } // min x-y → ľavý dolný
+  ];
+  while (stack.length) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x < rowMin[y]) rowMin[y] = x;
+    if (x > rowMax[y]) rowMax[y] = x;
+    if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touches++;
+    const sum = x + y;
+    const diff = x - y;
+    if (sum < corner[0].s) corner[0] = { s: sum, p: { x, y } };
+    if (diff > corner[1].s) corner[1] = { s: diff, p: { x, y } };
+    if (sum > corner[2].s) corner[2] = { s: sum, p: { x, y } };
+    if (diff < corner[3].s) corner[3] = { s: diff, p: { x, y } };
+
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (y > 0) visit(i - width);
+    if (y < height - 1) visit(i + width);
+  }
+
+  // oblasť pretiekla do pozadia
+  if (touches > (width + height) / 4) return null;
+
+  // plocha bez dier (text, grafika) – riadok po riadku od okraja po okraj
+  let filled = 0;
+  for (let y = 0; y < height; y++) if (rowMax[y] >= 0) filled += rowMax[y] - rowMin[y] + 1;
+
+  const quad = corner.map((c) => ({ x: c.p.x + 0.5, y: c.p.y + 0.5 })) as Quad;
+  const area = quadArea(quad);
+  if (!isConvex(quad) || area < MIN_AREA * width * height) return null;
+  const fill = filled / area;
+  if (fill < MIN_FILL || fill > MAX_FILL) return null;
+
+  if (targetAR && targetAR > 0) {
+    const w = (dist(quad[0], quad[1]) + dist(quad[3], quad[2])) / 2;
+    const h = (dist(quad[0], quad[3]) + dist(quad[1], quad[2])) / 2;
+    const dev = w / h / targetAR;
+    if (dev > MAX_ASPECT_DEVIATION || dev < 1 / MAX_ASPECT_DEVIATION) return null;
+  }
+  return quad;
+}
+
+export const scaleQuad = (q: Quad, sx: number, sy = sx): Quad =>
+  q.map((p) => ({ x: p.x * sx, y: p.y * sy })) as Quad;
+
+// ===== perspektíva =====
+/** rieši A·x = b Gaussovou elimináciou (8×8 pre homografiu) */
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    let piv = c;
+    for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[piv][c])) piv = r;
+    if (Math.abs(M[piv][c]) < 1e-12) return null;
+    [M[c], M[piv]] = [M[piv], M[c]];
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const f = M[r][c] / M[c][c];
+      for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+  return M.map((row, i) => row[n] / row[i]);
+}
+
+/** homografia, ktorá zobrazí body `from` na body `to` (9 koeficientov, h[8] = 1) */
+export function homography(from: Quad, to: Quad): number[] | null {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  const h = solve(A, b);
+  return h ? [...h, 1] : null;
+}
+
+export function project(h: number[], x: number, y: number): Pt {
+  const d = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / d, y: (h[3] * x + h[4] * y + h[5]) / d };
+}
+
+/** rozmer výstupu: šírka podľa dlhšej z vodorovných hrán, výška podľa pomeru strán */
+export function warpSize(q: Quad, targetAR: number): { w: number; h: number } {
+  const w = Math.round(Math.max(dist(q[0], q[1]), dist(q[3], q[2])));
+  return { w, h: Math.max(1, Math.round(w / targetAR)) };
+}
+
+/** vyrovná štvoruholník `q` zo `src` do obdĺžnika `outW × outH` (bilineárne) */
+export function warpQuad(src: ImageData, q: Quad, outW: number, outH: number): ImageData | null {
+  const rect: Quad = [
+    { x: 0, y: 0 },
+    { x: outW, y: 0 },
+    { x: outW, y: outH },
+    { x: 0, y: outH }
+  ];
+  // z výstupu späť do zdroja
+  const h = homography(rect, q);
+  if (!h) return null;
+  const out = new ImageData(outW, outH);
+  const { data: s, width: sw, height: sh } = src;
+  const o = out.data;
+  for (let v = 0; v < outH; v++) {
+    for (let u = 0; u < outW; u++) {
+      const p = project(h, u + 0.5, v + 0.5);
+      const x = Math.min(sw - 1.001, Math.max(0, p.x - 0.5));
+      const y = Math.min(sh - 1.001, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const fx = x - x0;
+      const fy = y - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + sw * 4;
+      const i11 = i01 + 4;
+      const oi = (v * outW + u) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = s[i00 + c] + (s[i10 + c] - s[i00 + c]) * fx;
+        const bot = s[i01 + c] + (s[i11 + c] - s[i01 + c]) * fx;
+        o[oi + c] = top + (bot - top) * fy;
+      }
+      o[oi + 3] = 255;
+    }
+  }
+  return out;
+}
+
+// ===== snímok z kamery =====
+/** jas obrázka zmenšeného na šírku `w` */
+function grayThumb(src: CanvasImageSource, sw: number, sh: number, w: number) {
+  const h = Math.max(1, Math.round((w * sh) / sw));
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(src, 0, 0, w, h);
+  return { gray: grayOf(ctx.getImageData(0, 0, w, h).data), w, h };
+}
+
+/** obrys etikety v aktuálnom snímku videa (v pixeloch videa) */
+export function detectInVideo(
+  video: HTMLVideoElement,
+  targetAR: number,
+  detectWidth = LIVE_DETECT_WIDTH
+): Quad | null {
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+  if (!vw || !vh) return null;
+  const { gray, w, h } = grayThumb(video, vw, vh, detectWidth);
+  const q = detectLabelQuad(gray, w, h, targetAR);
+  return q ? scaleQuad(q, vw / w, vh / h) : null;
+}
+
+/** nájde etiketu v snímku a vyrovná ju na obdĺžnik `targetAR`; null = nenájdená */
+export function straightenFrame(video: HTMLVideoElement, targetAR: number): HTMLCanvasElement | null {
+  const quad = detectInVideo(video, targetAR, CAPTURE_DETECT_WIDTH);
+  if (!quad) return null;
+  const full = document.createElement("canvas");
+  full.width = video.videoWidth;
+  full.height = video.videoHeight;
+  const fctx = full.getContext("2d")!;
+  fctx.drawImage(video, 0, 0);
+  const { w, h } = warpSize(quad, targetAR);
+  const warped = warpQuad(fctx.getImageData(0, 0, full.width, full.height), quad, w, h);
+  if (!warped) return null;
+  const out = document.createElement("canvas");
+  out.width = w;
+  out.height = h;
+  out.getContext("2d")!.putImageData(warped, 0, 0);
+  return out;
+}
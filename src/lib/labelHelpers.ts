@@ -0,0 +1,113 @@
+// src/lib/labelHelpers.ts
+import type { BcItem, Box } from "./types";
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+export const toImgUrl = (maybeDataUrlOrB64: string): string => {
+  if (!maybeDataUrlOrB64) return "";
+  if (maybeDataUrlOrB64.startsWith("data:")) return maybeDataUrlOrB64;
+  return `data:image/jpeg;base64,${maybeDataUrlOrB64}`;
+};
+
+function iou(
+  a: { x: number; y: number; w: number; h: number },
+  b: { x: number; y: number; w: number; h: number }
+) {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.w, b.x + b.w);
+  const y2 = Math.min(a.y + a.h, b.y + b.h);
+  const inter = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const ua = a.w * a.h + b.w * b.h - inter;
+  return ua > 0 ? inter / ua : 0;
+}
+
+export function dedupeBoxes<
+  T extends { x: number; y: number; w: number; h: number; type?: string; subType?: string | null }
+>(arr: T[], thr = 0.9) {
+  const out: T[] = [];
+  for (const b of arr) {
+    const dup = out.find(
+      (o) => iou(o, b) >= thr && (o.type || "") === (b.type || "")
+    );
+    if (!dup) out.push(b);
+  }
+  return out;
+}
+
+// skrátenie textu v náhľadoch
+export function truncate(s: string | undefined, max = 200): string {
+  if (!s) return "";
+  return s.length > max ? s.slice(0, max) + "…" : s;
+}
+
+// deduplikácia kódov (strana+symbology+value)
+export function dedupeBc(items: BcItem[]): BcItem[] {
+  const map = new Map<string, BcItem>();
+  for (const b of items || []) {
+    const key = `${b.side || ""}|${(b.symbology || "").toUpperCase()}|${String(
+      b.value || ""
+    ).trim()}`;
+    const cur = map.get(key);
+    if (!cur) {
+      map.set(key, {
+        ...b,
+        symbology: (b.symbology || "").toUpperCase(),
+        value: String(b.value || "").trim()
+      });
+    } else {
+      cur.valid = cur.valid && b.valid;
+      if (!cur.reason && b.reason) cur.reason = b.reason;
+    }
+  }
+  return [...map.values()];
+}
+
+// farby boxov podľa typu (overlay aj PDF report)
+export const BOX_COLORS = { ocr: "#eab308", barcode: "#06b6d4", diff: "#ef4444" };
+
+export const BOX_TYPE_LABELS: Record<NonNullable<Box["type"]>, string> = {
+  diff: "Grafický rozdiel",
+  ocr: "Text",
+  barcode: "Čiarový kód"
+};
+
+export function drawBoxes(
+  ctx: CanvasRenderingContext2D,
+  boxes: Box[],
+  sx: number,
+  sy: number,
+  ox = 0,
+  oy = 0,
+  opts: { numbered?: boolean; selected?: number | null } = {}
+) {
+  boxes.forEach((b, i) => {
+    const x = Math.round(ox + b.x * sx);
+    const y = Math.round(oy + b.y * sy);
+    const color = BOX_COLORS[b.type || "diff"];
+    ctx.save();
+    ctx.strokeStyle = color;
+    if (b.type === "ocr") ctx.setLineDash([6, 4]);
+    ctx.lineWidth = opts.selected === i ? 4 : 2;
+    ctx.strokeRect(x, y, Math.round(b.w * sx), Math.round(b.h * sy));
+    if (opts.numbered) {
+      // číslo boxu – rovnaké ako v zozname rozdielov
+      const label = String(i + 1);
+      ctx.setLineDash([]);
+      ctx.font = "bold 11px sans-serif";
+      const tw = ctx.measureText(label).width + 6;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y - 14, tw, 14);
+      ctx.fillStyle = "#fff";
+      ctx.textBaseline = "middle";
+      ctx.fillText(label, x + 3, y - 7);
+    }
+    ctx.restore();
+  });
+}
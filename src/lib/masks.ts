@@ -0,0 +1,115 @@
+// src/lib/masks.ts
+import { loadImage } from "./labelHelpers";
+import type { Box, LabelView, OcrDiff } from "./types";
+
+// ===== maskované zóny na mastri (premenlivá tlač: šarža, dátum, sériové číslo) =====
+// Zóny sú v mm od ľavého horného rohu etikety, takže platia aj po novom odfotení mastra.
+export type MaskZone = {
+  id: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  label?: string;
+};
+
+export type LabelSizeMm = { widthMm: number; heightMm: number };
+
+type Rect = Pick<Box, "x" | "y" | "w" | "h">;
+
+/** box sa ignoruje, ak aspoň takáto časť jeho plochy leží v maske */
+const MIN_OVERLAP = 0.5;
+/** najmenšia zóna v mm – kratšie ťahy myšou sú skôr preklik */
+export const MIN_ZONE_MM = 1;
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/** obdĺžnik z dvoch rohov v mm, orezaný na etiketu */
+export function zoneFromCorners(
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  size: LabelSizeMm
+): Omit<MaskZone, "id"> {
+  const x0 = Math.max(0, Math.min(a.x, b.x));
+  const y0 = Math.max(0, Math.min(a.y, b.y));
+  const x1 = Math.min(size.widthMm, Math.max(a.x, b.x));
+  const y1 = Math.min(size.heightMm, Math.max(a.y, b.y));
+  return { x: round1(x0), y: round1(y0), w: round1(x1 - x0), h: round1(y1 - y0) };
+}
+
+function overlapRatio(r: Rect, zones: Rect[]): number {
+  const area = r.w * r.h;
+  if (area <= 0) return 0;
+  let covered = 0;
+  for (const z of zones) {
+    const ix = Math.min(r.x + r.w, z.x + z.w) - Math.max(r.x, z.x);
+    const iy = Math.min(r.y + r.h, z.y + z.h) - Math.max(r.y, z.y);
+    if (ix > 0 && iy > 0) covered += ix * iy;
+  }
+  return Math.min(1, covered / area);
+}
+
+/** zóny v pixeloch výsledku (w×h zodpovedá celej etikete) */
+export function zonesToPx(masks: MaskZone[], size: LabelSizeMm, w: number, h: number): Rect[] {
+  const sx = w / size.widthMm;
+  const sy = h / size.heightMm;
+  return masks.map((m) => ({ x: m.x * sx, y: m.y * sy, w: m.w * sx, h: m.h * sy }));
+}
+
+/** v1 odpovede a náhradný obrázok nemusia mať w/h – doplní ich z obrázka výsledku */
+export async function withImageSize(view: LabelView): Promise<LabelView> {
+  if (view.w && view.h) return view;
+  const img = await loadImage(view.url).catch(() => null);
+  return img?.naturalWidth ? { ...view, w: img.naturalWidth, h: img.naturalHeight } : view;
+}
+
+/**
+ * Odfiltruje grafické boxy a OCR rozdiely v maskovaných zónach.
+ * OCR rozdiel bez polohy (`box`) sa nedá umiestniť – ten musí odfiltrovať BE,
+ * ktorému masky posielame spolu s požiadavkou; počet takých nálezov ide do `maskSkipped`.
+ */
+export function applyMasks(view: LabelView, masks: MaskZone[], size: LabelSizeMm): LabelView {
+  if (!masks.length || !size.widthMm || !size.heightMm) return view;
+  if (!view.w || !view.h) {
+    const skipped = (view.boxes?.length ?? 0) + (view.ocrDiffs?.length ?? 0);
+    return skipped ? { ...view, maskSkipped: skipped } : view;
+  }
+  const zones = zonesToPx(masks, size, view.w, view.h);
+  const inMask = (r: Rect) => overlapRatio(r, zones) >= MIN_OVERLAP;
+
+  const boxes: Box[] = [];
+  const maskedBoxes: Box[] = [];
+  for (const b of view.boxes || []) (inMask(b) ? maskedBoxes : boxes).push(b);
+
+  const ocrDiffs: OcrDiff[] = [];
+  const maskedDiffs: OcrDiff[] = [];
+  for (const d of view.ocrDiffs || []) (d.box && inMask(d.box) ? maskedDiffs : ocrDiffs).push(d);
+  const skipped = ocrDiffs.filter((d) => !d.box).length;
+
+  if (!maskedBoxes.length && !maskedDiffs.length) return skipped ? { ...view, maskSkipped: skipped } : view;
+  return {
+    ...view,
+    boxes,
+    ocrDiffs,
+    masked: { boxes: maskedBoxes, ocrDiffs: maskedDiffs },
+    maskSkipped: skipped || undefined
+  };
+}
+
+/** masky pre BE – JSON v mm */
+export const masksField = (masks: MaskZone[]) =>
+  JSON.stringify(masks.map(({ x, y, w, h, label }) => ({ x, y, w, h, label })));
+
+/** opak `masksField`; poškodený vstup = žiadne masky */
+export function parseMasks(raw: string | undefined): MaskZone[] {
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    if (!Array.isArray(arr)) return [];
+    return arr
+      .filter((m) => m && [m.x, m.y, m.w, m.h].every((v) => typeof v === "number"))
+      .map((m) => ({ id: crypto.randomUUID(), x: m.x, y: m.y, w: m.w, h: m.h, label: m.label }));
+  } catch {
+    return [];
+  }
+}
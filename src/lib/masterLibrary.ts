@@ -0,0 +1,133 @@
+// src/lib/masterLibrary.ts
+import { ApiError, TIMEOUTS, requestJSON } from "./apiClient";
+import { STORES, idbDelete, idbGet, idbGetAll, idbGetAllByIndex, idbPut } from "./idb";
+import { masksField, type MaskZone } from "./masks";
+
+// ===== knižnica master etikiet (lokálne v IndexedDB) =====
+export type MasterRecord = {
+  id: string;
+  productNumber: string;
+  widthMm: number;
+  heightMm: number;
+  notes: string;
+  image: Blob;
+  /** dataURL náhľadu (JPEG) */
+  previewUrl: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: string;
+  /** maskované zóny v mm (premenlivá tlač) */
+  masks?: MaskZone[];
+  /** kedy bol naposledy odoslaný na BE; chýba = nesynchronizovaný */
+  syncedAt?: number;
+};
+
+/** voliteľná synchronizácia na BE – prázdne = vypnuté */
+export const MASTER_SYNC_URL: string = import.meta.env.VITE_MASTER_SYNC_URL || "";
+
+export type MasterInput = Pick<
+  MasterRecord,
+  "productNumber" | "widthMm" | "heightMm" | "notes" | "image" | "previewUrl" | "createdBy" | "masks"
+>;
+
+const normProduct = (p: string) => p.trim().toUpperCase();
+
+export async function listMasters(): Promise<MasterRecord[]> {
+  const all = await idbGetAll<MasterRecord>(STORES.masters);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getMaster(id: string): Promise<MasterRecord | null> {
+  return (await idbGet<MasterRecord>(STORES.masters, id)) ?? null;
+}
+
+/** najnovší master pre číslo produktu */
+export async function findMasterByProduct(productNumber: string): Promise<MasterRecord | null> {
+  const key = normProduct(productNumber);
+  if (!key) return null;
+  const hits = await idbGetAllByIndex<MasterRecord>(STORES.masters, "productNumber", key);
+  return hits.sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null;
+}
+
+export async function saveMaster(input: MasterInput): Promise<MasterRecord> {
+  const now = Date.now();
+  const rec: MasterRecord = {
+    ...input,
+    productNumber: normProduct(input.productNumber),
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now
+  };
+  await idbPut(STORES.masters, rec);
+  if (MASTER_SYNC_URL) {
+    return pushMaster(rec).catch((e) => {
+      console.warn("Synchronizácia mastra zlyhala:", e);
+      return rec;
+    });
+  }
+  return rec;
+}
+
+/** uloží nové masky k mastru; na BE sa odošle znova */
+export async function updateMasterMasks(rec: MasterRecord, masks: MaskZone[]): Promise<MasterRecord> {
+  const next: MasterRecord = { ...rec, masks, updatedAt: Date.now(), syncedAt: undefined };
+  await idbPut(STORES.masters, next);
+  if (MASTER_SYNC_URL) {
+    return pushMaster(next).catch((e) => {
+      console.warn("Synchronizácia mastra zlyhala:", e);
+      return next;
+    });
+  }
+  return next;
+}
+
+export async function deleteMaster(id: string) {
+  await idbDelete(STORES.masters, id);
+}
+
+/** odošle master na BE a označí ho ako synchronizovaný */
+export async function pushMaster(rec: MasterRecord): Promise<MasterRecord> {
+  const fd = new FormData();
+  fd.append("id", rec.id);
+  fd.append("productNumber", rec.productNumber);
+  fd.append("widthMm", String(rec.widthMm));
+  fd.append("heightMm", String(rec.heightMm));
+  fd.append("notes", rec.notes);
+  fd.append("masks", masksField(rec.masks ?? []));
+  fd.append("image", rec.image, `master-${rec.productNumber || rec.id}.jpg`);
+  await requestJSON(MASTER_SYNC_URL, {
+    method: "POST",
+    body: fd,
+    timeoutMs: TIMEOUTS.pyCompare
+  }).catch((e) => {
+    // BE môže vrátiť prázdne 201/204
+    if (!(e instanceof ApiError && e.kind === "parse")) throw e;
+  });
+  const synced = { ...rec, syncedAt: Date.now() };
+  await idbPut(STORES.masters, synced);
+  return synced;
+}
+
+export type MasterSyncResult = {
+  ok: number;
+  failed: { productNumber: string; error: string }[];
+};
+
+/** odošle všetky nesynchronizované; chyba jedného mastra nezastaví ostatné */
+export async function syncMasters(): Promise<MasterSyncResult> {
+  const result: MasterSyncResult = { ok: 0, failed: [] };
+  if (!MASTER_SYNC_URL) return result;
+  for (const m of await listMasters()) {
+    if (m.syncedAt) continue;
+    try {
+      await pushMaster(m);
+      result.ok++;
+    } catch (e) {
+      result.failed.push({
+        productNumber: m.productNumber || m.id,
+        error: e instanceof Error ? e.message : String(e)
+      });
+    }
+  }
+  return result;
+}
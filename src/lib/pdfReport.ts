@@ -0,0 +1,552 @@
+// src/lib/pdfReport.ts
+import { TIMEOUTS, requestJSON, ApiError } from "./apiClient";
+import { BC_SOURCE_LABELS } from "./clientBarcodes";
+import { compareGs1, formatBarcodeValue } from "./gs1";
+import { DEFECT_AREA_LABELS, DEFECT_STATUS_LABELS, decidedDefects } from "./defects";
+import type { InspectionRecord } from "./inspectionHistory";
+import { drawBoxes, loadImage } from "./labelHelpers";
+import { buildPdf, canvasToPdfPage } from "./pdfWriter";
+import {
+  RUN_STATUS_LABELS,
+  planLabel,
+  runTally,
+  runVerdict,
+  type SamplingRun
+} from "./sampling";
+import { barcodeCheckLines, type Verdict } from "./summary";
+import { DIFF_KIND_LABELS, diffKind, diffLineLabel } from "./textDiff";
+
+// ===== PDF protokol inšpekcie (A4, 150 DPI, kreslené do canvasu) =====
+export const COMPANY_NAME: string = import.meta.env.VITE_COMPANY_NAME || "GPCS";
+/** voliteľné priloženie PDF k zákazke na BE – prázdne = len stiahnutie */
+export const REPORT_UPLOAD_URL: string = import.meta.env.VITE_REPORT_UPLOAD_URL || "";
+
+const PAGE_W = 1240;
+const PAGE_H = 1754;
+const MARGIN = 90;
+const CONTENT_W = PAGE_W - 2 * MARGIN;
+const FOOTER_H = 60;
+const FONT = "Helvetica, Arial, sans-serif";
+
+type TextOpts = {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  x?: number;
+  maxW?: number;
+  mono?: boolean;
+};
+
+/** jednoduchý "tok" obsahu cez viac strán */
+function createLayout(logo: HTMLImageElement | null, title: string) {
+  const pages: HTMLCanvasElement[] = [];
+  let ctx!: CanvasRenderingContext2D;
+  let y = 0;
+
+  const setFont = (o: TextOpts) => {
+    ctx.font = `${o.bold ? "bold " : ""}${o.size ?? 22}px ${o.mono ? "monospace" : FONT}`;
+    ctx.fillStyle = o.color ?? "#0f172a";
+    ctx.textBaseline = "top";
+  };
+
+  function newPage() {
+    const c = document.createElement("canvas");
+    c.width = PAGE_W;
+    c.height = PAGE_H;
+    const next = c.getContext("2d");
+    if (!next) throw new Error("Canvas nie je dostupný");
+    ctx = next;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, PAGE_W, PAGE_H);
+    pages.push(c);
+
+    // hlavička s logom na každej strane
+    let x = MARGIN;
+    if (logo) {
+      const h = 56;
+      const w = (logo.width / logo.height) * h;
+      ctx.drawImage(logo, MARGIN, MARGIN - 20, w, h);
+      x += w + 20;
+    }
+    setFont({ size: 30, bold: true });
+    ctx.fillText(COMPANY_NAME, x, MARGIN - 18);
+    setFont({ size: 20, color: "#475569" });
+    ctx.fillText(title, x, MARGIN + 18);
+    ctx.strokeStyle = "#cbd5e1";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN, MARGIN + 56);
+    ctx.lineTo(PAGE_W - MARGIN, MARGIN + 56);
+    ctx.stroke();
+    y = MARGIN + 80;
+  }
+
+  function ensure(h: number) {
+    if (y + h > PAGE_H - MARGIN - FOOTER_H) newPage();
+  }
+
+  function wrap(text: string, maxW: number): string[] {
+    const out: string[] = [];
+    for (const para of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of para.split(/\s+/)) {
+        const cand = line ? `${line} ${word}` : word;
+        if (ctx.measureText(cand).width <= maxW) {
+          line = cand;
+          continue;
+        }
+        if (line) out.push(line);
+        // príliš dlhé slovo (kód, base64…) rozdelíme po znakoch
+        line = "";
+        for (const ch of word) {
+          if (ctx.measureText(line + ch).width > maxW) {
+            out.push(line);
+            line = ch;
+          } else line += ch;
+        }
+      }
+      out.push(line);
+    }
+    return out;
+  }
+
+  /** vypíše (zalomený) text a posunie kurzor */
+  function text(s: string, o: TextOpts = {}) {
+    setFont(o);
+    const size = o.size ?? 22;
+    const lh = Math.round(size * 1.35);
+    for (const line of wrap(s, o.maxW ?? CONTENT_W - ((o.x ?? MARGIN) - MARGIN))) {
+      ensure(lh);
+      setFont(o);
+      ctx.fillText(line, o.x ?? MARGIN, y);
+      y += lh;
+    }
+  }
+
+  /** riadok tabuľky – stĺpce so šírkou v px, výška podľa najdlhšej bunky */
+  function row(cells: { text: string; w: number; color?: string; mono?: boolean }[], o: TextOpts = {}) {
+    setFont(o);
+    const size = o.size ?? 20;
+    const lh = Math.round(size * 1.35);
+    const wrapped = cells.map((c) => {
+      setFont({ ...o, mono: c.mono });
+      return wrap(c.text, c.w - 12);
+    });
+    const h = Math.max(...wrapped.map((l) => l.length)) * lh + 8;
+    ensure(h);
+    let x = MARGIN;
+    cells.forEach((c, i) => {
+      setFont({ ...o, color: c.color ?? o.color, mono: c.mono });
+      wrapped[i].forEach((l, li) => ctx.fillText(l, x, y + 4 + li * lh));
+      x += c.w;
+    });
+    ctx.strokeStyle = "#e2e8f0";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN, y + h);
+    ctx.lineTo(PAGE_W - MARGIN, y + h);
+    ctx.stroke();
+    y += h;
+  }
+
+  function heading(s: string) {
+    gap(18);
+    ensure(60);
+    text(s, { size: 26, bold: true });
+    gap(6);
+  }
+
+  function gap(h: number) {
+    y += h;
+  }
+
+  function image(img: HTMLImageElement, draw?: (c: CanvasRenderingContext2D, scale: number, x: number, y: number) => void) {
+    const maxH = PAGE_H - MARGIN - FOOTER_H - (MARGIN + 80);
+    const scale = Math.min(CONTENT_W / img.width, Math.min(maxH, 760) / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ensure(h + 10);
+    const x = MARGIN + (CONTENT_W - w) / 2;
+    ctx.drawImage(img, x, y, w, h);
+    ctx.strokeStyle = "#cbd5e1";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, w, h);
+    draw?.(ctx, scale, x, y);
+    y += h + 10;
+  }
+
+  /** päta "Strana i / N" – až keď poznáme počet strán */
+  function finish(stamp: string) {
+    pages.forEach((c, i) => {
+      const p = c.getContext("2d");
+      if (!p) return;
+      p.font = `18px ${FONT}`;
+      p.fillStyle = "#64748b";
+      p.textBaseline = "bottom";
+      p.fillText(stamp, MARGIN, PAGE_H - MARGIN + 30);
+      const label = `Strana ${i + 1} / ${pages.length}`;
+      p.fillText(label, PAGE_W - MARGIN - p.measureText(label).width, PAGE_H - MARGIN + 30);
+    });
+    return pages;
+  }
+
+  newPage();
+  return { text, row, heading, gap, image, ensure, finish, getY: () => y, getCtx: () => ctx };
+}
+
+const verdictColor = (v: Verdict) =>
+  v === "OK" ? "#15803d" : v === "Chyba" ? "#b91c1c" : "#475569";
+
+type Layout = ReturnType<typeof createLayout>;
+
+function signatures(L: Layout) {
+  L.gap(40);
+  L.ensure(220);
+  L.heading("Podpisy");
+  L.gap(60);
+  const ctx = L.getCtx();
+  const y = L.getY();
+  const colW = (CONTENT_W - 60) / 2;
+  ["Kontroloval (operátor)", "Schválil (majster)"].forEach((label, i) => {
+    const x = MARGIN + i * (colW + 60);
+    ctx.strokeStyle = "#0f172a";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.lineTo(x + colW, y);
+    ctx.stroke();
+    ctx.font = `18px ${FONT}`;
+    ctx.fillStyle = "#475569";
+    ctx.textBaseline = "top";
+    ctx.fillText(`${label} – meno, dátum, podpis`, x, y + 8);
+  });
+  L.gap(40);
+}
+
+async function toPdf(L: Layout, title: string, orderNumber: string) {
+  const pages = L.finish(`${title} · ${orderNumber || "-"} · vygenerované ${new Date().toLocaleString()}`);
+  const pdfPages = [];
+  for (const c of pages) pdfPages.push(await canvasToPdfPage(c));
+  return buildPdf(pdfPages, { title: `${title} ${orderNumber || ""}`.trim() });
+}
+
+function download(blob: Blob, filename: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 1000);
+}
+
+export async function generatePdfReport(rec: InspectionRecord): Promise<Blob> {
+  const logo = await loadImage("/logo.png").catch(() => null);
+  const title = "Protokol o kontrole etikety";
+  const L = createLayout(logo, title);
+  const created = new Date(rec.createdAt);
+  const { view, summary } = rec;
+
+  // --- meta ---
+  const meta: [string, string][] = [
+    ["Operátor", rec.operator || "-"],
+    ["Číslo zákazky", rec.orderNumber || "-"],
+    ["Číslo produktu", rec.productNumber || "-"],
+    ["Dátum/čas", created.toLocaleString()],
+    ["ID inšpekcie", rec.id]
+  ];
+  meta.forEach(([k, v]) =>
+    L.row([
+      { text: k, w: 260, color: "#475569" },
+      { text: v, w: CONTENT_W - 260 }
+    ], { size: 22 })
+  );
+
+  L.gap(16);
+  L.text(rec.passed ? "VÝSLEDOK: VYHOVUJE" : "VÝSLEDOK: NEVYHOVUJE", {
+    size: 32,
+    bold: true,
+    color: rec.passed ? "#15803d" : "#b91c1c"
+  });
+
+  // --- verdikty ---
+  L.heading("Vyhodnotenie");
+  ([
+    ["Text", summary.text],
+    ["Čiarový kód", summary.bc],
+    ["Grafika", summary.gfx]
+  ] as [string, Verdict][]).forEach(([k, v]) =>
+    L.row([
+      { text: k, w: 260 },
+      { text: v, w: CONTENT_W - 260, color: verdictColor(v) }
+    ], { size: 22, bold: true })
+  );
+  if (summary.bcMismatch) L.text("Nezhoda čiarových kódov Master vs Scan", { size: 20, color: "#b91c1c" });
+  if (view.boxes?.length) L.text(`Nájdené grafické rozdiely: ${view.boxes.length}`, { size: 20 });
+  if (view.masked) {
+    L.text(
+      `Ignorované v maskovaných zónach: ${view.masked.boxes.length} grafických, ${view.masked.ocrDiffs.length} textových`,
+      { size: 20, color: "#475569" }
+    );
+  }
+  if (view.maskSkipped) {
+    L.text(`Masky sa nedali použiť na ${view.maskSkipped} nálezov bez polohy – treba ich posúdiť ručne.`, {
+      size: 20,
+      color: "#b45309"
+    });
+  }
+
+  // --- náhľad s boxami ---
+  const img = await loadImage(view.url).catch(() => null);
+  if (img) {
+    L.heading("Snímok etikety s vyznačenými rozdielmi");
+    L.image(img, (c, scale, x, y) => {
+      const sx = (img.width / (view.w || img.width)) * scale;
+      const sy = (img.height / (view.h || img.height)) * scale;
+      drawBoxes(c, view.boxes || [], sx, sy, x, y);
+    });
+  }
+
+  // --- OCR ---
+  L.heading("Text (OCR)");
+  if (view.masterTextSource === "artwork") {
+    L.text("Referenčný text mastra je z textovej vrstvy PDF podkladov.", { size: 19, color: "#6d28d9" });
+  }
+  const diffs = view.ocrDiffs || [];
+  if (!diffs.length) {
+    L.text(view.ocrMaster || view.ocrScan ? "Bez rozdielov." : "Text nebol vyhodnotený.", { size: 20 });
+  } else {
+    L.row([
+      { text: "Riadok", w: 220 },
+      { text: "Master", w: (CONTENT_W - 220) / 2 },
+      { text: "Scan", w: (CONTENT_W - 220) / 2 }
+    ], { size: 20, bold: true });
+    diffs.forEach((d) =>
+      L.row([
+        {
+          text: `${diffLineLabel(d)}\n${DIFF_KIND_LABELS[diffKind(d)]}${
+            d.variable ? `\n${d.variable.valid ? "premenlivé – platné" : `pravidlo: ${d.variable.reason}`}` : ""
+          }`,
+          w: 220,
+          color: d.variable ? (d.variable.valid ? "#15803d" : "#b91c1c") : undefined
+        },
+        { text: d.master || "∅", w: (CONTENT_W - 220) / 2, mono: true },
+        { text: d.scan || "∅", w: (CONTENT_W - 220) / 2, mono: true, color: "#b45309" }
+      ], { size: 19 })
+    );
+  }
+
+  // --- čiarové kódy ---
+  L.heading("Čiarové kódy");
+  barcodeCheckLines(view, summary).forEach((c) =>
+    L.text(`${c.label}: ${c.status}${c.detail ? ` (${c.detail})` : ""}`, {
+      size: 20,
+      color: c.status === "Chyba" ? "#b91c1c" : c.status === "OK" ? "#15803d" : undefined
+    })
+  );
+  L.gap(10);
+  const bc = view.barcode || [];
+  if (!bc.length) {
+    L.text("Bez kódu.", { size: 20 });
+  } else {
+    L.row([
+      { text: "Strana", w: 140 },
+      { text: "Symbológia", w: 200 },
+      { text: "Hodnota", w: CONTENT_W - 140 - 200 - 260 },
+      { text: "Stav", w: 260 }
+    ], { size: 20, bold: true });
+    bc.forEach((b) =>
+      L.row([
+        { text: `${b.side || "-"}${b.source ? `\n${BC_SOURCE_LABELS[b.source]}` : ""}`, w: 140 },
+        { text: b.symbology, w: 200 },
+        { text: formatBarcodeValue(b), w: CONTENT_W - 140 - 200 - 260, mono: true },
+        {
+          text: b.valid ? "OK" : `CHYBA${b.reason ? `: ${b.reason}` : ""}`,
+          w: 260,
+          color: b.valid ? "#15803d" : "#b91c1c"
+        }
+      ], { size: 19 })
+    );
+  }
+  const gs1 = compareGs1(bc);
+  if (gs1) {
+    L.gap(10);
+    L.row([
+      { text: "AI", w: 100 },
+      { text: "Pole GS1", w: 340 },
+      { text: "Master", w: (CONTENT_W - 440) / 2 },
+      { text: "Scan", w: (CONTENT_W - 440) / 2 }
+    ], { size: 20, bold: true });
+    gs1.forEach((r) =>
+      L.row([
+        { text: `(${r.ai})`, w: 100, mono: true },
+        { text: r.title, w: 340 },
+        { text: r.master ?? "–", w: (CONTENT_W - 440) / 2, mono: true },
+        { text: r.scan ?? "–", w: (CONTENT_W - 440) / 2, mono: true, color: r.equal ? undefined : "#b91c1c" }
+      ], { size: 19 })
+    );
+  }
+  view.barcodeCheck?.disagreements.forEach((d) =>
+    L.text(`Nezhoda BE a prehliadača – ${d}`, { size: 19, color: "#b45309" })
+  );
+
+  // --- povolenie napriek kvalite snímku ---
+  const qo = rec.qualityOverride;
+  if (qo) {
+    L.text(
+      `Porovnané napriek kvalite snímku – povolil ${qo.byName || qo.by} · ${new Date(qo.at).toLocaleString()}`,
+      { size: 19, color: "#b45309" }
+    );
+    qo.issues.forEach((i) => L.text(`• ${i}`, { size: 19, color: "#b45309" }));
+  }
+
+  // --- rozhodnutia k nálezom ---
+  const decided = decidedDefects(view, rec.decisions);
+  if (decided.length) {
+    L.heading("Posúdenie nálezov");
+    L.row([
+      { text: "Nález", w: 420 },
+      { text: "Rozhodnutie", w: 220 },
+      { text: "Dôvod / kto / kedy", w: CONTENT_W - 640 }
+    ], { size: 20, bold: true });
+    decided.forEach((d) =>
+      L.row([
+        { text: `${DEFECT_AREA_LABELS[d.area]}: ${d.title}`, w: 420 },
+        {
+          text: DEFECT_STATUS_LABELS[d.decision.status],
+          w: 220,
+          color: d.decision.status === "waived" ? "#0369a1" : "#b91c1c"
+        },
+        {
+          text: `${d.decision.reason || "-"}\n${d.decision.byName || d.decision.by} · ${new Date(d.decision.at).toLocaleString()}`,
+          w: CONTENT_W - 640
+        }
+      ], { size: 19 })
+    );
+  }
+
+  // --- podpisy ---
+  signatures(L);
+  return toPdf(L, title, rec.orderNumber);
+}
+
+// ===== PDF protokol behu vzorkovania =====
+export async function generateRunPdfReport(run: SamplingRun, samples: InspectionRecord[]): Promise<Blob> {
+  const logo = await loadImage("/logo.png").catch(() => null);
+  const title = "Protokol o výberovej kontrole etikiet";
+  const L = createLayout(logo, title);
+  const tally = runTally(samples);
+  const verdict = runVerdict(run.plan, tally);
+
+  const meta: [string, string][] = [
+    ["Operátor", run.operator || "-"],
+    ["Číslo zákazky", run.orderNumber || "-"],
+    ["Číslo produktu", run.productNumber || "-"],
+    ["Začiatok", new Date(run.startedAt).toLocaleString()],
+    ["Koniec", run.closedAt ? new Date(run.closedAt).toLocaleString() : "beh neukončený"],
+    ["ID behu", run.id]
+  ];
+  meta.forEach(([k, v]) =>
+    L.row([
+      { text: k, w: 260, color: "#475569" },
+      { text: v, w: CONTENT_W - 260 }
+    ], { size: 22 })
+  );
+
+  L.gap(16);
+  L.text(`VÝSLEDOK: ${RUN_STATUS_LABELS[verdict.status]}`, {
+    size: 32,
+    bold: true,
+    color: verdict.status === "accepted" ? "#15803d" : verdict.status === "rejected" ? "#b91c1c" : "#b45309"
+  });
+  L.text(verdict.detail, { size: 20 });
+
+  L.heading("Plán výberu");
+  L.text(run.plan ? planLabel(run.plan) : "Bez plánu AQL – vyhovuje, ak sú všetky vzorky OK.", { size: 20 });
+
+  // --- súčet po kategóriách ---
+  L.heading(`Vzorky: ${tally.samples} · OK ${tally.passed} · NOK ${tally.failed}`);
+  const colW = (CONTENT_W - 260) / 3;
+  L.row([
+    { text: "Kategória", w: 260 },
+    { text: "OK", w: colW },
+    { text: "Chyba", w: colW },
+    { text: "Bez kódu", w: colW }
+  ], { size: 20, bold: true });
+  ([
+    ["Text", tally.text],
+    ["Čiarový kód", tally.bc],
+    ["Grafika", tally.gfx]
+  ] as const).forEach(([k, t]) =>
+    L.row([
+      { text: k, w: 260 },
+      { text: String(t.OK), w: colW, color: verdictColor("OK") },
+      { text: String(t.Chyba), w: colW, color: t.Chyba ? verdictColor("Chyba") : undefined },
+      { text: String(t["Bez kódu"]), w: colW, color: verdictColor("Bez kódu") }
+    ], { size: 20 })
+  );
+
+  // --- jednotlivé vzorky ---
+  L.heading("Vzorky");
+  const vw = 150;
+  L.row([
+    { text: "#", w: 70 },
+    { text: "Čas", w: 280 },
+    { text: "Text", w: vw },
+    { text: "Kód", w: vw },
+    { text: "Grafika", w: vw },
+    { text: "Výsledok", w: CONTENT_W - 350 - 3 * vw }
+  ], { size: 20, bold: true });
+  samples.forEach((r, i) =>
+    L.row([
+      { text: String(i + 1), w: 70 },
+      {
+        text: `${new Date(r.createdAt).toLocaleString()}${r.sheet ? `\nhárok #${r.sheet.index + 1}` : ""}`,
+        w: 280
+      },
+      { text: r.summary.text, w: vw, color: verdictColor(r.summary.text) },
+      { text: r.summary.bc, w: vw, color: verdictColor(r.summary.bc) },
+      { text: r.summary.gfx, w: vw, color: verdictColor(r.summary.gfx) },
+      {
+        text: `${r.passed ? "OK" : "NOK"}${r.qualityOverride ? "\npovolené napriek kvalite" : ""}`,
+        w: CONTENT_W - 350 - 3 * vw,
+        color: r.passed ? "#15803d" : "#b91c1c"
+      }
+    ], { size: 19 })
+  );
+  if (!samples.length) L.text("Zatiaľ žiadna vzorka.", { size: 20 });
+
+  signatures(L);
+  return toPdf(L, title, run.orderNumber);
+}
+
+export const pdfFileName = (rec: InspectionRecord) =>
+  `protokol-${(rec.orderNumber || "bez-zakazky").replace(/[^\w.-]+/g, "_")}-${rec.createdAt}.pdf`;
+
+export async function downloadPdfReport(rec: InspectionRecord) {
+  download(await generatePdfReport(rec), pdfFileName(rec));
+}
+
+export async function downloadRunPdfReport(run: SamplingRun, samples: InspectionRecord[]) {
+  download(
+    await generateRunPdfReport(run, samples),
+    `protokol-beh-${(run.orderNumber || "bez-zakazky").replace(/[^\w.-]+/g, "_")}-${run.startedAt}.pdf`
+  );
+}
+
+/** priloží PDF k zákazke na BE (REPORT_UPLOAD_URL) */
+export async function attachPdfReport(rec: InspectionRecord) {
+  if (!REPORT_UPLOAD_URL) throw new Error("Priloženie k zákazke nie je nakonfigurované");
+  const blob = await generatePdfReport(rec);
+  const fd = new FormData();
+  fd.append("orderNumber", rec.orderNumber);
+  fd.append("productNumber", rec.productNumber);
+  fd.append("inspectionId", rec.id);
+  fd.append("file", blob, pdfFileName(rec));
+  await requestJSON(REPORT_UPLOAD_URL, {
+    method: "POST",
+    body: fd,
+    timeoutMs: TIMEOUTS.pyCompare
+  }).catch((e) => {
+    // prázdne 201/204 je úspech
+    if (!(e instanceof ApiError && e.kind === "parse")) throw e;
+  });
+}
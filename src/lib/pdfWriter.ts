@@ -0,0 +1,112 @@
+// src/lib/pdfWriter.ts
+
+// ===== minimálny PDF zapisovač – každá strana = jeden JPEG cez celú plochu =====
+// Text kreslíme do canvasu (diakritika bez vkladania fontov), PDF len obalí obrázky.
+export type PdfPageImage = {
+  jpeg: Uint8Array;
+  widthPx: number;
+  heightPx: number;
+};
+
+/** A4 v bodoch (1/72 palca) */
+export const A4_PT = { w: 595.28, h: 841.89 };
+
+const enc = new TextEncoder();
+
+export function buildPdf(
+  pages: PdfPageImage[],
+  opts: { title?: string; pageSize?: { w: number; h: number } } = {}
+): Blob {
+  const size = opts.pageSize ?? A4_PT;
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let pos = 0;
+
+  const push = (b: Uint8Array | string) => {
+    const bytes = typeof b === "string" ? enc.encode(b) : b;
+    chunks.push(bytes);
+    pos += bytes.length;
+  };
+  const obj = (id: number, body: () => void) => {
+    offsets[id] = pos;
+    push(`${id} 0 obj\n`);
+    body();
+    push("\nendobj\n");
+  };
+
+  // 1 katalóg, 2 strom strán, 3 info, potom pre každú stranu: strana, obsah, obrázok
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  const objCount = 3 + pages.length * 3;
+
+  push("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  obj(1, () => push("<< /Type /Catalog /Pages 2 0 R >>"));
+  obj(2, () =>
+    push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`)
+  );
+  obj(3, () =>
+    push(`<< /Producer (GPCS ScanControll) /Title ${pdfString(opts.title ?? "Report")} >>`)
+  );
+
+  pages.forEach((p, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imgId = pageId + 2;
+    const w = size.w.toFixed(2);
+    const h = size.h.toFixed(2);
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+
+    obj(pageId, () =>
+      push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] ` +
+          `/Resources << /XObject << /Im0 ${imgId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+    );
+    obj(contentId, () => push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`));
+    obj(imgId, () => {
+      push(
+        `<< /Type /XObject /Subtype /Image /Width ${p.widthPx} /Height ${p.heightPx} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${p.jpeg.length} >>\nstream\n`
+      );
+      push(p.jpeg);
+      push("\nendstream");
+    });
+  });
+
+  const xrefPos = pos;
+  let xref = `xref\n0 ${objCount + 1}\n0000000000 65535 f \n`;
+  for (let id = 1; id <= objCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  push(xref);
+  push(`trailer\n<< /Size ${objCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefPos}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+}
+
+/** PDF text string v UTF-16BE s BOM (diakritika v metadátach) */
+function pdfString(s: string): string {
+  let hex = "FEFF";
+  for (const ch of s) {
+    const code = ch.codePointAt(0) ?? 0x3f;
+    if (code > 0xffff) {
+      const c = code - 0x10000;
+      hex += (0xd800 + (c >> 10)).toString(16).padStart(4, "0");
+      hex += (0xdc00 + (c & 0x3ff)).toString(16).padStart(4, "0");
+    } else {
+      hex += code.toString(16).padStart(4, "0");
+    }
+  }
+  return `<${hex.toUpperCase()}>`;
+}
+
+export async function canvasToPdfPage(canvas: HTMLCanvasElement, quality = 0.9): Promise<PdfPageImage> {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob((b) => resolve(b), "image/jpeg", quality)
+  );
+  if (!blob) throw new Error("Stranu sa nepodarilo zakódovať do JPEG");
+  return {
+    jpeg: new Uint8Array(await blob.arrayBuffer()),
+    widthPx: canvas.width,
+    heightPx: canvas.height
+  };
+}
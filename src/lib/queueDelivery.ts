@@ -0,0 +1,66 @@
+// src/lib/queueDelivery.ts
+import { applyMasterText } from "./artwork";
+import { mergeClientBarcodes, readClientBarcodes } from "./clientBarcodes";
+import { decodeCompareResponse } from "./compareDecoder";
+import { failQueued, removeQueued, type QueuedCompare } from "./compareQueue";
+import { applyExpectedCodes, getExpectedCodes } from "./expectedCodes";
+import { checkBarcodes } from "./gs1";
+import { saveInspection } from "./inspectionHistory";
+import { applyMasks, parseMasks, withImageSize } from "./masks";
+import { computeSummary, isPass } from "./summary";
+import { applyTextRules, getTextRules } from "./textRules";
+
+let delivering = false;
+
+/**
+ * Spracované záznamy z offline fronty dekóduje a presunie do histórie.
+ * ID záznamu ostáva rovnaké, takže súbežné doručenie z dvoch kariet nič nezdvojí.
+ */
+export async function deliverFinished(entries: QueuedCompare[]): Promise<number> {
+  if (delivering) return 0;
+  delivering = true;
+  let delivered = 0;
+  try {
+    for (const entry of entries) {
+      if (entry.status !== "done" || !entry.result) continue;
+      const decoded = decodeCompareResponse(entry.result.data, {
+        fallbackImage: entry.etiketaUrl
+      });
+      if (!decoded.label) {
+        await failQueued(entry.id, "Porovnanie nevrátilo použiteľný výsledok");
+        continue;
+      }
+      const sized = await withImageSize(decoded.label);
+      const masked = applyMasks(applyMasterText(sized, entry.masterText), parseMasks(entry.fields.masks), {
+        widthMm: Number(entry.fields.labelWidthMm) || 0,
+        heightMm: Number(entry.fields.labelHeightMm) || 0
+      });
+      // dátum kontroly = čas zaradenia do fronty
+      const ruled = applyTextRules(masked, await getTextRules(entry.meta.productNumber), {
+        today: new Date(entry.createdAt),
+        orderNumber: entry.meta.orderNumber
+      });
+      const label = applyExpectedCodes(
+        checkBarcodes(mergeClientBarcodes(ruled, await readClientBarcodes(entry.masterUrl, entry.etiketaUrl))),
+        await getExpectedCodes(entry.meta.productNumber)
+      );
+      const summary = computeSummary(label);
+      await saveInspection({
+        id: entry.id,
+        createdAt: entry.result.finishedAt,
+        ...entry.meta,
+        summary,
+        passed: isPass(summary),
+        view: label,
+        masterUrl: entry.masterUrl,
+        etiketaUrl: entry.etiketaUrl,
+        source: { backend: entry.result.backend, path: entry.result.path }
+      });
+      await removeQueued(entry.id);
+      delivered++;
+    }
+  } finally {
+    delivering = false;
+  }
+  return delivered;
+}
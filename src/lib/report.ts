@@ -0,0 +1,96 @@
+// src/lib/report.ts
+import { decidedDefects } from "./defects";
+import { compareGs1 } from "./gs1";
+import { barcodeCheckLines } from "./summary";
+import type { InspectionRecord } from "./inspectionHistory";
+import { runTally, runVerdict, type SamplingRun } from "./sampling";
+
+// ===== JSON report inšpekcie =====
+export function buildReport(rec: InspectionRecord) {
+  const { view, summary } = rec;
+  return {
+    createdAt: new Date(rec.createdAt).toISOString(),
+    operator: rec.operator,
+    orderNumber: rec.orderNumber,
+    productNumber: rec.productNumber,
+    summary: {
+      text: summary.text,
+      barcode: summary.bc,
+      graphics: summary.gfx
+    },
+    ocr: {
+      master: view.ocrMaster,
+      masterSource: view.masterTextSource ?? "ocr",
+      scan: view.ocrScan,
+      diffs: view.ocrDiffs || []
+    },
+    barcode: {
+      match: view.barcodeMatch,
+      items: view.barcode || [],
+      gs1: compareGs1(view.barcode || []),
+      expected: view.expectedCheck?.codes ?? [],
+      checks: barcodeCheckLines(view, summary)
+    },
+    graphics: { diffBoxes: view.boxes || [] },
+    masked: view.masked ?? null,
+    maskSkipped: view.maskSkipped ?? 0,
+    qualityOverride: rec.qualityOverride
+      ? { ...rec.qualityOverride, at: new Date(rec.qualityOverride.at).toISOString() }
+      : null,
+    decisions: decidedDefects(view, rec.decisions).map((d) => ({
+      key: d.key,
+      area: d.area,
+      item: d.title,
+      status: d.decision.status,
+      reason: d.decision.reason,
+      by: d.decision.by,
+      byName: d.decision.byName,
+      at: new Date(d.decision.at).toISOString()
+    })),
+    image: view.url
+  };
+}
+
+// ===== JSON report behu vzorkovania =====
+export function buildRunReport(run: SamplingRun, samples: InspectionRecord[]) {
+  const tally = runTally(samples);
+  return {
+    runId: run.id,
+    startedAt: new Date(run.startedAt).toISOString(),
+    closedAt: run.closedAt ? new Date(run.closedAt).toISOString() : null,
+    operator: run.operator,
+    orderNumber: run.orderNumber,
+    productNumber: run.productNumber,
+    plan: run.plan,
+    verdict: runVerdict(run.plan, tally),
+    tally,
+    samples: samples.map((r, i) => ({
+      sample: i + 1,
+      inspectionId: r.id,
+      createdAt: new Date(r.createdAt).toISOString(),
+      passed: r.passed,
+      summary: { text: r.summary.text, barcode: r.summary.bc, graphics: r.summary.gfx },
+      sheet: r.sheet ?? null,
+      qualityOverride: !!r.qualityOverride
+    }))
+  };
+}
+
+function downloadJson(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json"
+  });
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(a.href);
+}
+
+export function downloadReport(rec: InspectionRecord) {
+  downloadJson(buildReport(rec), `scancontroll-report-${rec.createdAt}.json`);
+}
+
+export function downloadRunReport(run: SamplingRun, samples: InspectionRecord[]) {
+  downloadJson(buildRunReport(run, samples), `scancontroll-run-${run.startedAt}.json`);
+}
@@ -0,0 +1,38 @@
+// src/lib/roles.ts
+
+// ===== roly a oprávnenia =====
+export type Role = "operator" | "supervisor" | "admin";
+
+export const ROLES: Role[] = ["operator", "supervisor", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  operator: "Operátor",
+  supervisor: "Majster",
+  admin: "Administrátor"
+};
+
+export const isRole = (v: unknown): v is Role =>
+  typeof v === "string" && (ROLES as string[]).includes(v);
+
+export type Permission =
+  | "compare"
+  | "review"
+  | "results.delete"
+  | "results.override"
+  | "settings"
+  | "masters.save"
+  | "masters.manage";
+
+const PERMISSIONS: Record<Permission, Role[]> = {
+  compare: ["operator", "supervisor", "admin"],
+  review: ["supervisor", "admin"],
+  "results.delete": ["supervisor", "admin"],
+  "results.override": ["supervisor", "admin"],
+  settings: ["admin"],
+  "masters.save": ["supervisor", "admin"],
+  "masters.manage": ["admin"]
+};
+
+export function can(role: Role | null | undefined, perm: Permission): boolean {
+  return !!role && PERMISSIONS[perm].includes(role);
+}
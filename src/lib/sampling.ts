@@ -0,0 +1,209 @@
+// src/lib/sampling.ts
+import { STORES, idbDelete, idbGet, idbPut } from "./idb";
+import { listInspections, type InspectionRecord } from "./inspectionHistory";
+import type { MaskZone } from "./masks";
+import type { Verdict } from "./summary";
+
+// ===== výberová kontrola podľa AQL (ISO 2859-1, jednoduchý výber, normálna kontrola) =====
+export type InspectionLevel = "I" | "II" | "III";
+
+export const INSPECTION_LEVELS: InspectionLevel[] = ["I", "II", "III"];
+
+export const AQLS = [0.065, 0.1, 0.15, 0.25, 0.4, 0.65, 1, 1.5, 2.5, 4, 6.5];
+
+const CODE_LETTERS = "ABCDEFGHJKLMNPQR";
+const SAMPLE_SIZES = [2, 3, 5, 8, 13, 20, 32, 50, 80, 125, 200, 315, 500, 800, 1250, 2000];
+
+/** horné hranice veľkosti dávky a k nim index kódového písmena podľa úrovne kontroly */
+const LOT_LIMITS = [8, 15, 25, 50, 90, 150, 280, 500, 1200, 3200, 10000, 35000, 150000, 500000, Infinity];
+const LOT_LETTERS: Record<InspectionLevel, number[]> = {
+  I: [0, 0, 1, 2, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+  II: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14],
+  III: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]
+};
+
+/**
+ * Uhlopriečka tabuľky 2-A: prijímacie číslo podľa (písmeno + AQL − 10).
+ * Každý krok písmena aj AQL je ~1,6×, takže plán závisí len od ich súčtu.
+ * "up" / "down" = šípka tabuľky – platí prvý plán nad / pod ňou.
+ */
+const DIAGONAL: (number | "up" | "down")[] = [0, "up", "down", 1, 2, 3, 5, 7, 10, 14, 21];
+
+export type SamplingPlan = {
+  lotSize: number;
+  aql: number;
+  level: InspectionLevel;
+  /** kódové písmeno veľkosti výberu (po šípkach tabuľky) */
+  code: string;
+  sampleSize: number;
+  /** prijať pri najviac `accept` nevyhovujúcich vzorkách */
+  accept: number;
+  /** zamietnuť pri aspoň `reject` nevyhovujúcich vzorkách */
+  reject: number;
+};
+
+/** plán výberu pre veľkosť dávky (zákazky); null = neplatné zadanie */
+export function aqlPlan(lotSize: number, aql: number, level: InspectionLevel = "II"): SamplingPlan | null {
+  const a = AQLS.indexOf(aql);
+  if (!Number.isFinite(lotSize) || lotSize < 2 || a < 0) return null;
+  let letter = LOT_LETTERS[level][LOT_LIMITS.findIndex((max) => lotSize <= max)];
+  for (;;) {
+    const d = letter + a - 10;
+    const cell = d < 0 ? "down" : d >= DIAGONAL.length ? "up" : DIAGONAL[d];
+    if (typeof cell === "number") {
+      return {
+        lotSize,
+        aql,
+        level,
+        code: CODE_LETTERS[letter],
+        // výber väčší ako dávka = kontrola každého kusu
+        sampleSize: Math.min(SAMPLE_SIZES[letter], lotSize),
+        accept: cell,
+        reject: cell + 1
+      };
+    }
+    letter += cell === "down" ? 1 : -1;
+  }
+}
+
+export const formatAql = (aql: number) => aql.toLocaleString("sk-SK", { maximumFractionDigits: 3 });
+
+/** popis plánu pre obsluhu a protokol */
+export const planLabel = (p: SamplingPlan) =>
+  `ISO 2859-1, úroveň ${p.level}, AQL ${formatAql(p.aql)} · dávka ${p.lotSize} ks → kód ${p.code}: ` +
+  `vzorka ${p.sampleSize} ks, prijať pri ≤ ${p.accept} NOK, zamietnuť pri ≥ ${p.reject} NOK`;
+
+// ===== beh vzorkovania: jeden master, veľa snímkov =====
+export type SamplingRun = {
+  id: string;
+  startedAt: number;
+  operator: string;
+  orderNumber: string;
+  productNumber: string;
+  /** null = beh bez plánu AQL, len priebežný súčet */
+  plan: SamplingPlan | null;
+  /** kľúč mastra behu v IndexedDB (RunMaster) */
+  masterKey: string;
+  closedAt?: number;
+};
+
+/** Master zamknutý pre beh – localStorage obrázok neunesie, preto leží v IndexedDB. */
+export type RunMaster = {
+  id: string;
+  image: Blob;
+  previewUrl: string;
+  origin: "library" | "artwork" | "capture";
+  libraryId?: string;
+  /** text mastra z PDF podkladov */
+  masterText: string | null;
+  widthMm: number;
+  heightMm: number;
+  masks: MaskZone[];
+};
+
+const KEY = "etis_run";
+
+/** rozpracovaný beh prežije obnovenie stránky; vzorky sú v histórii */
+export function loadRun(): SamplingRun | null {
+  try {
+    const raw = localStorage.getItem(KEY);
+    return raw ? (JSON.parse(raw) as SamplingRun) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveRun(run: SamplingRun | null) {
+  if (run) localStorage.setItem(KEY, JSON.stringify(run));
+  else localStorage.removeItem(KEY);
+}
+
+export function saveRunMaster(m: RunMaster): Promise<void> {
+  return idbPut(STORES.runMasters, m);
+}
+
+export function getRunMaster(key: string): Promise<RunMaster | undefined> {
+  return idbGet<RunMaster>(STORES.runMasters, key);
+}
+
+export function deleteRunMaster(key: string): Promise<void> {
+  return idbDelete(STORES.runMasters, key);
+}
+
+/** vzorky behu v poradí snímkov (etikety hárku podľa polohy) */
+export async function listRunSamples(runId: string): Promise<InspectionRecord[]> {
+  const all = await listInspections();
+  return all
+    .filter((r) => r.runId === runId)
+    .sort((a, b) => a.createdAt - b.createdAt || (a.sheet?.index ?? 0) - (b.sheet?.index ?? 0));
+}
+
+// ===== priebežný súčet a verdikt behu =====
+export type CategoryTally = Record<Verdict, number>;
+
+export type RunTally = {
+  samples: number;
+  passed: number;
+  failed: number;
+  text: CategoryTally;
+  bc: CategoryTally;
+  gfx: CategoryTally;
+};
+
+const emptyCategory = (): CategoryTally => ({ OK: 0, Chyba: 0, "Bez kódu": 0, "–": 0 });
+
+export function runTally(samples: InspectionRecord[]): RunTally {
+  const t: RunTally = {
+    samples: samples.length,
+    passed: 0,
+    failed: 0,
+    text: emptyCategory(),
+    bc: emptyCategory(),
+    gfx: emptyCategory()
+  };
+  for (const r of samples) {
+    if (r.passed) t.passed++;
+    else t.failed++;
+    t.text[r.summary.text]++;
+    t.bc[r.summary.bc]++;
+    t.gfx[r.summary.gfx]++;
+  }
+  return t;
+}
+
+export type RunStatus = "pending" | "accepted" | "rejected";
+
+export const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  pending: "Prebieha",
+  accepted: "VYHOVUJE",
+  rejected: "NEVYHOVUJE"
+};
+
+export type RunVerdict = {
+  status: RunStatus;
+  /** koľko vzoriek ešte chýba do plánu (bez plánu 0) */
+  remaining: number;
+  detail: string;
+};
+
+/** zamietnutie platí hneď po dosiahnutí `reject`, prijatie až po celom výbere */
+export function runVerdict(plan: SamplingPlan | null, t: RunTally): RunVerdict {
+  if (!plan) {
+    if (!t.samples) return { status: "pending", remaining: 0, detail: "zatiaľ žiadna vzorka" };
+    return t.failed
+      ? { status: "rejected", remaining: 0, detail: `${t.failed} NOK z ${t.samples} vzoriek` }
+      : { status: "accepted", remaining: 0, detail: `všetkých ${t.samples} vzoriek OK` };
+  }
+  const remaining = Math.max(0, plan.sampleSize - t.samples);
+  if (t.failed >= plan.reject) {
+    return { status: "rejected", remaining, detail: `${t.failed} NOK ≥ ${plan.reject} – dávku zamietnuť` };
+  }
+  if (!remaining) {
+    return { status: "accepted", remaining, detail: `${t.failed} NOK ≤ ${plan.accept} – dávku prijať` };
+  }
+  return {
+    status: "pending",
+    remaining,
+    detail: `zostáva ${remaining} z ${plan.sampleSize} vzoriek · NOK ${t.failed} (zamietnuť pri ${plan.reject})`
+  };
+}
@@ -0,0 +1,91 @@
+// src/lib/session.ts
+import { isRole, type Role } from "./roles";
+
+// ===== prihlásená relácia (token z BE) =====
+export type Session = {
+  token: string;
+  /** prihlasovacie meno */
+  user: string;
+  /** zobrazované meno, ak ho BE pošle */
+  displayName?: string;
+  role: Role;
+  /** epoch ms */
+  expiresAt: number;
+};
+
+export type SessionEndReason = "logout" | "expired";
+
+const KEY = "etis_session";
+
+let cachedRaw: string | null = null;
+let cached: Session | null = null;
+let lastEndReason: SessionEndReason | null = null;
+const listeners = new Set<() => void>();
+
+function parse(raw: string | null): Session | null {
+  if (!raw) return null;
+  try {
+    const s = JSON.parse(raw);
+    if (
+      s &&
+      typeof s.token === "string" &&
+      typeof s.user === "string" &&
+      isRole(s.role) &&
+      typeof s.expiresAt === "number"
+    )
+      return s as Session;
+  } catch {
+    // poškodený záznam – ako keby nebol
+  }
+  return null;
+}
+
+/** Aktuálna relácia; po expirácii vracia null. */
+export function getSession(): Session | null {
+  const raw = localStorage.getItem(KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    cached = parse(raw);
+  }
+  if (cached && cached.expiresAt <= Date.now()) return null;
+  return cached;
+}
+
+export function getToken(): string | null {
+  return getSession()?.token ?? null;
+}
+
+export function setSession(s: Session) {
+  lastEndReason = null;
+  localStorage.setItem(KEY, JSON.stringify(s));
+  notify();
+}
+
+export function clearSession(reason: SessionEndReason) {
+  if (localStorage.getItem(KEY) === null) return;
+  lastEndReason = reason;
+  localStorage.removeItem(KEY);
+  notify();
+}
+
+/** Prečo sa posledná relácia skončila (pre hlášku na /login). */
+export function getLastEndReason(): SessionEndReason | null {
+  return lastEndReason;
+}
+
+function notify() {
+  listeners.forEach((l) => l());
+}
+
+export function subscribeSession(cb: () => void) {
+  listeners.add(cb);
+  // odhlásenie v inej karte
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === KEY || e.key === null) cb();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(cb);
+    window.removeEventListener("storage", onStorage);
+  };
+}
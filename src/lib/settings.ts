@@ -0,0 +1,41 @@
+// src/lib/settings.ts
+
+// ===== nastavenia stanice (spravuje admin) =====
+export type StationSettings = {
+  /** predvolené rozmery etikety v mm */
+  labelWidthMm: string;
+  labelHeightMm: string;
+  /** automatické odfotenie, keď je etiketa ostrá a v pokoji */
+  autoCapture: boolean;
+  /** ako dlho musí byť obraz v poriadku pred automatickým odfotením (ms) */
+  autoCaptureHoldMs: string;
+  /** minimálna ostrosť (rozptyl Laplaciánu) */
+  minSharpness: string;
+  /** hľadať okraje etikety a vyrovnať perspektívu (inak orez podľa rámika) */
+  detectEdges: boolean;
+};
+
+const KEY = "etis_settings";
+
+export const DEFAULT_SETTINGS: StationSettings = {
+  labelWidthMm: "80",
+  labelHeightMm: "80",
+  autoCapture: false,
+  autoCaptureHoldMs: "800",
+  minSharpness: "80",
+  detectEdges: true
+};
+
+export function loadSettings(): StationSettings {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (raw) return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    // poškodené nastavenia – ideme s predvolenými
+  }
+  return { ...DEFAULT_SETTINGS };
+}
+
+export function saveSettings(s: StationSettings) {
+  localStorage.setItem(KEY, JSON.stringify(s));
+}
@@ -0,0 +1,114 @@
+// src/lib/sheet.ts
+
+// ===== viacnásobné etikety na hárku / role (rows × cols s medzerami v mm) =====
+/** split = hárok sa rozreže na etikety a každá sa porovná zvlášť; sheet = celý hárok na BE */
+export type SheetMode = "split" | "sheet";
+
+export type SheetLayout = {
+  rows: number;
+  cols: number;
+  gapXmm: number;
+  gapYmm: number;
+  /** smer navinutia pre BE (A1–A8) */
+  wind: string;
+  mode: SheetMode;
+};
+
+export const SHEET_MODE_LABELS: Record<SheetMode, string> = {
+  split: "Rozdeliť na etikety",
+  sheet: "Poslať celý hárok (BE)"
+};
+
+export const WINDS = ["A1", "A2", "A3", "A4", "A5", "A6", "A7", "A8"];
+
+export const SINGLE_LAYOUT: SheetLayout = {
+  rows: 1,
+  cols: 1,
+  gapXmm: 0,
+  gapYmm: 0,
+  wind: "A1",
+  mode: "split"
+};
+
+export const isMultiUp = (l: SheetLayout) => l.rows * l.cols > 1;
+
+/** etiketa z hárku v histórii – spája výsledky jedného snímku */
+export type SheetRef = { id: string; index: number; rows: number; cols: number };
+
+const KEY = "etis_sheet";
+
+export function loadSheetLayout(): SheetLayout {
+  try {
+    const raw = localStorage.getItem(KEY);
+    if (raw) return { ...SINGLE_LAYOUT, ...JSON.parse(raw) };
+  } catch {
+    // poškodené nastavenie – jedna etiketa
+  }
+  return { ...SINGLE_LAYOUT };
+}
+
+export function saveSheetLayout(l: SheetLayout) {
+  localStorage.setItem(KEY, JSON.stringify(l));
+}
+
+/** rozmer celého hárku v mm */
+export const sheetSizeMm = (l: SheetLayout, widthMm: number, heightMm: number) => ({
+  w: l.cols * widthMm + (l.cols - 1) * l.gapXmm,
+  h: l.rows * heightMm + (l.rows - 1) * l.gapYmm
+});
+
+/** bunka hárku v podiele jeho šírky / výšky (0..1) */
+export type SheetCell = { index: number; row: number; col: number; x: number; y: number; w: number; h: number };
+
+/** bunky po riadkoch zľava doprava */
+export function sheetCells(l: SheetLayout, widthMm: number, heightMm: number): SheetCell[] {
+  const size = sheetSizeMm(l, widthMm, heightMm);
+  if (size.w <= 0 || size.h <= 0) return [];
+  const cells: SheetCell[] = [];
+  for (let row = 0; row < l.rows; row++) {
+    for (let col = 0; col < l.cols; col++) {
+      cells.push({
+        index: cells.length,
+        row,
+        col,
+        x: (col * (widthMm + l.gapXmm)) / size.w,
+        y: (row * (heightMm + l.gapYmm)) / size.h,
+        w: widthMm / size.w,
+        h: heightMm / size.h
+      });
+    }
+  }
+  return cells;
+}
+
+/** snímok hárku rozrezaný na jednotlivé etikety (JPEG + náhľad) */
+export async function splitSheet(
+  img: HTMLImageElement,
+  cells: SheetCell[]
+): Promise<{ cell: SheetCell; file: File; previewUrl: string }[]> {
+  const out: { cell: SheetCell; file: File; previewUrl: string }[] = [];
+  for (const cell of cells) {
+    const sw = cell.w * img.naturalWidth;
+    const sh = cell.h * img.naturalHeight;
+    const c = document.createElement("canvas");
+    c.width = Math.max(1, Math.round(sw));
+    c.height = Math.max(1, Math.round(sh));
+    const ctx = c.getContext("2d");
+    if (!ctx) continue;
+    ctx.drawImage(img, cell.x * img.naturalWidth, cell.y * img.naturalHeight, sw, sh, 0, 0, c.width, c.height);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      c.toBlob((b) => resolve(b), "image/jpeg", 0.92)
+    );
+    if (!blob) continue;
+    out.push({
+      cell,
+      file: new File([blob], `label-${cell.index + 1}.jpg`, { type: "image/jpeg" }),
+      previewUrl: c.toDataURL("image/jpeg", 0.8)
+    });
+  }
+  return out;
+}
+
+/** popis bunky pre obsluhu, napr. "2. riadok, 3. stĺpec" */
+export const cellLabel = (index: number, cols: number) =>
+  `${Math.floor(index / cols) + 1}. riadok, ${(index % cols) + 1}. stĺpec`;
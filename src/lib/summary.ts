@@ -0,0 +1,99 @@
+// src/lib/summary.ts
+import { isWaived, type DefectDecisions } from "./defects";
+import type { LabelView } from "./types";
+
+// ===== súhrnné verdikty Text / Čiarový kód / Grafika =====
+export type Verdict = "OK" | "Chyba" | "Bez kódu" | "–";
+
+export type Summary = {
+  text: Verdict;
+  bc: Verdict;
+  gfx: Verdict;
+  bcMismatch: boolean;
+  /** strany, ktoré nesedia s očakávanými kódmi produktu (staršie záznamy pole nemajú) */
+  bcExpectedFail?: ("master" | "scan")[];
+};
+
+export const EMPTY_SUMMARY: Summary = {
+  text: "–",
+  bc: "–",
+  gfx: "–",
+  bcMismatch: false,
+  bcExpectedFail: []
+};
+
+/** verdikty z nálezov; nálezy s výnimkou (`decisions`) sa nepočítajú */
+export function computeSummary(
+  view: LabelView | null,
+  decisions?: DefectDecisions
+): Summary {
+  if (!view) return EMPTY_SUMMARY;
+  const open = (key: string) => !isWaived(decisions, key);
+
+  const diffs = view.ocrDiffs || [];
+  const hasTextErr =
+    !!(
+      view.ocrMaster &&
+      view.ocrScan &&
+      view.ocrMaster.trim() &&
+      view.ocrScan.trim() &&
+      view.ocrMaster.trim() !== view.ocrScan.trim()
+    ) &&
+    (diffs.length
+      ? diffs.some((d, i) => open(`ocr:${i}`) && !d.variable?.valid)
+      : // všetky rozdiely padli do masiek; bez zoznamu sa nie je čomu udeliť výnimka
+        !view.masked?.ocrDiffs.length);
+
+  const bcMismatch = view.barcodeMatch === false && open("bc:match");
+  const bcExpectedFail = (["master", "scan"] as const).filter(
+    (s) => !!view.expectedCheck?.[s].missing.length && open(`bc:exp:${s}`)
+  );
+  const bcHasErr =
+    bcMismatch ||
+    bcExpectedFail.length > 0 ||
+    (view.barcode || []).some((b, i) => b.valid === false && open(`bc:${i}`));
+  const gfxHasErr = (view.boxes || []).some(
+    (b, i) => b.type === "diff" && open(`gfx:${i}`)
+  );
+  return {
+    text: hasTextErr ? "Chyba" : "OK",
+    bc: bcHasErr
+      ? "Chyba"
+      : view.barcode && view.barcode.length
+      ? "OK"
+      : "Bez kódu",
+    gfx: gfxHasErr ? "Chyba" : "OK",
+    bcMismatch,
+    bcExpectedFail
+  };
+}
+
+/** celkový výsledok – "Bez kódu" nie je chyba */
+export const isPass = (s: Summary) =>
+  s.text !== "Chyba" && s.bc !== "Chyba" && s.gfx !== "Chyba";
+
+// ===== jednotlivé kontroly čiarového kódu (výsledok, report) =====
+export type BcCheckLine = { label: string; status: Verdict | "Výnimka"; detail: string };
+
+/** Master / Scan voči očakávaným kódom a Master vs Scan – každá kontrola zvlášť */
+export function barcodeCheckLines(view: LabelView, summary: Summary): BcCheckLine[] {
+  const expected = (side: "master" | "scan", label: string): BcCheckLine => {
+    const check = view.expectedCheck?.[side];
+    if (!check) return { label, status: "–", detail: "očakávané kódy nie sú zadané" };
+    if (check.unread) return { label, status: "–", detail: "nečítané – strana nebola dekódovaná" };
+    const missing = check.missing;
+    if (!missing.length) return { label, status: "OK", detail: "" };
+    return {
+      label,
+      status: summary.bcExpectedFail?.includes(side) ? "Chyba" : "Výnimka",
+      detail: `chýba ${missing.join(", ")}`
+    };
+  };
+  const match: BcCheckLine =
+    view.barcodeMatch === undefined
+      ? { label: "Master vs Scan", status: "–", detail: "nie je čo porovnať" }
+      : view.barcodeMatch
+      ? { label: "Master vs Scan", status: "OK", detail: "" }
+      : { label: "Master vs Scan", status: summary.bcMismatch ? "Chyba" : "Výnimka", detail: "" };
+  return [expected("master", "Master vs očakávané"), expected("scan", "Scan vs očakávané"), match];
+}
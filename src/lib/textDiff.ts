@@ -0,0 +1,161 @@
+// src/lib/textDiff.ts
+import type { OcrDiff } from "./types";
+
+// ===== zarovnaný diff textu (LCS) na úrovni riadkov aj znakov =====
+export type CharSeg = { kind: "equal" | "del" | "ins"; text: string };
+
+/** nad touto veľkosťou DP tabuľky (n*m) radšej porovnáme pozične */
+const MAX_CELLS = 4_000_000;
+/** minimálna podobnosť, aby sa chýbajúci + pridaný riadok spárovali na "zmenený" */
+const PAIR_SIMILARITY = 0.4;
+
+type Op<T> = { kind: "equal" | "del" | "ins"; a?: T; b?: T; ai: number; bi: number };
+
+/** LCS zarovnanie dvoch postupností; pri zhode poradie del → ins */
+function lcsAlign<T>(A: T[], B: T[], eq: (x: T, y: T) => boolean): Op<T>[] {
+  const n = A.length;
+  const m = B.length;
+  if (n * m > MAX_CELLS) {
+    // núdzový pozičný diff
+    const ops: Op<T>[] = [];
+    for (let i = 0; i < Math.max(n, m); i++) {
+      if (i < n && i < m && eq(A[i], B[i])) ops.push({ kind: "equal", a: A[i], b: B[i], ai: i, bi: i });
+      else {
+        if (i < n) ops.push({ kind: "del", a: A[i], ai: i, bi: -1 });
+        if (i < m) ops.push({ kind: "ins", b: B[i], ai: -1, bi: i });
+      }
+    }
+    return ops;
+  }
+
+  // dp[i][j] = LCS A[i..] a B[j..]
+  const w = m + 1;
+  const dp = new Uint32Array((n + 1) * w);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i * w + j] = eq(A[i], B[j])
+        ? dp[(i + 1) * w + j + 1] + 1
+        : Math.max(dp[(i + 1) * w + j], dp[i * w + j + 1]);
+    }
+  }
+
+  const ops: Op<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (eq(A[i], B[j])) {
+      ops.push({ kind: "equal", a: A[i], b: B[j], ai: i, bi: j });
+      i++;
+      j++;
+    } else if (dp[(i + 1) * w + j] >= dp[i * w + j + 1]) {
+      ops.push({ kind: "del", a: A[i], ai: i, bi: -1 });
+      i++;
+    } else {
+      ops.push({ kind: "ins", b: B[j], ai: -1, bi: j });
+      j++;
+    }
+  }
+  for (; i < n; i++) ops.push({ kind: "del", a: A[i], ai: i, bi: -1 });
+  for (; j < m; j++) ops.push({ kind: "ins", b: B[j], ai: -1, bi: j });
+  return ops;
+}
+
+/** rozdiel dvoch reťazcov po znakoch, zlúčený do súvislých segmentov */
+export function diffChars(a: string, b: string): CharSeg[] {
+  const ops = lcsAlign([...a], [...b], (x, y) => x === y);
+  const segs: CharSeg[] = [];
+  for (const op of ops) {
+    const ch = (op.kind === "ins" ? op.b : op.a) ?? "";
+    const last = segs[segs.length - 1];
+    if (last && last.kind === op.kind) last.text += ch;
+    else segs.push({ kind: op.kind, text: ch });
+  }
+  return segs;
+}
+
+/** 0..1 – podiel spoločných znakov */
+export function similarity(a: string, b: string): number {
+  if (!a && !b) return 1;
+  const common = diffChars(a, b)
+    .filter((s) => s.kind === "equal")
+    .reduce((n, s) => n + [...s.text].length, 0);
+  return (2 * common) / ([...a].length + [...b].length);
+}
+
+const splitLines = (s: string) =>
+  s.split(/\r?\n/).map((x) => x.trim()).filter(Boolean);
+
+/**
+ * Riadkový diff so zarovnaním – chýbajúci alebo pridaný riadok neposunie
+ * všetky nasledujúce. Susedné chýbajúce/pridané riadky s podobným obsahom
+ * sa spárujú ako "zmenený" riadok.
+ */
+export function alignTextLines(master = "", scan = ""): OcrDiff[] {
+  const A = splitLines(master);
+  const B = splitLines(scan);
+  const ops = lcsAlign(A, B, (x, y) => x === y);
+
+  const out: OcrDiff[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === "equal") {
+      k++;
+      continue;
+    }
+    // blok zmien medzi dvoma zhodnými riadkami
+    const dels: Op<string>[] = [];
+    const ins: Op<string>[] = [];
+    while (k < ops.length && ops[k].kind !== "equal") {
+      (ops[k].kind === "del" ? dels : ins).push(ops[k]);
+      k++;
+    }
+    let di = 0;
+    let ii = 0;
+    while (di < dels.length || ii < ins.length) {
+      const d = dels[di];
+      const s = ins[ii];
+      if (d && s && similarity(d.a ?? "", s.b ?? "") >= PAIR_SIMILARITY) {
+        out.push({
+          line: d.ai + 1,
+          master: d.a ?? "",
+          scan: s.b ?? "",
+          kind: "change",
+          scanLine: s.bi + 1
+        });
+        di++;
+        ii++;
+      } else if (d) {
+        out.push({ line: d.ai + 1, master: d.a ?? "", scan: "", kind: "delete" });
+        di++;
+      } else {
+        out.push({
+          line: s.bi + 1,
+          master: "",
+          scan: s.b ?? "",
+          kind: "insert",
+          scanLine: s.bi + 1
+        });
+        ii++;
+      }
+    }
+  }
+  return out;
+}
+
+/** druh rozdielu, ak ho BE neposlal */
+export const diffKind = (d: OcrDiff): NonNullable<OcrDiff["kind"]> =>
+  d.kind ?? (!d.master ? "insert" : !d.scan ? "delete" : "change");
+
+export const DIFF_KIND_LABELS: Record<NonNullable<OcrDiff["kind"]>, string> = {
+  change: "zmenený",
+  delete: "chýba v scane",
+  insert: "navyše v scane"
+};
+
+/** "M 3 → S 4" – číslo riadku v mastri a v scane */
+export function diffLineLabel(d: OcrDiff): string {
+  const kind = diffKind(d);
+  if (kind === "insert") return `S ${d.scanLine ?? d.line}`;
+  if (kind === "delete" || d.scanLine === undefined || d.scanLine === d.line) return `M ${d.line}`;
+  return `M ${d.line} → S ${d.scanLine}`;
+}
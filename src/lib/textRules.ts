@@ -0,0 +1,165 @@
+// src/lib/textRules.ts
+import { STORES, idbGet, idbPut } from "./idb";
+import { diffKind } from "./textDiff";
+import type { LabelView, OcrDiff } from "./types";
+
+// ===== pravidlá pre premenlivý text (šarža, dátum spotreby…) podľa produktu =====
+export type TextRuleCheck = "none" | "notExpired" | "today" | "order";
+
+export type TextRule = {
+  id: string;
+  name: string;
+  /** regulárny výraz; ak má skupinu, kontroluje sa hodnota prvej skupiny */
+  pattern: string;
+  check: TextRuleCheck;
+};
+
+export type ProductTextRules = {
+  /** veľkými písmenami – kľúč v IndexedDB */
+  productNumber: string;
+  rules: TextRule[];
+  updatedAt: number;
+  updatedBy: string;
+};
+
+export type RuleContext = { today: Date; orderNumber: string };
+
+export const CHECK_LABELS: Record<TextRuleCheck, string> = {
+  none: "len formát",
+  notExpired: "dátum spotreby ešte neuplynul",
+  today: "dátum = dnes",
+  order: "obsahuje číslo zákazky"
+};
+
+const normProduct = (p: string) => p.trim().toUpperCase();
+
+export async function getTextRules(productNumber: string): Promise<TextRule[]> {
+  const key = normProduct(productNumber);
+  if (!key) return [];
+  const rec = await idbGet<ProductTextRules>(STORES.textRules, key);
+  return rec?.rules ?? [];
+}
+
+export async function saveTextRules(productNumber: string, rules: TextRule[], updatedBy: string) {
+  const key = normProduct(productNumber);
+  if (!key) throw new Error("Chýba číslo produktu");
+  await idbPut<ProductTextRules>(STORES.textRules, {
+    productNumber: key,
+    rules,
+    updatedAt: Date.now(),
+    updatedBy
+  });
+}
+
+/** null = neplatný vzor alebo vzor, ktorý sedí aj na prázdny text */
+export function compileRule(rule: Pick<TextRule, "pattern">): RegExp | null {
+  if (!rule.pattern.trim()) return null;
+  try {
+    const re = new RegExp(rule.pattern, "g");
+    return re.test("") ? null : re;
+  } catch {
+    return null;
+  }
+}
+
+// ===== dátumy z etikety =====
+type LabelDate = { y: number; m: number; d?: number };
+
+export function parseLabelDate(s: string): LabelDate | null {
+  const year = (y: string) => (y.length === 2 ? 2000 + Number(y) : Number(y));
+  let m = s.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return { y: Number(m[1]), m: Number(m[2]), d: Number(m[3]) };
+  m = s.match(/(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})/);
+  if (m) return { y: year(m[3]), m: Number(m[2]), d: Number(m[1]) };
+  m = s.match(/(\d{1,2})[./-](\d{4})/);
+  if (m) return { y: Number(m[2]), m: Number(m[1]) };
+  return null;
+}
+
+const validDate = (d: LabelDate) =>
+  d.m >= 1 && d.m <= 12 && (d.d === undefined || (d.d >= 1 && d.d <= 31));
+
+/** porovnanie s dneškom; pri dátume bez dňa sa porovnáva mesiac */
+function cmpToday(d: LabelDate, today: Date): number {
+  const ty = today.getFullYear();
+  const tm = today.getMonth() + 1;
+  if (d.y !== ty) return d.y - ty;
+  if (d.m !== tm) return d.m - tm;
+  return d.d === undefined ? 0 : d.d - today.getDate();
+}
+
+/** dôvod porušenia kontroly; null = v poriadku */
+function checkValue(value: string, rule: TextRule, ctx: RuleContext): string | null {
+  if (rule.check === "none") return null;
+  if (rule.check === "order") {
+    const order = ctx.orderNumber.trim().toUpperCase();
+    if (!order) return "nie je zadané číslo zákazky";
+    return value.toUpperCase().includes(order) ? null : `„${value}“ neobsahuje zákazku ${ctx.orderNumber}`;
+  }
+  const d = parseLabelDate(value);
+  if (!d || !validDate(d)) return `„${value}“ nie je platný dátum`;
+  const c = cmpToday(d, ctx.today);
+  if (rule.check === "notExpired" && c < 0) return `dátum ${value} je po expirácii`;
+  if (rule.check === "today" && c !== 0) return `dátum ${value} nie je dnešný`;
+  return null;
+}
+
+/** nahradí výskyty vzoru zástupným znakom; hodnoty = prvá skupina alebo celý výskyt */
+function splitTokens(line: string, re: RegExp) {
+  const values = [...line.matchAll(re)].map((m) => m[1] ?? m[0]);
+  const rest = line.replace(re, "\u0000").replace(/\s+/g, " ").trim();
+  return { values, rest };
+}
+
+/** vyhodnotí jeden rozdiel proti pravidlám – prvé použiteľné pravidlo vyhráva */
+export function evaluateDiff(d: OcrDiff, rules: TextRule[], ctx: RuleContext): OcrDiff {
+  if (diffKind(d) !== "change") return d;
+  for (const rule of rules) {
+    const re = compileRule(rule);
+    if (!re) continue;
+    const m = splitTokens(d.master, re);
+    const s = splitTokens(d.scan, re);
+    if (!m.values.length && !s.values.length) continue;
+
+    const name = rule.name || rule.pattern;
+    if (s.values.length < m.values.length) {
+      return {
+        ...d,
+        variable: {
+          rule: name,
+          valid: false,
+          reason: `hodnota v scane nezodpovedá vzoru ${rule.pattern}`,
+          values: s.values
+        }
+      };
+    }
+    // mimo premenlivých hodnôt sa riadky musia zhodovať
+    if (m.rest !== s.rest) continue;
+
+    const reasons = s.values.map((v) => checkValue(v, rule, ctx)).filter((r): r is string => !!r);
+    return {
+      ...d,
+      variable: {
+        rule: name,
+        valid: !reasons.length,
+        reason: reasons.join("; ") || undefined,
+        values: s.values
+      }
+    };
+  }
+  return d;
+}
+
+/** skúška pravidla na vzorovom texte (editor pravidiel); null = neplatný vzor */
+export function testRule(rule: TextRule, text: string, ctx: RuleContext) {
+  const re = compileRule(rule);
+  if (!re) return null;
+  const { values } = splitTokens(text, re);
+  const reasons = values.map((v) => checkValue(v, rule, ctx)).filter((r): r is string => !!r);
+  return { values, reasons };
+}
+
+export function applyTextRules(view: LabelView, rules: TextRule[], ctx: RuleContext): LabelView {
+  if (!rules.length || !view.ocrDiffs?.length) return view;
+  return { ...view, ocrDiffs: view.ocrDiffs.map((d) => evaluateDiff(d, rules, ctx)) };
+}
@@ -0,0 +1,67 @@
+// src/lib/types.ts
+
+// ===== výsledok porovnania =====
+export type Box = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  type?: "ocr" | "barcode" | "diff";
+  subType?: string | null;
+  desc?: string;
+};
+
+export type OcrDiff = {
+  /** číslo riadku v mastri (pri riadku navyše v scane číslo riadku scanu) */
+  line: number;
+  master: string;
+  scan: string;
+  /** change = zmenený, insert = navyše v scane, delete = chýba v scane */
+  kind?: "change" | "insert" | "delete";
+  scanLine?: number;
+  /** poloha riadku v scane, ak ju BE pošle (pre masky) */
+  box?: Pick<Box, "x" | "y" | "w" | "h">;
+  /** výsledok pravidla pre premenlivý text (šarža, dátum…) */
+  variable?: { rule: string; valid: boolean; reason?: string; values: string[] };
+};
+
+export type BcItem = {
+  side?: "master" | "scan";
+  symbology: string;
+  value: string;
+  valid: boolean;
+  reason?: string | null;
+  /** kto kód prečítal: BE, prehliadač, alebo obaja zhodne */
+  source?: "backend" | "client" | "both";
+  /** chyby z kontroly v prehliadači (kontrolná číslica, polia GS1); [] = v poriadku */
+  localErrors?: string[];
+};
+
+export type LabelView = {
+  url: string;
+  w: number;
+  h: number;
+  boxes: Box[];
+  ocrMaster?: string;
+  ocrScan?: string;
+  ocrDiffs?: OcrDiff[];
+  /** text mastra z tlačových podkladov (PDF) namiesto OCR */
+  masterTextSource?: "artwork";
+  barcode?: BcItem[];
+  barcodeMatch?: boolean;
+  /** nálezy vynechané maskovanými zónami mastra */
+  masked?: { boxes: Box[]; ocrDiffs: OcrDiff[] };
+  /** nálezy bez polohy (OCR rozdiel bez `box`, výsledok bez rozmeru), na ktoré sa masky nedali použiť */
+  maskSkipped?: number;
+  /** kontrola kódov v prehliadači (natívny BarcodeDetector alebo vlastný dekodér) */
+  barcodeCheck?: { decoder: "native" | "builtin"; disagreements: string[] };
+  /**
+   * kontrola voči očakávaným kódom produktu; `missing` = nenájdené kódy na danej strane,
+   * `unread` = strana sa nedekódovala (napr. v1 odpoveď bez mastra) – nie je to chyba
+   */
+  expectedCheck?: {
+    codes: { symbology: string; value: string }[];
+    master: { missing: string[]; unread?: boolean };
+    scan: { missing: string[]; unread?: boolean };
+  };
+};
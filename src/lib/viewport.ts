@@ -0,0 +1,68 @@
+// src/lib/viewport.ts
+
+// ===== zoom / posun náhľadu v normalizovaných súradniciach (0..1) =====
+// Rovnaký Viewport sa dá zdieľať medzi plátnami rôznej veľkosti (vedľa seba, swipe…).
+export type Viewport = {
+  zoom: number;
+  /** stred výrezu – podiel šírky / výšky obrázka */
+  cx: number;
+  cy: number;
+};
+
+export const FULL_VIEW: Viewport = { zoom: 1, cx: 0.5, cy: 0.5 };
+export const MAX_ZOOM = 12;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+/** výrez nesmie vyjsť mimo obrázka */
+export function clampViewport(v: Viewport): Viewport {
+  const zoom = clamp(v.zoom, 1, MAX_ZOOM);
+  const half = 0.5 / zoom;
+  return {
+    zoom,
+    cx: clamp(v.cx, half, 1 - half),
+    cy: clamp(v.cy, half, 1 - half)
+  };
+}
+
+/** zoom okolo bodu (px, py v 0..1 plochy plátna) – bod pod kurzorom ostane na mieste */
+export function zoomAt(v: Viewport, factor: number, px = 0.5, py = 0.5): Viewport {
+  const zoom = clamp(v.zoom * factor, 1, MAX_ZOOM);
+  // bod obrázka pod kurzorom pred zoomom
+  const ix = v.cx + (px - 0.5) / v.zoom;
+  const iy = v.cy + (py - 0.5) / v.zoom;
+  return clampViewport({
+    zoom,
+    cx: ix - (px - 0.5) / zoom,
+    cy: iy - (py - 0.5) / zoom
+  });
+}
+
+/** posun o (dx, dy) v podiele plochy plátna */
+export const panBy = (v: Viewport, dx: number, dy: number): Viewport =>
+  clampViewport({ zoom: v.zoom, cx: v.cx - dx / v.zoom, cy: v.cy - dy / v.zoom });
+
+/** kam a v akej veľkosti nakresliť obrázok na plátno w×h */
+export function viewportRect(v: Viewport, w: number, h: number) {
+  const dw = w * v.zoom;
+  const dh = h * v.zoom;
+  return { x: w / 2 - v.cx * dw, y: h / 2 - v.cy * dh, w: dw, h: dh };
+}
+
+/** výrez so stredom v obdĺžniku (v 0..1); jeho dlhšia strana zaberie `fill` plátna */
+export function fitRect(x: number, y: number, w: number, h: number, fill = 0.5): Viewport {
+  const zoom = fill / Math.max(w, h, 1e-6);
+  return clampViewport({ zoom, cx: x + w / 2, cy: y + h / 2 });
+}
+
+/** poloha bodu obrázka (0..1) na plátne (0..1) pri danom výreze */
+export const toScreen = (v: Viewport, ix: number, iy: number) => ({
+  x: 0.5 + (ix - v.cx) * v.zoom,
+  y: 0.5 + (iy - v.cy) * v.zoom
+});
+
+/** opak `toScreen` – bod plátna (0..1) na bod obrázka (0..1) */
+export const toImage = (v: Viewport, px: number, py: number) => ({
+  x: v.cx + (px - 0.5) / v.zoom,
+  y: v.cy + (py - 0.5) / v.zoom
+});
@@ -1,147 +1,134 @@
 // src/pages/Compare.tsx
-import { useMemo, useRef, useState, useEffect } from "react";
-import LabelCamera from "../components/LabelCamera";
-
-// ===== ENV =====
-const JAVA_BASE = import.meta.env.VITE_JAVA_BASE_URL || "http://localhost:8080";
-const PY_BASE   = import.meta.env.VITE_PY_BASE_URL   || "http://localhost:8011";
-
-// ===== helpers =====
-const loadImage = (src: string) =>
-  new Promise<HTMLImageElement>((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = src;
-  });
-
-const toImgUrl = (maybeDataUrlOrB64: string): string => {
-  if (!maybeDataUrlOrB64) return "";
-  if (maybeDataUrlOrB64.startsWith("data:")) return maybeDataUrlOrB64;
-  return `data:image/jpeg;base64,${maybeDataUrlOrB64}`;
-};
-
-async function fetchJSON(url: string, fd: FormData) {
-  const r = await fetch(url, { method: "POST", body: fd });
-  const ct = (r.headers.get("content-type") || "").toLowerCase();
-  if (ct.includes("application/json")) return await r.json();
-  const t = await r.text();
-  try {
-    return JSON.parse(t);
-  } catch {
-    return { raw: t, status: r.status };
-  }
-}
-
-function iou(
-  a: { x: number; y: number; w: number; h: number },
-  b: { x: number; y: number; w: number; h: number }
-) {
-  const x1 = Math.max(a.x, b.x);
-  const y1 = Math.max(a.y, b.y);
-  const x2 = Math.min(a.x + a.w, b.x + b.w);
-  const y2 = Math.min(a.y + a.h, b.y + b.h);
-  const inter = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
-  const ua = a.w * a.h + b.w * b.h - inter;
-  return ua > 0 ? inter / ua : 0;
-}
-
-function dedupeBoxes<
-  T extends { x: number; y: number; w: number; h: number; type?: string; subType?: string | null }
->(arr: T[], thr = 0.9) {
-  const out: T[] = [];
-  for (const b of arr) {
-    const dup = out.find(
-      (o) => iou(o, b) >= thr && (o.type || "") === (b.type || "")
-    );
-    if (!dup) out.push(b);
-  }
-  return out;
-}
-
-// skrátenie textu v náhľadoch
-function truncate(s: string | undefined, max = 200): string {
-  if (!s) return "";
-  return s.length > max ? s.slice(0, max) + "…" : s;
-}
-
-// ===== types =====
-type Box = {
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  type?: "ocr" | "barcode" | "diff";
-  subType?: string | null;
-  desc?: string;
-};
-type OcrDiff = { line: number; master: string; scan: string };
-type BcItem = {
-  side?: "master" | "scan";
-  symbology: string;
-  value: string;
-  valid: boolean;
-  reason?: string | null;
-};
-
-type LabelView = {
-  url: string;
-  w: number;
-  h: number;
-  boxes: Box[];
-  ocrMaster?: string;
-  ocrScan?: string;
-  ocrDiffs?: OcrDiff[];
-  barcode?: BcItem[];
-  barcodeMatch?: boolean;
-};
-
-// riadkový diff, ak BE nedodá
-function makeLineDiffs(master = "", scan = ""): OcrDiff[] {
-  const A = master.split(/\r?\n/).map((s) => s.trim()).filter(Boolean);
-  const B = scan.split(/\r?\n/).map((s) => s.trim()).filter(Boolean);
-  const L = Math.max(A.length, B.length);
-  const diffs: OcrDiff[] = [];
-  for (let i = 0; i < L; i++) {
-    const a = A[i] ?? "";
-    const b = B[i] ?? "";
-    if (a !== b) diffs.push({ line: i + 1, master: a, scan: b });
-  }
-  return diffs;
-}
-
-// deduplikácia kódov (strana+symbology+value)
-function dedupeBc(items: BcItem[]): BcItem[] {
-  const map = new Map<string, BcItem>();
-  for (const b of items || []) {
-    const key = `${b.side || ""}|${(b.symbology || "").toUpperCase()}|${String(
-      b.value || ""
-    ).trim()}`;
-    const cur = map.get(key);
-    if (!cur) {
-      map.set(key, {
-        ...b,
-        symbology: (b.symbology || "").toUpperCase(),
-        value: String(b.value || "").trim()
-      });
-    } else {
-      cur.valid = cur.valid && b.valid;
-      if (!cur.reason && b.reason) cur.reason = b.reason;
-    }
-  }
-  return [...map.values()];
-}
+import { useCallback, useMemo, useRef, useState, useEffect } from "react";
+import LabelSource from "../components/LabelSource";
+import BackendBadge from "../components/BackendBadge";
+import DiagnosticsPanel from "../components/DiagnosticsPanel";
+import {
+  decodeCompareResponse,
+  decodeSheetResponse,
+  type DecodeResult
+} from "../lib/compareDecoder";
+import { loadImage } from "../lib/labelHelpers";
+import {
+  TIMEOUTS,
+  compareWithFailover,
+  isAbort,
+  isUnauthorized,
+  isUnreachable,
+  type CompareResult
+} from "../lib/apiClient";
+import { enqueueCompare, queuedEndpoint } from "../lib/compareQueue";
+import { useCompareQueue } from "../hooks/useCompareQueue";
+import PendingQueue from "../components/PendingQueue";
+import MasterLibraryPanel from "../components/MasterLibraryPanel";
+import { useMasterLibrary } from "../hooks/useMasterLibrary";
+import {
+  findMasterByProduct,
+  getMaster,
+  updateMasterMasks,
+  type MasterRecord
+} from "../lib/masterLibrary";
+import MaskEditor from "../components/MaskEditor";
+import ArtworkImport from "../components/ArtworkImport";
+import { applyMasterText } from "../lib/artwork";
+import { mergeClientBarcodes, readClientBarcodes, type ClientBarcodes } from "../lib/clientBarcodes";
+import { checkBarcodes } from "../lib/gs1";
+import { applyMasks, masksField, withImageSize, type MaskZone } from "../lib/masks";
+import TextRulesPanel from "../components/TextRulesPanel";
+import { useTextRules } from "../hooks/useTextRules";
+import { applyTextRules } from "../lib/textRules";
+import ExpectedCodesPanel from "../components/ExpectedCodesPanel";
+import { useExpectedCodes } from "../hooks/useExpectedCodes";
+import { applyExpectedCodes } from "../lib/expectedCodes";
+import { qualityGuidance, type ImageQuality, type QualityOverride } from "../lib/imageQuality";
+import { useBackendHealth } from "../hooks/useBackendHealth";
+import { useSession } from "../hooks/useSession";
+import { can } from "../lib/roles";
+import { loadSettings } from "../lib/settings";
+import type { LabelView } from "../lib/types";
+import { computeSummary, isPass } from "../lib/summary";
+import {
+  deleteInspection,
+  saveInspection,
+  withDecision,
+  type InspectionRecord
+} from "../lib/inspectionHistory";
+import type { DefectDecision, DefectDecisions } from "../lib/defects";
+import ResultView from "../components/ResultView";
+import SheetLayoutPanel from "../components/SheetLayoutPanel";
+import SheetResultGrid, { type SheetCellResult } from "../components/SheetResultGrid";
+import {
+  cellLabel,
+  isMultiUp,
+  loadSheetLayout,
+  saveSheetLayout,
+  sheetCells,
+  sheetSizeMm,
+  splitSheet,
+  type SheetLayout,
+  type SheetRef
+} from "../lib/sheet";
+import ReportButtons from "../components/ReportButtons";
+import SamplingRunPanel from "../components/SamplingRunPanel";
+import { useSamplingRun } from "../hooks/useSamplingRun";
+import { deleteRunMaster, getRunMaster, saveRunMaster, type SamplingPlan } from "../lib/sampling";
 
 export default function Compare() {
   // files & previews
   const [masterFile, setMasterFile] = useState<File | null>(null);
   const [masterUrl, setMasterUrl] = useState<string>("");
+  // master vybraný z knižnice (null = z kamery / žiadny)
+  const [libraryMaster, setLibraryMaster] = useState<MasterRecord | null>(null);
+  const { masters, refresh: refreshMasters } = useMasterLibrary();
+  // maskované zóny v mm – ostávajú aj po novom odfotení mastra
+  const [masks, setMasks] = useState<MaskZone[]>([]);
+  const [masksDirty, setMasksDirty] = useState(false);
+  const [savingMasks, setSavingMasks] = useState(false);
+  // master z tlačových podkladov (PDF / SVG) a jeho text namiesto OCR
+  const [artworkMaster, setArtworkMaster] = useState(false);
+  const [masterText, setMasterText] = useState<string | null>(null);
 
   const [etiketaFile, setEtiketaFile] = useState<File | null>(null);
   const [etiketaUrl, setEtiketaUrl] = useState<string>("");
 
+  // kvalita odfotených snímkov (master z knižnice sa nehodnotí) a povolenie majstra
+  const [masterQuality, setMasterQuality] = useState<ImageQuality | null>(null);
+  const [etiketaQuality, setEtiketaQuality] = useState<ImageQuality | null>(null);
+  const [qualityOverride, setQualityOverride] = useState<QualityOverride | null>(null);
+
   const [isComparing, setIsComparing] = useState(false);
   const [view, setView] = useState<LabelView | null>(null);
+  const [diagnostics, setDiagnostics] = useState<DecodeResult | null>(null);
+  // uložený záznam zobrazeného výsledku – rozhodnutia menia len jeho `decisions`
+  const [shownRecord, setShownRecord] = useState<InspectionRecord | null>(null);
+  const inspectionId = shownRecord?.id ?? null;
+  const [decisions, setDecisions] = useState<DefectDecisions>({});
+  const [source, setSource] = useState<Omit<CompareResult, "data"> | null>(null);
+  // viacnásobné etikety: rozloženie hárku, výsledky po etiketách a otvorená etiketa
+  const [sheetLayout, setSheetLayout] = useState<SheetLayout>(loadSheetLayout);
+  const [sheet, setSheet] = useState<{ rows: number; cols: number; cells: SheetCellResult[] } | null>(
+    null
+  );
+  const [selectedCell, setSelectedCell] = useState<number | null>(null);
+  // beh vzorkovania: pevný master, vzorky z histórie; kľúč vráti etiketu na nový snímok
+  const { run, setRun, samples: runSamples, refresh: refreshRun } = useSamplingRun();
+  const [etiketaKey, setEtiketaKey] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  const health = useBackendHealth();
+  const session = useSession();
+  const role = session?.role;
+  const queue = useCompareQueue();
+  const pendingCount = queue.filter((e) => e.status !== "done").length;
+  const activeRunId = run && !run.closedAt ? run.id : undefined;
+  // master je zamknutý celý beh – aj kým sa po obnovení stránky načítava z IndexedDB
+  const masterLocked = !!activeRunId;
+  const [runMasterMissing, setRunMasterMissing] = useState(false);
+  const runQueued = queue.filter((e) => !!run && e.meta.runId === run.id && e.status !== "done").length;
+
+  // doručené vzorky z offline fronty pribudnú do behu
+  useEffect(() => {
+    refreshRun();
+  }, [queue, refreshRun]);
 
   // report meta
   const [operatorName, setOperatorName] = useState(
@@ -154,10 +141,16 @@ export default function Compare() {
     localStorage.getItem("etis_product") || ""
   );
   const [generatedAt, setGeneratedAt] = useState<Date | null>(null);
+  const { rules: textRules, refresh: refreshTextRules } = useTextRules(productNumber);
+  const { codes: expectedCodes, refresh: refreshExpectedCodes } = useExpectedCodes(productNumber);
 
   // rozmery etikety v mm (pre aspect ratio rámika)
-  const [labelWidthMm, setLabelWidthMm] = useState<string>("80");
-  const [labelHeightMm, setLabelHeightMm] = useState<string>("80");
+  const [labelWidthMm, setLabelWidthMm] = useState<string>(
+    () => loadSettings().labelWidthMm
+  );
+  const [labelHeightMm, setLabelHeightMm] = useState<string>(
+    () => loadSettings().labelHeightMm
+  );
 
   useEffect(() => {
     localStorage.setItem("etis_operator", operatorName);
@@ -176,350 +169,621 @@ export default function Compare() {
       ? widthMmNum / heightMmNum
       : 1; // fallback 1:1
 
-  const handleMasterCapture = (file: File, previewUrl: string) => {
+  const multiUp = isMultiUp(sheetLayout);
+  const grid = useMemo(
+    () => (multiUp ? sheetCells(sheetLayout, widthMmNum, heightMmNum) : undefined),
+    [multiUp, sheetLayout, widthMmNum, heightMmNum]
+  );
+  // etiketa na porovnanie je pri hárku celý hárok
+  const sheetSize = sheetSizeMm(sheetLayout, widthMmNum, heightMmNum);
+  const etiketaAspect =
+    multiUp && sheetSize.w > 0 && sheetSize.h > 0 ? sheetSize.w / sheetSize.h : aspectRatio;
+
+  const updateSheetLayout = (patch: Partial<SheetLayout>) =>
+    setSheetLayout((l) => {
+      const next = { ...l, ...patch };
+      saveSheetLayout(next);
+      return next;
+    });
+
+  const handleMasterCapture = (file: File, previewUrl: string, quality: ImageQuality) => {
     setMasterFile(file);
     setMasterUrl(previewUrl);
+    setLibraryMaster(null);
+    setArtworkMaster(false);
+    setMasterText(null);
+    setMasterQuality(quality);
+    setQualityOverride(null);
   };
 
-  const handleEtiketaCapture = (file: File, previewUrl: string) => {
+  const handleArtworkImport = (file: File, previewUrl: string, text: string | null) => {
+    setMasterFile(file);
+    setMasterUrl(previewUrl);
+    setLibraryMaster(null);
+    setArtworkMaster(true);
+    setMasterText(text);
+    // raster z podkladov sa nehodnotí ako fotka
+    setMasterQuality(null);
+  };
+
+  const pickMaster = useCallback((m: MasterRecord) => {
+    setMasterFile(
+      new File([m.image], `master-${m.productNumber || m.id}.jpg`, {
+        type: m.image.type || "image/jpeg"
+      })
+    );
+    setMasterUrl(m.previewUrl);
+    setLibraryMaster(m);
+    setArtworkMaster(false);
+    setMasterText(null);
+    setMasterQuality(null);
+    setLabelWidthMm(String(m.widthMm));
+    setLabelHeightMm(String(m.heightMm));
+    setMasks(m.masks ?? []);
+    setMasksDirty(false);
+    setProductNumber((p) => p || m.productNumber);
+  }, []);
+
+  // produkt, pre ktorý operátor master z knižnice odmietol – auto-load ho znova nevnúti
+  const [declinedMasterFor, setDeclinedMasterFor] = useState<string | null>(null);
+  if (declinedMasterFor !== null && declinedMasterFor !== productNumber) setDeclinedMasterFor(null);
+
+  const clearMaster = () => {
+    if (libraryMaster) setDeclinedMasterFor(productNumber);
+    setLibraryMaster(null);
+    setArtworkMaster(false);
+    setMasterText(null);
+    setMasterFile(null);
+    setMasterUrl("");
+    setMasterQuality(null);
+  };
+
+  // automatické načítanie mastra podľa čísla produktu (čerstvý snímok z kamery má prednosť)
+  useEffect(() => {
+    if ((masterFile && !libraryMaster) || masterLocked || declinedMasterFor === productNumber) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const m = await findMasterByProduct(productNumber).catch(() => null);
+      if (!cancelled && m && m.id !== libraryMaster?.id) pickMaster(m);
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [productNumber, masterFile, libraryMaster, masterLocked, declinedMasterFor, pickMaster, masters]);
+
+  const handleEtiketaCapture = (file: File, previewUrl: string, quality: ImageQuality) => {
     setEtiketaFile(file);
     setEtiketaUrl(previewUrl);
+    setEtiketaQuality(quality);
+    setQualityOverride(null);
   };
 
+  // ===== kontrola kvality pred porovnaním =====
+  const qualityIssues = [
+    ...qualityGuidance(masterQuality).map((g) => `Master: ${g}`),
+    ...qualityGuidance(etiketaQuality).map((g) => `Etiketa: ${g}`)
+  ];
+  const qualityBlocked = qualityIssues.length > 0 && !qualityOverride;
+
+  function overrideQuality() {
+    if (!session || !can(role, "results.override")) return;
+    setQualityOverride({
+      by: session.user,
+      byName: session.displayName,
+      at: Date.now(),
+      issues: qualityIssues
+    });
+  }
+
   // ==== main compare ====
   async function doCompare() {
     if (!masterFile || !etiketaFile) {
-      alert("Najprv odfoť master aj etiketu.");
+      alert("Najprv odfoť alebo nahraj master aj etiketu.");
       return;
     }
+    if (qualityBlocked) return;
     setIsComparing(true);
+    setDiagnostics(null);
+    setSheet(null);
+    setSelectedCell(null);
+
+    const fields: Record<string, string> = {
+      operator: operatorName,
+      productNumber,
+      orderNumber,
+      spoolNumber: orderNumber // kompatibilita s BE
+    };
+    if (masterText) fields.masterText = masterText;
+    if (masks.length) {
+      fields.masks = masksField(masks);
+      fields.labelWidthMm = String(widthMmNum);
+      fields.labelHeightMm = String(heightMmNum);
+    }
+
+    // bez siete rovno do offline fronty (len compare-one, starý /api/compare má iný formulár)
+    const enqueue = (etiketa: File, url: string, sheetRef?: SheetRef) =>
+      enqueueCompare({
+        meta: {
+          operator: operatorName,
+          orderNumber,
+          productNumber,
+          qualityOverride: qualityOverride ?? undefined,
+          sheet: sheetRef,
+          runId: activeRunId
+        },
+        fields,
+        files: [
+          { name: "master", blob: masterFile, filename: masterFile.name },
+          { name: "etiketa", blob: etiketa, filename: etiketa.name }
+        ],
+        masterUrl,
+        etiketaUrl: url,
+        masterText: masterText ?? undefined,
+        endpoints: [
+          queuedEndpoint("java", "/api/compare-one", TIMEOUTS.javaCompare),
+          queuedEndpoint("python", "/api/compare-one", TIMEOUTS.pyCompare)
+        ]
+      });
+    const queueIt = async () => {
+      await enqueue(etiketaFile, etiketaUrl);
+      nextSample();
+      alert("Backend je nedostupný – inšpekcia bola odložená a odošle sa po obnovení spojenia.");
+    };
+
+    if (multiUp) {
+      try {
+        await compareSheet(masterFile, etiketaFile, fields, enqueue);
+        nextSample();
+      } finally {
+        abortRef.current = null;
+        setIsComparing(false);
+      }
+      return;
+    }
+
     try {
+      if (!navigator.onLine) {
+        await queueIt();
+        return;
+      }
+
+      // kódy čítame aj v prehliadači, súbežne s BE – záloha a kontrola jeho výsledku
+      const clientCodes = readClientBarcodes(masterUrl, etiketaUrl);
+
       const fd = new FormData();
       fd.append("master", masterFile);
       fd.append("etiketa", etiketaFile);
-      fd.append("operator", operatorName);
-      fd.append("productNumber", productNumber);
-      fd.append("orderNumber", orderNumber);
-      fd.append("spoolNumber", orderNumber); // kompatibilita s BE
-
-      // 1) Java
-      let resp: any = await fetchJSON(`${JAVA_BASE}/api/compare-one`, fd).catch(
-        () => null
+      Object.entries(fields).forEach(([k, v]) => fd.append(k, v));
+
+      // Java → Python → starý /api/compare
+      const ctrl = new AbortController();
+      abortRef.current = ctrl;
+      const result = await compareWithFailover(
+        [
+          { backend: "java", path: "/api/compare-one", timeoutMs: TIMEOUTS.javaCompare, body: () => fd },
+          { backend: "python", path: "/api/compare-one", timeoutMs: TIMEOUTS.pyCompare, body: () => fd },
+          {
+            backend: "python",
+            path: "/api/compare",
+            timeoutMs: TIMEOUTS.legacyCompare,
+            body: async () => {
+              const img = await loadImage(masterUrl);
+              const fd2 = new FormData();
+              fd2.append("master", masterFile);
+              fd2.append("scan", etiketaFile);
+              fd2.append("rows", "1");
+              fd2.append("cols", "1");
+              fd2.append("label_w", String(img.width));
+              fd2.append("label_h", String(img.height));
+              fd2.append("gap_x", "0");
+              fd2.append("gap_y", "0");
+              fd2.append("dpi", "800");
+              fd2.append("wind", "A1");
+              if (fields.masks) fd2.append("masks", fields.masks);
+              return fd2;
+            }
+          }
+        ],
+        { signal: ctrl.signal, health }
       );
-      if (!resp) {
-        // 2) Python
-        resp = await fetchJSON(`${PY_BASE}/api/compare-one`, fd).catch(
-          () => null
+      const { data: resp, ...src } = result;
+      if (await showResult(resp, src, etiketaUrl, new Date(), await clientCodes)) nextSample();
+    } catch (e) {
+      setView(null);
+      setSource(null);
+      if (isUnreachable(e)) {
+        await queueIt().catch((qe) =>
+          alert("Odloženie inšpekcie zlyhalo: " + (qe instanceof Error ? qe.message : String(qe)))
         );
+      } else if (!isAbort(e) && !isUnauthorized(e)) {
+        // pri 401 nás RequireAuth presmeruje na /login
+        alert("Chyba porovnania: " + (e instanceof Error ? e.message : String(e)));
       }
-      if (!resp) {
-        // 3) fallback starý /api/compare
-        const img = await loadImage(masterUrl);
-        const fd2 = new FormData();
-        fd2.append("master", masterFile);
-        fd2.append("scan", etiketaFile);
-        fd2.append("rows", "1");
-        fd2.append("cols", "1");
-        fd2.append("label_w", String(img.width));
-        fd2.append("label_h", String(img.height));
-        fd2.append("gap_x", "0");
-        fd2.append("gap_y", "0");
-        fd2.append("dpi", "800");
-        fd2.append("wind", "A1");
-        resp = await fetchJSON(`${PY_BASE}/api/compare`, fd2);
-      }
+    } finally {
+      abortRef.current = null;
+      setIsComparing(false);
+    }
+  }
 
-      // --- normalizácia na LabelView ---
-      let label: LabelView | null = null;
+  // --- dekódovanie na LabelView ---
+  async function showResult(
+    resp: unknown,
+    src: Omit<CompareResult, "data">,
+    fallbackImage: string,
+    at: Date,
+    clientCodes: ClientBarcodes | null
+  ): Promise<boolean> {
+    const decoded = decodeCompareResponse(resp, { fallbackImage });
+    setDiagnostics(decoded);
+    setSource(src);
+
+    if (!decoded.label) {
+      alert("Porovnanie nevrátilo použiteľný výsledok – pozri Diagnostiku.");
+      setView(null);
+      return false;
+    }
 
-      if (resp && (resp.ocr || resp.barcode || resp.barcodes || resp.graphics)) {
-        const url = toImgUrl(resp.image || etiketaUrl);
-        const w = Number(resp.w || resp.width) || 0;
-        const h = Number(resp.h || resp.height) || 0;
+    const label = await finishLabel(decoded.label, at, clientCodes);
+    setView(label);
+    setDecisions({});
+    setGeneratedAt(at);
 
-        const boxes: Box[] = dedupeBoxes(
-          [
-            ...(Array.isArray(resp.graphics?.boxes)
-              ? resp.graphics.boxes
-              : []
-            ).map(
-              (b: any): Box => ({
-                x: +(b.x || b[0] || 0),
-                y: +(b.y || b[1] || 0),
-                w: +(b.w || b[2] || 1),
-                h: +(b.h || b[3] || 1),
-                type: "diff",
-                subType: b.subType || null,
-                desc: b.desc || "Rozdiel"
-              })
-            )
-          ],
-          0.9
-        );
+    // každú dokončenú inšpekciu hneď do histórie
+    const rec = newRecord(label, at, src, etiketaUrl);
+    setShownRecord(rec);
+    saveInspection(rec).then(refreshRun, (e) => console.warn("Uloženie do histórie zlyhalo:", e));
+    return true;
+  }
+
+  // v behu vzorkovania pripraví snímok ďalšej etikety (rovnaký snímok sa nezapočíta dvakrát)
+  function nextSample() {
+    if (!activeRunId) return;
+    setEtiketaFile(null);
+    setEtiketaUrl("");
+    setEtiketaQuality(null);
+    setQualityOverride(null);
+    setEtiketaKey((k) => k + 1);
+  }
+
+  // text mastra z PDF, masky mastra aj na strane klienta (BE ich nemusí poznať), potom
+  // premenlivý text, kódy z prehliadača, ich kontrolné číslice / polia GS1 a očakávané kódy
+  async function finishLabel(
+    label: LabelView,
+    at: Date,
+    clientCodes: ClientBarcodes | null
+  ): Promise<LabelView> {
+    const sized = await withImageSize(label);
+    const ruled = applyTextRules(
+      applyMasks(applyMasterText(sized, masterText), masks, {
+        widthMm: widthMmNum,
+        heightMm: heightMmNum
+      }),
+      textRules,
+      { today: at, orderNumber }
+    );
+    return applyExpectedCodes(
+      checkBarcodes(clientCodes ? mergeClientBarcodes(ruled, clientCodes) : ruled),
+      expectedCodes
+    );
+  }
+
+  function newRecord(
+    label: LabelView,
+    at: Date,
+    src: Omit<CompareResult, "data">,
+    etiketa: string,
+    sheetRef?: SheetRef
+  ): InspectionRecord {
+    const sum = computeSummary(label);
+    return {
+      id: crypto.randomUUID(),
+      createdAt: at.getTime(),
+      operator: operatorName,
+      orderNumber,
+      productNumber,
+      summary: sum,
+      passed: isPass(sum),
+      view: label,
+      masterUrl,
+      etiketaUrl: etiketa,
+      source: { backend: src.backend, path: src.path },
+      qualityOverride: qualityOverride ?? undefined,
+      sheet: sheetRef,
+      runId: activeRunId
+    };
+  }
+
+  // ==== hárok: etikety po jednej cez compare-one, alebo celý hárok na starý /api/compare ====
+  async function compareSheet(
+    master: File,
+    sheetFile: File,
+    fields: Record<string, string>,
+    enqueue: (etiketa: File, url: string, sheetRef?: SheetRef) => Promise<unknown>
+  ) {
+    const at = new Date();
+    const sheetId = crypto.randomUUID();
+    const { rows, cols } = sheetLayout;
+    const ref = (index: number): SheetRef => ({ id: sheetId, index, rows, cols });
+    const cells: SheetCellResult[] = Array.from({ length: rows * cols }, () => ({ record: null }));
+    const publish = () => setSheet({ rows, cols, cells: [...cells] });
+    const done = (i: number, rec: InspectionRecord) => {
+      cells[i] = { record: rec };
+      saveInspection(rec).then(refreshRun, (e) => console.warn("Uloženie do histórie zlyhalo:", e));
+      if (!cells.some((c, k) => k !== i && c.record)) showCell(i, rec);
+    };
+    setView(null);
+    publish();
 
-        const ocrMaster: string = resp.ocr?.masterText || "";
-        const ocrScan: string = resp.ocr?.scanText || "";
-        const ocrDiffs: OcrDiff[] = Array.isArray(resp.ocr?.diffs)
-          ? resp.ocr.diffs
-          : makeLineDiffs(ocrMaster, ocrScan);
-
-        // barcode
-        let bcItems: BcItem[] = [];
-        let bcMatch: boolean | undefined = undefined;
-
-        if (resp.barcode && Array.isArray(resp.barcode.items)) {
-          bcItems = resp.barcode.items.map(
-            (b: any): BcItem => ({
-              symbology: b.symbology || b.type || "-",
-              value: b.value || b.text || "-",
-              valid: !!b.valid,
-              reason: b.reason || null
-            })
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    const fail = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+    if (sheetLayout.mode === "sheet") {
+      try {
+        // rozmery v pixeloch mastra (jedna etiketa) – BE si hárok rozreže sám
+        const img = await loadImage(masterUrl);
+        const pxPerMm = img.width / (widthMmNum || 1);
+        const fd = new FormData();
+        fd.append("master", master);
+        fd.append("scan", sheetFile);
+        fd.append("rows", String(rows));
+        fd.append("cols", String(cols));
+        fd.append("label_w", String(img.width));
+        fd.append("label_h", String(img.height));
+        fd.append("gap_x", String(Math.round(sheetLayout.gapXmm * pxPerMm)));
+        fd.append("gap_y", String(Math.round(sheetLayout.gapYmm * pxPerMm)));
+        fd.append("dpi", String(Math.round(pxPerMm * 25.4)));
+        fd.append("wind", sheetLayout.wind);
+        if (fields.masks) fd.append("masks", fields.masks);
+        const { data, ...src } = await compareWithFailover(
+          [{ backend: "python", path: "/api/compare", timeoutMs: TIMEOUTS.legacyCompare, body: () => fd }],
+          { signal: ctrl.signal, health }
+        );
+        const decoded = decodeSheetResponse(data, { fallbackImage: etiketaUrl });
+        setDiagnostics(decoded[0]);
+        setSource(src);
+        if (decoded.length < cells.length) {
+          alert(
+            `BE vrátil ${decoded.length} výsledkov pre ${cells.length} etikiet – ostatné ostanú bez výsledku.`
           );
-          if (typeof resp.barcode.match === "boolean")
-            bcMatch = resp.barcode.match;
         }
-        if (resp.barcodes) {
-          const mArr = Array.isArray(resp.barcodes.master)
-            ? resp.barcodes.master
-            : [];
-          const sArr = Array.isArray(resp.barcodes.scan)
-            ? resp.barcodes.scan
-            : [];
-          bcItems = [
-            ...mArr.map(
-              (b: any): BcItem => ({
-                side: "master",
-                symbology: b.type || b.symbology || "-",
-                value: b.data || b.value || "-",
-                valid: !!(b.valid ?? true),
-                reason: b.reason || null
-              })
-            ),
-            ...sArr.map(
-              (b: any): BcItem => ({
-                side: "scan",
-                symbology: b.type || b.symbology || "-",
-                value: b.data || b.value || "-",
-                valid: !!(b.valid ?? true),
-                reason: b.reason || null
-              })
-            )
-          ];
-          if (typeof resp.barcodes.match === "boolean")
-            bcMatch = resp.barcodes.match;
-          if (bcMatch === undefined && mArr.length && sArr.length) {
-            const mSet = new Set(
-              mArr.map((b: any) => String(b.data || b.value || ""))
-            );
-            bcMatch = sArr.some((b: any) =>
-              mSet.has(String(b.data || b.value || ""))
-            );
-          }
+        for (let i = 0; i < cells.length; i++) {
+          const d = decoded[i];
+          if (!d) cells[i] = { record: null, error: "bez výsledku" };
+          else if (!d.label) cells[i] = { record: null, error: "bez použiteľného výsledku" };
+          else done(i, newRecord(await finishLabel(d.label, at, null), at, src, d.label.url, ref(i)));
         }
-
-        label = {
-          url,
-          w,
-          h,
-          boxes,
-          ocrMaster,
-          ocrScan,
-          ocrDiffs,
-          barcode: dedupeBc(bcItems),
-          barcodeMatch: bcMatch
-        };
+      } catch (e) {
+        if (!isAbort(e) && !isUnauthorized(e)) alert("Chyba porovnania hárku: " + fail(e));
       }
+      publish();
+      return;
+    }
 
-      if (!label) {
-        console.warn("Neznámy formát odpovede:", resp);
-        alert("Porovnanie nevrátilo použiteľný výsledok.");
-        setView(null);
-        return;
+    const parts = await loadImage(etiketaUrl)
+      .then((img) => splitSheet(img, sheetCells(sheetLayout, widthMmNum, heightMmNum)))
+      .catch((e) => {
+        alert("Hárok sa nepodarilo rozdeliť na etikety: " + fail(e));
+        return [];
+      });
+    let queued = 0;
+    const queuePart = (part: (typeof parts)[number]) =>
+      enqueue(part.file, part.previewUrl, ref(part.cell.index)).then(
+        () => {
+          queued++;
+          cells[part.cell.index] = { record: null, error: "odložené do fronty" };
+        },
+        (qe) => (cells[part.cell.index] = { record: null, error: "odloženie zlyhalo: " + fail(qe) })
+      );
+    // po prvej nedostupnosti BE ide zvyšok hárku rovno do fronty, bez ďalších timeoutov
+    let unreachable = !navigator.onLine;
+    for (const part of parts) {
+      const i = part.cell.index;
+      if (ctrl.signal.aborted) break;
+      if (unreachable) {
+        await queuePart(part);
+        publish();
+        continue;
       }
-
-      setView(label);
-      setGeneratedAt(new Date());
-    } catch (e: any) {
-      alert("Chyba porovnania: " + (e?.message || String(e)));
-      setView(null);
-    } finally {
-      setIsComparing(false);
+      try {
+        const clientCodes = readClientBarcodes(masterUrl, part.previewUrl);
+        const fd = new FormData();
+        fd.append("master", master);
+        fd.append("etiketa", part.file);
+        Object.entries(fields).forEach(([k, v]) => fd.append(k, v));
+        const { data, ...src } = await compareWithFailover(
+          [
+            { backend: "java", path: "/api/compare-one", timeoutMs: TIMEOUTS.javaCompare, body: () => fd },
+            { backend: "python", path: "/api/compare-one", timeoutMs: TIMEOUTS.pyCompare, body: () => fd }
+          ],
+          { signal: ctrl.signal, health }
+        );
+        const decoded = decodeCompareResponse(data, { fallbackImage: part.previewUrl });
+        if (i === 0 || !decoded.label) setDiagnostics(decoded);
+        setSource(src);
+        if (!decoded.label) cells[i] = { record: null, error: "bez použiteľného výsledku" };
+        else {
+          const label = await finishLabel(decoded.label, at, await clientCodes);
+          done(i, newRecord(label, at, src, part.previewUrl, ref(i)));
+        }
+      } catch (e) {
+        if (isAbort(e) || isUnauthorized(e)) break;
+        if (!navigator.onLine || isUnreachable(e)) {
+          // táto etiketa aj zvyšok hárku do offline fronty – výsledky prídu do histórie
+          unreachable = true;
+          await queuePart(part);
+        } else {
+          cells[i] = { record: null, error: fail(e) };
+        }
+      }
+      publish();
     }
+    if (queued) alert(`Backend je nedostupný – ${queued} etikiet hárku bolo odložených do fronty.`);
   }
 
-  // ===== overlay canvas pre výsledok z BE =====
-  function Overlay({
-    src,
-    w,
-    h,
-    boxes
-  }: {
-    src: string;
-    w: number;
-    h: number;
-    boxes: Box[];
-  }) {
-    const [nat, setNat] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
-    const [size, setSize] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
-    const ref = useRef<HTMLCanvasElement | null>(null);
-    const containerRef = useRef<HTMLDivElement | null>(null);
-
-    useEffect(() => {
-      const img = new Image();
-      let cancelled = false;
-      let recalc = () => {};
-
-      img.onload = () => {
-        if (cancelled) return;
-        setNat({ w: img.width, h: img.height });
-        recalc = () => {
-          const cw = containerRef.current?.clientWidth || img.width;
-          const ratio =
-            (h || img.height) / (w || img.width || 1);
-          const newW = Math.round(cw);
-          const newH = Math.round(cw * ratio);
-          setSize({ w: newW, h: newH });
-        };
-        recalc();
-        window.addEventListener("resize", recalc);
-      };
-      img.src = src;
-
-      return () => {
-        cancelled = true;
-        window.removeEventListener("resize", recalc);
-      };
-    }, [src, w, h]);
-
-    useEffect(() => {
-      const c = ref.current;
-      if (!c) return;
-      const ctx = c.getContext("2d");
-      if (!ctx) return;
-      const dpr = Math.max(1, window.devicePixelRatio || 1);
-      c.width = Math.round(size.w * dpr);
-      c.height = Math.round(size.h * dpr);
-      c.style.width = `${size.w}px`;
-      c.style.height = `${size.h}px`;
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-
-      const img = new Image();
-      img.onload = () => {
-        ctx.clearRect(0, 0, size.w, size.h);
-        ctx.drawImage(img, 0, 0, size.w, size.h);
-        const sx = size.w / (w || nat.w || 1);
-        const sy = size.h / (h || nat.h || 1);
-        boxes.forEach((b) => {
-          ctx.save();
-          ctx.strokeStyle =
-            b.type === "ocr"
-              ? "#eab308"
-              : b.type === "barcode"
-              ? "#06b6d4"
-              : "#ef4444";
-          if (b.type === "ocr") ctx.setLineDash([6, 4]);
-          ctx.lineWidth = 2;
-          ctx.strokeRect(
-            Math.round(b.x * sx),
-            Math.round(b.y * sy),
-            Math.round(b.w * sx),
-            Math.round(b.h * sy)
-          );
-          ctx.restore();
-        });
-      };
-      img.src = src;
-    }, [src, size, boxes, w, h, nat]);
-
-    return (
-      <div ref={containerRef} className="w-full">
-        <canvas
-          ref={ref}
-          className="rounded-xl border border-slate-200 bg-white"
-        />
-      </div>
-    );
+  // detail uloženého záznamu (etiketa hárku, vzorka behu)
+  function showRecord(rec: InspectionRecord) {
+    setView(rec.view);
+    setShownRecord(rec);
+    setDecisions(rec.decisions ?? {});
+    setGeneratedAt(new Date(rec.createdAt));
+  }
+
+  function showCell(i: number, rec: InspectionRecord) {
+    setSelectedCell(i);
+    showRecord(rec);
+  }
+
+  function openSample(rec: InspectionRecord) {
+    const i = sheet?.cells.findIndex((c) => c.record?.id === rec.id) ?? -1;
+    if (i >= 0) showCell(i, rec);
+    else {
+      setSelectedCell(null);
+      showRecord(rec);
+    }
   }
 
-  // ===== uložiť / tlačiť =====
-  function saveReport() {
-    if (!view) return;
-    const report = {
-      createdAt: (generatedAt ?? new Date()).toISOString(),
+  // ===== beh vzorkovania =====
+  async function startRun(plan: SamplingPlan | null) {
+    if (!masterFile) return;
+    const masterKey = crypto.randomUUID();
+    try {
+      await saveRunMaster({
+        id: masterKey,
+        image: masterFile,
+        previewUrl: masterUrl,
+        origin: libraryMaster ? "library" : artworkMaster ? "artwork" : "capture",
+        libraryId: libraryMaster?.id,
+        masterText,
+        widthMm: widthMmNum,
+        heightMm: heightMmNum,
+        masks
+      });
+    } catch (e) {
+      alert("Master behu sa nepodarilo uložiť: " + (e instanceof Error ? e.message : String(e)));
+      return;
+    }
+    setRunMasterMissing(false);
+    setRun({
+      id: crypto.randomUUID(),
+      startedAt: Date.now(),
       operator: operatorName,
       orderNumber,
       productNumber,
-      summary: {
-        text:
-          view.ocrMaster &&
-          view.ocrScan &&
-          view.ocrMaster.trim() !== view.ocrScan.trim()
-            ? "Chyba"
-            : "OK",
-        barcode:
-          view.barcodeMatch === false ||
-          (view.barcode || []).some((b) => b.valid === false)
-            ? "Chyba"
-            : view.barcode && view.barcode.length
-            ? "OK"
-            : "Bez kódu",
-        graphics: (view.boxes || []).some((b) => b.type === "diff")
-          ? "Chyba"
-          : "OK"
-      },
-      ocr: {
-        master: view.ocrMaster,
-        scan: view.ocrScan,
-        diffs: view.ocrDiffs || []
-      },
-      barcode: { match: view.barcodeMatch, items: view.barcode || [] },
-      graphics: { diffBoxes: view.boxes || [] },
-      image: view.url
-    };
-    const blob = new Blob([JSON.stringify(report, null, 2)], {
-      type: "application/json"
+      plan,
+      masterKey
     });
-    const a = document.createElement("a");
-    a.href = URL.createObjectURL(blob);
-    a.download = `scancontroll-report-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(a.href);
   }
 
-  function printPage() {
-    window.print();
+  // po obnovení stránky vráti otvorenému behu jeho master
+  useEffect(() => {
+    if (!activeRunId || !run || masterFile) return;
+    let cancelled = false;
+    (async () => {
+      const m = await getRunMaster(run.masterKey).catch(() => undefined);
+      // záznam v knižnici mohol byť medzitým zmazaný – master behu ostáva platný
+      const lib = m?.libraryId ? await getMaster(m.libraryId).catch(() => null) : null;
+      if (cancelled) return;
+      if (!m) {
+        setRunMasterMissing(true);
+        return;
+      }
+      setMasterFile(new File([m.image], "master-behu.jpg", { type: m.image.type || "image/jpeg" }));
+      setMasterUrl(m.previewUrl);
+      setLibraryMaster(lib);
+      setArtworkMaster(m.origin === "artwork");
+      setMasterText(m.masterText);
+      setMasterQuality(null);
+      setLabelWidthMm(String(m.widthMm));
+      setLabelHeightMm(String(m.heightMm));
+      setMasks(m.masks);
+      setMasksDirty(false);
+      setRunMasterMissing(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeRunId, run, masterFile]);
+
+  function dismissRun() {
+    if (run?.masterKey) deleteRunMaster(run.masterKey).catch(() => {});
+    setRunMasterMissing(false);
+    setRun(null);
+  }
+
+  function closeRun() {
+    if (!run) return;
+    if (runQueued && !confirm(`V offline fronte čaká ${runQueued} vzoriek behu. Ukončiť beh aj tak?`)) return;
+    setRun({ ...run, closedAt: Date.now() });
+  }
+
+  function changeMasks(next: MaskZone[]) {
+    setMasks(next);
+    setMasksDirty(true);
+  }
+
+  async function saveMasksToMaster() {
+    if (!libraryMaster) return;
+    setSavingMasks(true);
+    try {
+      setLibraryMaster(await updateMasterMasks(libraryMaster, masks));
+      setMasksDirty(false);
+      refreshMasters();
+    } catch (e) {
+      alert("Uloženie masiek zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setSavingMasks(false);
+    }
+  }
+
+  function cancelCompare() {
+    abortRef.current?.abort();
+  }
+
+  // zahodenie výsledku (napr. zlý snímok) – len majster / admin
+  function discardResult() {
+    if (!can(role, "results.delete")) return;
+    if (sheet) {
+      if (!confirm("Zahodiť výsledky všetkých etikiet hárku?")) return;
+      sheet.cells.forEach((c) => c.record && deleteInspection(c.record.id).then(refreshRun, () => {}));
+      setSheet(null);
+      setSelectedCell(null);
+    } else if (!confirm("Zahodiť aktuálny výsledok porovnania?")) return;
+    setView(null);
+    setDecisions({});
+    setSource(null);
+    setDiagnostics(null);
+    setGeneratedAt(null);
+    if (inspectionId) deleteInspection(inspectionId).then(refreshRun, () => {});
+    setShownRecord(null);
   }
 
   // ===== summary badges =====
-  const summary = useMemo(() => {
-    if (!view)
-      return { text: "–", bc: "–", gfx: "–", bcMismatch: false };
-
-    const hasTextErr =
-      !!(
-        view.ocrMaster &&
-        view.ocrScan &&
-        view.ocrMaster.trim() &&
-        view.ocrScan.trim() &&
-        view.ocrMaster.trim() !== view.ocrScan.trim()
-      );
+  const summary = useMemo(() => computeSummary(view, decisions), [view, decisions]);
 
-    const bcMismatch = view.barcodeMatch === false;
-    const bcHasErr =
-      bcMismatch || (view.barcode || []).some((b) => b.valid === false);
-    const gfxHasErr = (view.boxes || []).some((b) => b.type === "diff");
-    return {
-      text: hasTextErr ? "Chyba" : "OK",
-      bc: bcHasErr
-        ? "Chyba"
-        : view.barcode && view.barcode.length
-        ? "OK"
-        : "Bez kódu",
-      gfx: gfxHasErr ? "Chyba" : "OK",
-      bcMismatch
-    };
-  }, [view]);
+  // aktuálny výsledok ako záznam histórie / reportu
+  // (meta z hlavičky sa po porovnaní môžu zmeniť – záznam v histórii ostáva, ako bol)
+  function currentRecord(): InspectionRecord | null {
+    if (!view || !shownRecord) return null;
+    return { ...shownRecord, decisions };
+  }
+
+  // rozhodnutie majstra k nálezu – hneď aj do histórie
+  function decide(key: string, decision: DefectDecision | null) {
+    const rec = currentRecord();
+    if (!rec) return;
+    const next = withDecision(rec, key, decision);
+    setShownRecord(next);
+    setDecisions(next.decisions ?? {});
+    if (sheet && selectedCell !== null) {
+      setSheet({
+        ...sheet,
+        cells: sheet.cells.map((c, i) => (i === selectedCell ? { record: next } : c))
+      });
+    }
+    saveInspection(next).then(refreshRun, (e) => console.warn("Uloženie rozhodnutia zlyhalo:", e));
+  }
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 print:bg-white">
@@ -533,6 +797,14 @@ export default function Compare() {
             <p className="text-slate-400 text-sm text-center sm:text-left">
               Statická kontrola etikiet – fotenie s automatickým ohraničením
             </p>
+            <div className="mt-2 flex justify-center sm:justify-start">
+              <BackendBadge health={health} source={view ? source : null} />
+              {pendingCount > 0 && (
+                <span className="ml-2 px-2 py-1 rounded-full bg-amber-600 text-white text-xs font-semibold">
+                  Čakajúce inšpekcie: {pendingCount}
+                </span>
+              )}
+            </div>
           </div>
 
           <div className="flex flex-wrap gap-2 sm:justify-end">
@@ -546,51 +818,215 @@ export default function Compare() {
               value={orderNumber}
               onChange={(e) => setOrderNumber(e.target.value)}
               placeholder="Číslo zákazky"
-              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[140px]"
+              disabled={!!activeRunId}
+              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[140px] disabled:opacity-60"
             />
             <input
               value={productNumber}
               onChange={(e) => setProductNumber(e.target.value)}
               placeholder="Číslo produktu"
-              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[140px]"
+              disabled={!!activeRunId}
+              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[140px] disabled:opacity-60"
             />
             <input
               value={labelWidthMm}
               onChange={(e) => setLabelWidthMm(e.target.value)}
               placeholder="Šírka (mm)"
-              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[110px]"
+              disabled={!!activeRunId}
+              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[110px] disabled:opacity-60"
             />
             <input
               value={labelHeightMm}
               onChange={(e) => setLabelHeightMm(e.target.value)}
               placeholder="Výška (mm)"
-              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[110px]"
+              disabled={!!activeRunId}
+              className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm w-[110px] disabled:opacity-60"
             />
-
-            <button
-              onClick={() => {
-                localStorage.removeItem("etis_auth");
-                localStorage.removeItem("etis_user");
-                location.href = "/login";
-              }}
-              className="text-sm text-slate-300 hover:text-white"
-            >
-              Odhlásiť
-            </button>
           </div>
         </header>
 
+        <SheetLayoutPanel
+          layout={sheetLayout}
+          onChange={updateSheetLayout}
+          widthMm={widthMmNum}
+          heightMm={heightMmNum}
+        />
+
+        <SamplingRunPanel
+          run={run}
+          samples={runSamples}
+          queued={runQueued}
+          selectedId={inspectionId}
+          canStart={!!masterFile}
+          onStart={startRun}
+          onClose={closeRun}
+          onDismiss={dismissRun}
+          onOpen={openSample}
+        />
+
         {/* Kamera: master / scan */}
         <div className="grid md:grid-cols-2 gap-6 print:hidden">
-          <LabelCamera
-            title="Master etiketa"
-            aspectRatio={aspectRatio}
-            onCapture={handleMasterCapture}
-          />
+          <div>
+            {masterLocked ? (
+              <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5">
+                <div className="text-sm font-semibold mb-2">
+                  Master etiketa
+                  <span className="ml-2 px-2 py-0.5 rounded bg-sky-700 text-white text-xs">
+                    zamknutý pre beh
+                  </span>
+                </div>
+                {masterFile ? (
+                  <>
+                    <div className="relative w-full rounded-xl overflow-hidden bg-black aspect-[3/4]">
+                      <img
+                        src={masterUrl}
+                        alt="Master behu"
+                        className="absolute inset-0 w-full h-full object-contain"
+                      />
+                    </div>
+                    <div className="mt-2 text-xs text-slate-400">
+                      {libraryMaster ? "z knižnice" : artworkMaster ? "z podkladov" : "odfotený"} ·{" "}
+                      {widthMmNum}×{heightMmNum} mm · zmena mastra až po ukončení behu
+                    </div>
+                  </>
+                ) : runMasterMissing ? (
+                  <p className="text-xs text-red-300">
+                    Master behu sa nepodarilo obnoviť – ukonči beh a začni nový s mastrom.
+                  </p>
+                ) : (
+                  <p className="text-xs text-slate-400">Načítavam master behu…</p>
+                )}
+              </div>
+            ) : libraryMaster ? (
+              <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5">
+                <div className="text-sm font-semibold mb-2">
+                  Master etiketa
+                  <span className="ml-2 px-2 py-0.5 rounded bg-sky-700 text-white text-xs">
+                    z knižnice
+                  </span>
+                </div>
+                <div className="relative w-full rounded-xl overflow-hidden bg-black aspect-[3/4]">
+                  <img
+                    src={libraryMaster.previewUrl}
+                    alt="Master z knižnice"
+                    className="absolute inset-0 w-full h-full object-contain"
+                  />
+                </div>
+                <div className="mt-2 text-xs text-slate-400">
+                  {libraryMaster.productNumber} · {libraryMaster.widthMm}×{libraryMaster.heightMm} mm
+                  {libraryMaster.notes ? ` · ${libraryMaster.notes}` : ""}
+                </div>
+                <button
+                  type="button"
+                  onClick={clearMaster}
+                  className="mt-3 w-full px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-semibold text-white"
+                >
+                  Nový master (kamera / súbor)
+                </button>
+              </div>
+            ) : artworkMaster ? (
+              <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5">
+                <div className="text-sm font-semibold mb-2">
+                  Master etiketa
+                  <span className="ml-2 px-2 py-0.5 rounded bg-violet-700 text-white text-xs">
+                    z podkladov
+                  </span>
+                </div>
+                <div className="relative w-full rounded-xl overflow-hidden bg-black aspect-[3/4]">
+                  <img
+                    src={masterUrl}
+                    alt="Master z podkladov"
+                    className="absolute inset-0 w-full h-full object-contain"
+                  />
+                </div>
+                <div className="mt-2 text-xs text-slate-400">
+                  {widthMmNum}×{heightMmNum} mm ·{" "}
+                  {masterText ? "text mastra z PDF" : "text mastra z OCR"}
+                </div>
+                <button
+                  type="button"
+                  onClick={clearMaster}
+                  className="mt-3 w-full px-3 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm font-semibold text-white"
+                >
+                  Nový master (kamera / súbor)
+                </button>
+              </div>
+            ) : (
+              <LabelSource
+                title="Master etiketa"
+                aspectRatio={aspectRatio}
+                onCapture={handleMasterCapture}
+              />
+            )}
+
+            {!masterLocked && (
+              <>
+                <ArtworkImport
+                  widthMm={widthMmNum}
+                  heightMm={heightMmNum}
+                  onImport={handleArtworkImport}
+                />
 
-          <LabelCamera
-            title="Etiketa na porovnanie"
-            aspectRatio={aspectRatio}
+                <MasterLibraryPanel
+                  masters={masters}
+                  selectedId={libraryMaster?.id}
+                  onPick={pickMaster}
+                  onSaved={refreshMasters}
+                  captured={
+                    masterFile && !libraryMaster ? { file: masterFile, previewUrl: masterUrl } : null
+                  }
+                  productNumber={productNumber}
+                  widthMm={widthMmNum}
+                  heightMm={heightMmNum}
+                  createdBy={session?.user || operatorName}
+                  canSave={can(role, "masters.save")}
+                  masks={masks}
+                />
+              </>
+            )}
+
+            {masterUrl && (
+              <MaskEditor
+                imageUrl={masterUrl}
+                size={{ widthMm: widthMmNum, heightMm: heightMmNum }}
+                masks={masks}
+                onChange={changeMasks}
+                readOnly={!can(role, "masters.save") || masterLocked}
+                onSave={libraryMaster ? saveMasksToMaster : undefined}
+                saving={savingMasks}
+                dirty={masksDirty}
+              />
+            )}
+
+            <TextRulesPanel
+              productNumber={productNumber}
+              orderNumber={orderNumber}
+              rules={textRules}
+              onSaved={refreshTextRules}
+              updatedBy={session?.user || operatorName}
+              readOnly={!can(role, "masters.save")}
+            />
+
+            <ExpectedCodesPanel
+              productNumber={productNumber}
+              codes={expectedCodes}
+              onSaved={refreshExpectedCodes}
+              updatedBy={session?.user || operatorName}
+              readOnly={!can(role, "masters.save")}
+            />
+          </div>
+
+          <LabelSource
+            key={etiketaKey}
+            title={
+              multiUp
+                ? `Hárok na porovnanie (${sheetLayout.rows} × ${sheetLayout.cols})`
+                : activeRunId
+                  ? `Vzorka č. ${runSamples.length + runQueued + 1}`
+                  : "Etiketa na porovnanie"
+            }
+            aspectRatio={etiketaAspect}
+            grid={grid}
             onCapture={handleEtiketaCapture}
           />
         </div>
@@ -599,213 +1035,102 @@ export default function Compare() {
         <div className="mt-6 print:hidden">
           <button
             onClick={doCompare}
-            disabled={isComparing || !masterFile || !etiketaFile}
+            disabled={isComparing || !masterFile || !etiketaFile || qualityBlocked}
             className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-semibold px-6 py-3 rounded-xl w-full sm:w-auto"
           >
             {isComparing ? "Porovnávam…" : "Porovnať"}
           </button>
-        </div>
-
-        {/* Results */}
-        {view ? (
-          <div className="mt-8 grid md:grid-cols-[1.2fr_0.8fr] gap-8 items-start">
-            {/* ĽAVÝ STĹPEC: náhľad + tlačidlá na SPODKU */}
-            <div>
-              <div className="rounded-2xl bg-white p-4 text-slate-900 border">
-                <Overlay
-                  src={view.url}
-                  w={view.w}
-                  h={view.h}
-                  boxes={view.boxes || []}
-                />
+          {isComparing && (
+            <button
+              onClick={cancelCompare}
+              className="mt-3 sm:mt-0 sm:ml-3 bg-slate-700 hover:bg-slate-600 text-white font-semibold px-6 py-3 rounded-xl w-full sm:w-auto"
+            >
+              Zrušiť
+            </button>
+          )}
+
+          {qualityIssues.length > 0 && (
+            <div className="mt-3 rounded-xl border border-amber-600 bg-amber-950/30 p-3 text-sm">
+              <div className="font-semibold text-amber-300">
+                {qualityOverride
+                  ? `Porovnanie povolené napriek kvalite snímku (${qualityOverride.byName || qualityOverride.by})`
+                  : "Porovnanie je zablokované – snímky nemajú dostatočnú kvalitu"}
               </div>
-
-              <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-                <div className="text-sm text-slate-300">
-                  {generatedAt
-                    ? `Report: ${generatedAt.toLocaleString()}`
-                    : null}
-                </div>
-                <div className="flex gap-3 print:hidden">
-                  <button
-                    onClick={saveReport}
-                    className="bg-sky-600 hover:bg-sky-700 text-white font-semibold px-5 py-3 rounded-xl"
-                  >
-                    Uložiť
-                  </button>
+              <ul className="mt-1 list-disc list-inside text-amber-200 text-xs">
+                {qualityIssues.map((i) => (
+                  <li key={i}>{i}</li>
+                ))}
+              </ul>
+              {!qualityOverride &&
+                (can(role, "results.override") ? (
                   <button
-                    onClick={printPage}
-                    className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold px-5 py-3 rounded-xl"
+                    type="button"
+                    onClick={overrideQuality}
+                    className="mt-2 px-3 py-1.5 rounded-lg bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold"
                   >
-                    Tlačiť
+                    Povoliť napriek kvalite
                   </button>
-                </div>
-              </div>
+                ) : (
+                  <p className="mt-2 text-xs text-slate-400">
+                    Odfoť znova podľa rád, alebo privolaj majstra na povolenie.
+                  </p>
+                ))}
             </div>
+          )}
+        </div>
 
-            {/* PRAVÝ STĹPEC: vyhodnotenie */}
-            <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5 space-y-5">
-              <h2 className="text-xl font-bold">Vyhodnotenie</h2>
-
-              {/* Meta info pre tlač */}
-              <div className="text-sm text-slate-300 hidden print:block">
-                <div>
-                  <b>Operátor:</b> {operatorName || "-"}
-                </div>
-                <div>
-                  <b>Číslo zákazky:</b> {orderNumber || "-"}
-                </div>
-                <div>
-                  <b>Číslo produktu:</b> {productNumber || "-"}
-                </div>
-                <div>
-                  <b>Dátum/čas:</b>{" "}
-                  {generatedAt ? generatedAt.toLocaleString() : "-"}
-                </div>
-              </div>
-
-              {/* TEXT (OCR) */}
-              <div>
-                <div className="flex items-center gap-2">
-                  <b>Text:</b>
-                  {summary.text === "OK" ? (
-                    <span className="text-green-400">OK</span>
-                  ) : summary.text === "Chyba" ? (
-                    <span className="text-red-400">Chyba</span>
-                  ) : (
-                    <span className="text-slate-300">–</span>
-                  )}
-                </div>
-
-                {(view.ocrMaster || view.ocrScan) && (
-                  <div className="text-sm mt-2 space-y-2">
-                    <div>
-                      <span className="px-2 py-0.5 rounded bg-slate-700 text-slate-100 font-semibold mr-2">
-                        Master
-                      </span>
-                      <span className="text-slate-300">
-                        {truncate(view.ocrMaster, 200) || "-"}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="px-2 py-0.5 rounded bg-emerald-700 text-white font-semibold mr-2">
-                        Scan
-                      </span>
-                      <span className="text-slate-300">
-                        {truncate(view.ocrScan, 200) || "-"}
-                      </span>
-                    </div>
-
-                    {!!(view.ocrDiffs && view.ocrDiffs.length) && (
-                      <div className="mt-3">
-                        <div className="text-slate-400 mb-1">
-                          Rozdiely ({view.ocrDiffs.length}):
-                        </div>
-                        <ul className="space-y-1 max-h-48 overflow-auto pr-1">
-                          {view.ocrDiffs!.map((d, i) => (
-                            <li
-                              key={i}
-                              className="bg-slate-900/50 rounded p-2 text-slate-200"
-                            >
-                              <div className="text-xs text-slate-400 mb-1">
-                                riadok {d.line}
-                              </div>
-                              <div>
-                                <span className="text-slate-400">M:</span>{" "}
-                                {truncate(d.master, 120) || (
-                                  <em className="text-slate-500">∅</em>
-                                )}
-                              </div>
-                              <div>
-                                <span className="text-slate-400">S:</span>{" "}
-                                <span className="text-amber-300">
-                                  {truncate(d.scan, 120) || (
-                                    <em className="text-slate-500">∅</em>
-                                  )}
-                                </span>
-                              </div>
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
-
-              {/* BARCODE */}
-              <div>
-                <div className="flex items-center gap-2">
-                  <b>Čiarový kód:</b>
-                  {summary.bc === "OK" ? (
-                    <span className="text-green-400">OK</span>
-                  ) : summary.bc === "Chyba" ? (
-                    <span className="text-red-400">Chyba</span>
-                  ) : (
-                    <span className="text-slate-300">Bez kódu</span>
-                  )}
-                  {summary.bcMismatch && (
-                    <span className="ml-2 text-red-300 text-sm">
-                      (nezhoda Master vs Scan)
-                    </span>
-                  )}
-                </div>
+        <PendingQueue entries={queue} />
 
-                {!!(view.barcode && view.barcode.length) && (
-                  <ul className="text-sm text-slate-300 mt-2 space-y-1">
-                    {view.barcode!.map((b, i) => (
-                      <li key={i}>
-                        {b.side ? (
-                          <span
-                            className={`px-2 py-0.5 rounded mr-2 ${
-                              b.side === "master"
-                                ? "bg-slate-700"
-                                : "bg-emerald-700"
-                            } text-white`}
-                          >
-                            {b.side}
-                          </span>
-                        ) : null}
-                        {b.symbology}:{" "}
-                        <span className="font-mono">{b.value}</span>{" "}
-                        {b.valid ? (
-                          <span className="text-green-400">(OK)</span>
-                        ) : (
-                          <span className="text-red-400">
-                            (CHYBA{b.reason ? `: ${b.reason}` : ""})
-                          </span>
-                        )}
-                      </li>
-                    ))}
-                  </ul>
+        {/* Results */}
+        {sheet && (
+          <SheetResultGrid
+            rows={sheet.rows}
+            cols={sheet.cols}
+            cells={sheet.cells}
+            selected={selectedCell}
+            onSelect={(i) => {
+              const rec = sheet.cells[i]?.record;
+              if (rec) showCell(i, rec);
+            }}
+          />
+        )}
+        {sheet && view && selectedCell !== null && (
+          <p className="mt-6 text-sm text-slate-300 print:hidden">
+            Detail etikety #{selectedCell + 1} ({cellLabel(selectedCell, sheet.cols)})
+          </p>
+        )}
+        {view ? (
+          <ResultView
+            view={view}
+            summary={summary}
+            meta={shownRecord ?? { operator: operatorName, orderNumber, productNumber }}
+            generatedAt={generatedAt}
+            masterUrl={masterUrl}
+            decisions={decisions}
+            onDecide={decide}
+            actions={
+              <>
+                <ReportButtons getRecord={currentRecord} />
+                {can(role, "results.delete") && (
+                  <button
+                    onClick={discardResult}
+                    className="bg-red-700 hover:bg-red-800 text-white font-semibold px-5 py-3 rounded-xl"
+                  >
+                    Zahodiť
+                  </button>
                 )}
-              </div>
-
-              {/* GRAFIKA */}
-              <div>
-                <div className="flex items-center gap-2">
-                  <b>Grafika:</b>
-                  {summary.gfx === "OK" ? (
-                    <span className="text-green-400">OK</span>
-                  ) : summary.gfx === "Chyba" ? (
-                    <span className="text-red-400">Chyba</span>
-                  ) : (
-                    <span className="text-slate-300">–</span>
-                  )}
-                  {view.boxes?.length ? (
-                    <span className="text-sm text-slate-300">
-                      Nájdené rozdiely: {view.boxes.length}
-                    </span>
-                  ) : null}
-                </div>
-              </div>
-            </div>
-          </div>
+              </>
+            }
+          />
         ) : (
-          <p className="mt-8 text-slate-300">
-            Tu sa zobrazia výsledky po porovnaní.
-          </p>
+          !sheet && (
+            <p className="mt-8 text-slate-300">
+              Tu sa zobrazia výsledky po porovnaní.
+            </p>
+          )
         )}
+
+        {diagnostics && <DiagnosticsPanel result={diagnostics} />}
       </div>
     </div>
   );
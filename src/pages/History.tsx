@@ -0,0 +1,168 @@
+// src/pages/History.tsx
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import VerdictBadge from "../components/VerdictBadge";
+import { useInspectionHistory } from "../hooks/useInspectionHistory";
+import { useCompareQueue } from "../hooks/useCompareQueue";
+import { useSession } from "../hooks/useSession";
+import {
+  deleteInspection,
+  filterInspections,
+  type HistoryFilter
+} from "../lib/inspectionHistory";
+import { can } from "../lib/roles";
+
+const inputCls = "px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm";
+
+export default function History() {
+  const { records, loading, refresh } = useInspectionHistory();
+  const [filter, setFilter] = useState<HistoryFilter>({ result: "all" });
+  const session = useSession();
+  // doručenie odložených výsledkov beží aj tu
+  const queue = useCompareQueue();
+  const pending = queue.filter((e) => e.status !== "done").length;
+  const done = queue.filter((e) => e.status === "done").length;
+
+  // doručený výsledok sa z fronty presunie do histórie – zoznam načítame znova
+  useEffect(() => {
+    refresh();
+  }, [done, refresh]);
+
+  const shown = useMemo(() => filterInspections(records, filter), [records, filter]);
+  const set = (patch: Partial<HistoryFilter>) => setFilter((f) => ({ ...f, ...patch }));
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-4">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold">História inšpekcií</h1>
+          {pending > 0 && (
+            <span className="px-2 py-1 rounded-full bg-amber-600 text-white text-xs font-semibold">
+              Čakajúce inšpekcie: {pending}
+            </span>
+          )}
+          <button onClick={refresh} className="ml-auto text-sm text-slate-300 hover:text-white">
+            Obnoviť
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            placeholder="Číslo zákazky"
+            value={filter.orderNumber || ""}
+            onChange={(e) => set({ orderNumber: e.target.value })}
+            className={`${inputCls} w-[140px]`}
+          />
+          <input
+            placeholder="Číslo produktu"
+            value={filter.productNumber || ""}
+            onChange={(e) => set({ productNumber: e.target.value })}
+            className={`${inputCls} w-[140px]`}
+          />
+          <input
+            placeholder="Operátor"
+            value={filter.operator || ""}
+            onChange={(e) => set({ operator: e.target.value })}
+            className={`${inputCls} w-[140px]`}
+          />
+          <input
+            type="date"
+            value={filter.dateFrom || ""}
+            onChange={(e) => set({ dateFrom: e.target.value })}
+            className={inputCls}
+            title="Od"
+          />
+          <input
+            type="date"
+            value={filter.dateTo || ""}
+            onChange={(e) => set({ dateTo: e.target.value })}
+            className={inputCls}
+            title="Do"
+          />
+          <select
+            value={filter.result || "all"}
+            onChange={(e) => set({ result: e.target.value as HistoryFilter["result"] })}
+            className={inputCls}
+          >
+            <option value="all">Všetky</option>
+            <option value="pass">Vyhovuje</option>
+            <option value="fail">Nevyhovuje</option>
+          </select>
+        </div>
+
+        {loading ? (
+          <p className="text-slate-400">Načítavam…</p>
+        ) : shown.length ? (
+          <ul className="space-y-2">
+            {shown.map((r) => (
+              <li
+                key={r.id}
+                className="flex flex-wrap items-center gap-3 rounded-xl bg-slate-800/60 border border-slate-700 p-3 text-sm"
+              >
+                <img
+                  src={r.view.url}
+                  alt=""
+                  className="w-14 h-14 object-contain rounded bg-white"
+                />
+                <div className="min-w-[180px]">
+                  <div className="font-semibold">
+                    {r.orderNumber || "-"} / {r.productNumber || "-"}
+                    {r.sheet && (
+                      <span className="ml-2 px-2 py-0.5 rounded bg-sky-700 text-white text-xs font-normal">
+                        hárok #{r.sheet.index + 1} / {r.sheet.rows * r.sheet.cols}
+                      </span>
+                    )}
+                    {r.runId && (
+                      <span className="ml-2 px-2 py-0.5 rounded bg-violet-700 text-white text-xs font-normal">
+                        vzorkovanie
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-slate-400">
+                    {new Date(r.createdAt).toLocaleString()} · {r.operator || "-"}
+                  </div>
+                </div>
+                <span className={r.passed ? "text-green-400 font-semibold" : "text-red-400 font-semibold"}>
+                  {r.passed ? "Vyhovuje" : "Nevyhovuje"}
+                </span>
+                <div className="flex flex-wrap gap-1">
+                  <VerdictBadge label="Text" verdict={r.summary.text} />
+                  <VerdictBadge label="Kód" verdict={r.summary.bc} />
+                  <VerdictBadge label="Grafika" verdict={r.summary.gfx} />
+                </div>
+                <div className="ml-auto flex gap-2">
+                  <Link
+                    to={`/history/${r.id}`}
+                    className="px-3 py-1 rounded-lg bg-sky-600 hover:bg-sky-700 text-white"
+                  >
+                    Otvoriť
+                  </Link>
+                  {can(session?.role, "results.delete") && (
+                    <button
+                      onClick={async () => {
+                        if (!confirm("Zmazať inšpekciu z histórie?")) return;
+                        try {
+                          await deleteInspection(r.id);
+                        } catch (e) {
+                          alert("Zmazanie inšpekcie zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+                        }
+                        refresh();
+                      }}
+                      className="px-3 py-1 rounded-lg text-red-300 hover:text-red-200"
+                    >
+                      Zmazať
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-slate-400">
+            {records.length ? "Filtru nezodpovedá žiadna inšpekcia." : "História je zatiaľ prázdna."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
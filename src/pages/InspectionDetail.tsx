@@ -0,0 +1,65 @@
+// src/pages/InspectionDetail.tsx
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import ResultView from "../components/ResultView";
+import {
+  getInspection,
+  saveInspection,
+  withDecision,
+  type InspectionRecord
+} from "../lib/inspectionHistory";
+import type { DefectDecision } from "../lib/defects";
+import ReportButtons from "../components/ReportButtons";
+
+export default function InspectionDetail() {
+  const { id = "" } = useParams();
+  const [rec, setRec] = useState<InspectionRecord | null | undefined>(undefined);
+
+  useEffect(() => {
+    let active = true;
+    getInspection(id)
+      .then((r) => {
+        if (active) setRec(r ?? null);
+      })
+      .catch(() => {
+        if (active) setRec(null);
+      });
+    return () => {
+      active = false;
+    };
+  }, [id]);
+
+  function decide(key: string, decision: DefectDecision | null) {
+    if (!rec) return;
+    const next = withDecision(rec, key, decision);
+    setRec(next);
+    saveInspection(next).catch((e) => console.warn("Uloženie rozhodnutia zlyhalo:", e));
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 print:bg-white">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <Link to="/history" className="text-sm text-slate-300 hover:text-white print:hidden">
+          ← Späť na históriu
+        </Link>
+
+        {rec === undefined ? (
+          <p className="mt-8 text-slate-400">Načítavam…</p>
+        ) : rec === null ? (
+          <p className="mt-8 text-slate-300">Inšpekcia sa nenašla.</p>
+        ) : (
+          <ResultView
+            view={rec.view}
+            summary={rec.summary}
+            meta={rec}
+            generatedAt={new Date(rec.createdAt)}
+            masterUrl={rec.masterUrl}
+            decisions={rec.decisions}
+            onDecide={decide}
+            actions={<ReportButtons getRecord={() => rec} />}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,50 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
+import { login } from "../lib/auth";
+import { ApiError } from "../lib/apiClient";
+import { useSession } from "../hooks/useSession";
+
+type LoginState = { from?: Location; expired?: boolean } | null;
 
 export default function Login() {
   const [user, setUser] = useState("");
   const [pass, setPass] = useState("");
   const [err, setErr] = useState("");
+  const [busy, setBusy] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const session = useSession();
+
+  const state = location.state as LoginState;
+  // návrat tam, odkiaľ nás RequireAuth poslal
+  const target = state?.from
+    ? `${state.from.pathname}${state.from.search || ""}${state.from.hash || ""}`
+    : "/compare";
 
-  function handleSubmit(e: React.FormEvent) {
+  async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setErr("");
+    setBusy(true);
 
-    // pevné prihlasovanie
-    const ok = user.trim().toLowerCase() === "kontrola" && pass === "gpcs14";
-    if (!ok) {
-      setErr("Nesprávne meno alebo heslo.");
-      return;
+    try {
+      await login(user.trim(), pass);
+      navigate(target, { replace: true });
+    } catch (e) {
+      if (e instanceof ApiError && (e.status === 401 || e.status === 403)) {
+        setErr("Nesprávne meno alebo heslo.");
+      } else {
+        setErr(
+          "Prihlásenie zlyhalo: " + (e instanceof Error ? e.message : String(e))
+        );
+      }
+    } finally {
+      setBusy(false);
     }
-
-    localStorage.setItem("etis_auth", "1");
-    localStorage.setItem("etis_user", "kontrola");
-    navigate("/compare", { replace: true });
   }
 
-  const canSubmit = user.trim().length > 0 && pass.length > 0;
+  if (session) return <Navigate to={target} replace />;
+
+  const canSubmit = user.trim().length > 0 && pass.length > 0 && !busy;
 
   return (
     <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
@@ -33,6 +54,12 @@ export default function Login() {
         </h1>
         <p className="text-center text-slate-400 mt-1">Prihlásenie</p>
 
+        {state?.expired && !err && (
+          <div className="mt-4 text-sm text-amber-300 bg-amber-900/20 border border-amber-700 rounded-lg px-3 py-2">
+            Relácia vypršala – prihlás sa znova.
+          </div>
+        )}
+
         <form className="mt-6 space-y-4" onSubmit={handleSubmit}>
           <div>
             <label className="block text-slate-300 text-sm mb-1">Používateľ</label>
@@ -67,7 +94,7 @@ export default function Login() {
             disabled={!canSubmit}
             className="w-full rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold py-2.5 transition"
           >
-            Prihlásiť sa
+            {busy ? "Prihlasujem…" : "Prihlásiť sa"}
           </button>
         </form>
       </div>
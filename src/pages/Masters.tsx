@@ -0,0 +1,64 @@
+// src/pages/Masters.tsx
+import { useState } from "react";
+import MasterLibraryList from "../components/MasterLibraryList";
+import { useMasterLibrary } from "../hooks/useMasterLibrary";
+import { MASTER_SYNC_URL, deleteMaster, syncMasters } from "../lib/masterLibrary";
+
+export default function Masters() {
+  const { masters, refresh } = useMasterLibrary();
+  const [syncMsg, setSyncMsg] = useState("");
+  const unsynced = masters.filter((m) => !m.syncedAt).length;
+
+  async function handleSync() {
+    setSyncMsg("Synchronizujem…");
+    try {
+      const { ok, failed } = await syncMasters();
+      setSyncMsg(
+        `Odoslané: ${ok}` +
+          (failed.length
+            ? ` · zlyhalo ${failed.length}: ${failed.map((f) => `${f.productNumber} (${f.error})`).join(", ")}`
+            : "")
+      );
+    } catch (e) {
+      setSyncMsg("Synchronizácia zlyhala: " + (e instanceof Error ? e.message : String(e)));
+    }
+    refresh();
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+        <h1 className="text-2xl font-bold">Správa mastrov</h1>
+
+        {MASTER_SYNC_URL && (
+          <div className="flex items-center gap-3 text-sm">
+            <button
+              onClick={handleSync}
+              disabled={!unsynced}
+              className="bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white font-semibold px-4 py-2 rounded-xl"
+            >
+              Synchronizovať ({unsynced})
+            </button>
+            {syncMsg && <span className="text-slate-300">{syncMsg}</span>}
+          </div>
+        )}
+
+        <div className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5">
+          <MasterLibraryList
+            masters={masters}
+            showSync={!!MASTER_SYNC_URL}
+            onDelete={async (m) => {
+              if (!confirm(`Zmazať master ${m.productNumber}?`)) return;
+              try {
+                await deleteMaster(m.id);
+              } catch (e) {
+                alert("Zmazanie mastra zlyhalo: " + (e instanceof Error ? e.message : String(e)));
+              }
+              refresh();
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
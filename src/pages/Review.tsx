@@ -0,0 +1,62 @@
+// src/pages/Review.tsx
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import VerdictBadge from "../components/VerdictBadge";
+import { useInspectionHistory } from "../hooks/useInspectionHistory";
+import { pendingDefects } from "../lib/defects";
+
+/** Inšpekcie s neposúdenými nálezmi – majster ich otvorí a rozhodne. */
+export default function Review() {
+  const { records, loading } = useInspectionHistory();
+  const waiting = useMemo(
+    () =>
+      records
+        .map((r) => ({ rec: r, pending: pendingDefects(r.view, r.decisions).length }))
+        .filter((x) => x.pending > 0),
+    [records]
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-4">
+        <h1 className="text-2xl font-bold">Schvaľovanie</h1>
+        {loading ? (
+          <p className="text-slate-400">Načítavam…</p>
+        ) : waiting.length ? (
+          <ul className="space-y-2">
+            {waiting.map(({ rec: r, pending }) => (
+              <li
+                key={r.id}
+                className="flex flex-wrap items-center gap-3 rounded-xl bg-slate-800/60 border border-slate-700 p-3 text-sm"
+              >
+                <img src={r.view.url} alt="" className="w-14 h-14 object-contain rounded bg-white" />
+                <div className="min-w-[180px]">
+                  <div className="font-semibold">
+                    {r.orderNumber || "-"} / {r.productNumber || "-"}
+                  </div>
+                  <div className="text-slate-400">
+                    {new Date(r.createdAt).toLocaleString()} · {r.operator || "-"}
+                  </div>
+                </div>
+                <span className="text-amber-300 font-semibold">Neposúdené nálezy: {pending}</span>
+                <div className="flex flex-wrap gap-1">
+                  <VerdictBadge label="Text" verdict={r.summary.text} />
+                  <VerdictBadge label="Kód" verdict={r.summary.bc} />
+                  <VerdictBadge label="Grafika" verdict={r.summary.gfx} />
+                </div>
+                <Link
+                  to={`/history/${r.id}`}
+                  className="ml-auto px-3 py-1 rounded-lg bg-sky-600 hover:bg-sky-700 text-white"
+                >
+                  Posúdiť
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-slate-300">Žiadne inšpekcie nečakajú na schválenie.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// src/pages/Settings.tsx
+import { useState } from "react";
+import BackendBadge from "../components/BackendBadge";
+import { useBackendHealth } from "../hooks/useBackendHealth";
+import { BACKENDS, TIMEOUTS, type BackendId } from "../lib/apiClient";
+import { loadSettings, saveSettings, type StationSettings } from "../lib/settings";
+
+export default function Settings() {
+  const [settings, setSettings] = useState<StationSettings>(loadSettings);
+  const [saved, setSaved] = useState(false);
+  const health = useBackendHealth();
+
+  const update = (patch: Partial<StationSettings>) => {
+    setSettings((s) => ({ ...s, ...patch }));
+    setSaved(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <h1 className="text-2xl font-bold">Nastavenia stanice</h1>
+
+        <section className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5 space-y-4">
+          <h2 className="font-semibold">Predvolené rozmery etikety</h2>
+          <div className="flex flex-wrap gap-3">
+            <label className="text-sm text-slate-300">
+              Šírka (mm)
+              <input
+                value={settings.labelWidthMm}
+                onChange={(e) => update({ labelWidthMm: e.target.value })}
+                className="block mt-1 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 w-[120px]"
+              />
+            </label>
+            <label className="text-sm text-slate-300">
+              Výška (mm)
+              <input
+                value={settings.labelHeightMm}
+                onChange={(e) => update({ labelHeightMm: e.target.value })}
+                className="block mt-1 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 w-[120px]"
+              />
+            </label>
+          </div>
+
+          <h2 className="font-semibold">Snímanie</h2>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.detectEdges}
+              onChange={(e) => update({ detectEdges: e.target.checked })}
+            />
+            Hľadať okraje etikety a vyrovnať perspektívu
+          </label>
+
+          <h2 className="font-semibold">Automatické odfotenie</h2>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={settings.autoCapture}
+              onChange={(e) => update({ autoCapture: e.target.checked })}
+            />
+            Predvolene zapnuté
+          </label>
+          <div className="flex flex-wrap gap-3">
+            <label className="text-sm text-slate-300">
+              Čas v pokoji (ms)
+              <input
+                value={settings.autoCaptureHoldMs}
+                onChange={(e) => update({ autoCaptureHoldMs: e.target.value })}
+                className="block mt-1 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 w-[120px]"
+              />
+            </label>
+            <label className="text-sm text-slate-300">
+              Min. ostrosť
+              <input
+                value={settings.minSharpness}
+                onChange={(e) => update({ minSharpness: e.target.value })}
+                className="block mt-1 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 w-[120px]"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">
+            Ostrosť je rozptyl hrán vo výreze rámika; rozmazaný obraz má zvyčajne pod 30.
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => {
+                saveSettings(settings);
+                setSaved(true);
+              }}
+              className="bg-sky-600 hover:bg-sky-700 text-white font-semibold px-5 py-2 rounded-xl"
+            >
+              Uložiť
+            </button>
+            {saved && <span className="text-sm text-green-400">Uložené.</span>}
+          </div>
+        </section>
+
+        <section className="rounded-2xl bg-slate-800/60 border border-slate-700 p-5 space-y-3 text-sm">
+          <h2 className="font-semibold text-base">Backendy</h2>
+          <BackendBadge health={health} />
+          <ul className="text-slate-300 space-y-1">
+            {(Object.keys(BACKENDS) as BackendId[]).map((id) => (
+              <li key={id}>
+                <b>{BACKENDS[id].label}:</b>{" "}
+                <span className="font-mono">{BACKENDS[id].base}</span>
+              </li>
+            ))}
+            <li>
+              <b>Časové limity:</b> Java {TIMEOUTS.javaCompare / 1000} s · Python{" "}
+              {TIMEOUTS.pyCompare / 1000} s · starý /api/compare {TIMEOUTS.legacyCompare / 1000} s
+            </li>
+          </ul>
+          <p className="text-xs text-slate-400">
+            Adresy a limity sa nastavujú cez VITE_* premenné pri builde.
+          </p>
+        </section>
+      </div>
+    </div>
+  );
+}